@@ -2,11 +2,22 @@
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { revalidatePath } from 'next/cache';
+import { parseRecordFormData } from '@/lib/recordForm';
+import { connectTags, recordTagsInclude } from '@/lib/tags';
+import { recordSplitsInclude } from '@/lib/splits';
+import { RecordSplit } from '@/types/Record';
+import {
+  reviewExtractedFields,
+  toExtractedValues,
+} from '@/lib/extractionAccuracy';
 
 interface RecordData {
   text: string;
   amount: number;
+  currency: string;
   category: string;
+  tags: string[];
+  splits: RecordSplit[];
   date: string; // Added date field
 }
 
@@ -16,41 +27,14 @@ interface RecordResult {
 }
 
 async function addExpenseRecord(formData: FormData): Promise<RecordResult> {
-  const textValue = formData.get('text');
-  const amountValue = formData.get('amount');
-  const categoryValue = formData.get('category');
-  const dateValue = formData.get('date'); // Extract date from formData
-
-  // Check for input values
-  if (
-    !textValue ||
-    textValue === '' ||
-    !amountValue ||
-    !categoryValue ||
-    categoryValue === '' ||
-    !dateValue ||
-    dateValue === ''
-  ) {
-    return { error: 'Text, amount, category, or date is missing' };
-  }
-
-  const text: string = textValue.toString(); // Ensure text is a string
-  const amount: number = parseFloat(amountValue.toString()); // Parse amount as number
-  const category: string = categoryValue.toString(); // Ensure category is a string
-  // Convert date to ISO-8601 format while preserving the user's input date
-  let date: string;
-  try {
-    // Parse the date string (YYYY-MM-DD format) and create a date at noon UTC to avoid timezone issues
-    const inputDate = dateValue.toString();
-    const [year, month, day] = inputDate.split('-');
-    const dateObj = new Date(
-      Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day), 12, 0, 0)
-    );
-    date = dateObj.toISOString();
-  } catch (error) {
-    console.error('Invalid date format:', error); // Log the error
-    return { error: 'Invalid date format' };
+  // Validate the form fields (shared with updateExpenseRecord)
+  const { input, error } = parseRecordFormData(formData);
+  if (!input) {
+    return { error };
   }
+  const { text, amount, category, date, tags, splits, breakdown } = input;
+  // Set when the expense comes from a scanned receipt
+  const uploadId = formData.get('uploadId')?.toString() || null;
 
   // Get logged in user
   const { userId } = await auth();
@@ -61,21 +45,90 @@ async function addExpenseRecord(formData: FormData): Promise<RecordResult> {
   }
 
   try {
-    // Create a new record (allow multiple expenses per day)
-    const createdRecord = await db.record.create({
-      data: {
-        text,
-        amount,
-        category,
-        date, // Save the date to the database
-        userId,
-      },
+    const upload = uploadId
+      ? await db.upload.findFirst({
+          where: { id: uploadId, userId, confirmedAt: null, discardedAt: null },
+          select: { id: true, parsed: true, suggestedCategory: true },
+        })
+      : null;
+    if (uploadId && !upload) {
+      return { error: 'Receipt not found' };
+    }
+
+    // Default to the user's base currency when the form didn't pick one
+    let currency = input.currency;
+    if (!currency) {
+      const user = await db.user.findUnique({
+        where: { clerkUserId: userId },
+        select: { baseCurrency: true },
+      });
+      currency = user?.baseCurrency || 'USD';
+    }
+
+    // Create a new record (allow multiple expenses per day), recording
+    // how it differs from what was read off the receipt it came from. The
+    // receipt is claimed first, so confirming it twice (a double click, or
+    // the review queue open in two tabs) saves a single record
+    const createdRecord = await db.$transaction(async (tx) => {
+      if (upload) {
+        const claimed = await tx.upload.updateMany({
+          where: { id: upload.id, userId, confirmedAt: null, discardedAt: null },
+          data: { confirmedAt: new Date() },
+        });
+        if (claimed.count === 0) return null;
+      }
+
+      const record = await tx.record.create({
+        data: {
+          text,
+          amount,
+          currency,
+          category,
+          date, // Save the date to the database
+          ...breakdown,
+          uploadId,
+          userId,
+          tags: { connectOrCreate: connectTags(userId, tags || []) },
+          splits: { create: splits || [] },
+        },
+        include: { ...recordTagsInclude, ...recordSplitsInclude },
+      });
+
+      if (upload) {
+        await tx.upload.update({
+          where: { id: upload.id },
+          data: {
+            fieldReviews: {
+              deleteMany: {}, // Only the latest confirmation counts
+              create: reviewExtractedFields(
+                toExtractedValues(upload.parsed, upload.suggestedCategory),
+                {
+                  amount,
+                  currency,
+                  date: date.slice(0, 10),
+                  description: text,
+                  category,
+                }
+              ),
+            },
+          },
+        });
+      }
+
+      return record;
     });
 
+    if (!createdRecord) {
+      return { error: 'This receipt has already been confirmed or discarded' };
+    }
+
     const recordData: RecordData = {
       text: createdRecord.text,
       amount: createdRecord.amount,
+      currency: createdRecord.currency,
       category: createdRecord.category,
+      tags: createdRecord.tags.map((tag) => tag.name),
+      splits: createdRecord.splits,
       date: createdRecord.date?.toISOString() || date,
     };
 
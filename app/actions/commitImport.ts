@@ -0,0 +1,67 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { isSupportedCurrency } from '@/lib/currency';
+import { MAX_IMPORT_ROWS } from '@/lib/importRecords';
+import { getUserCategories } from '@/lib/userCategories';
+import { ImportRecordInput } from '@/types/Import';
+
+async function commitImport(rows: ImportRecordInput[]): Promise<{
+  count?: number;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  if (rows.length === 0) {
+    return { error: 'No rows selected' };
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  try {
+    const categories = (await getUserCategories(userId)).map(
+      (category) => category.name
+    );
+
+    // Rows come back from the client, so check them again
+    const invalid = rows.find(
+      (row) =>
+        !row.text ||
+        !(row.amount > 0) ||
+        !categories.includes(row.category) ||
+        !isSupportedCurrency(row.currency) ||
+        isNaN(new Date(row.date).getTime())
+    );
+    if (invalid) {
+      return { error: `Invalid row: ${invalid.text || 'missing description'}` };
+    }
+
+    // A single insert, so either every row is saved or none are
+    const { count } = await db.record.createMany({
+      data: rows.map((row) => ({
+        text: row.text,
+        amount: row.amount,
+        currency: row.currency,
+        category: row.category,
+        date: new Date(row.date),
+        userId,
+      })),
+    });
+
+    revalidatePath('/');
+
+    return { count };
+  } catch (error) {
+    console.error('Error importing records:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default commitImport;
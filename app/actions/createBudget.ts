@@ -0,0 +1,57 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+
+async function createBudget(formData: FormData): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const amountValue = formData.get('amount');
+  const categoryValue = formData.get('category'); // Empty for the overall limit
+
+  if (!amountValue) {
+    return { error: 'Budget amount is missing' };
+  }
+
+  const amount = parseFloat(amountValue.toString());
+  if (isNaN(amount) || amount <= 0) {
+    return { error: 'Budget amount must be a positive number' };
+  }
+
+  const category = categoryValue ? categoryValue.toString() : null;
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    // The unique index doesn't cover a null category, so check the overall limit here
+    const existing = await db.budget.findFirst({
+      where: { userId, category },
+    });
+
+    if (existing) {
+      return {
+        error: category
+          ? `A budget for ${category} already exists`
+          : 'An overall monthly budget already exists',
+      };
+    }
+
+    await db.budget.create({
+      data: { userId, category, amount },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Budget created' };
+  } catch (error) {
+    console.error('Error creating budget:', error); // Log the error
+    return { error: 'An unexpected error occurred while creating the budget.' };
+  }
+}
+
+export default createBudget;
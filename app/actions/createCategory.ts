@@ -0,0 +1,62 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { parseCategoryFormData } from '@/lib/categories';
+
+async function createCategory(formData: FormData): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { input, error } = parseCategoryFormData(formData);
+  if (!input) {
+    return { error };
+  }
+  if (!input.name) {
+    return { error: 'Category name is missing' };
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const existing = await db.category.findFirst({
+      where: { userId, name: { equals: input.name, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      return { error: `A category named ${existing.name} already exists` };
+    }
+
+    if (input.parentId) {
+      const parent = await db.category.findFirst({
+        where: { id: input.parentId, userId },
+      });
+      if (!parent) {
+        return { error: 'Parent category not found' };
+      }
+    }
+
+    await db.category.create({
+      data: {
+        userId,
+        name: input.name,
+        ...(input.icon ? { icon: input.icon } : {}),
+        ...(input.color ? { color: input.color } : {}),
+        parentId: input.parentId || null,
+      },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Category added' };
+  } catch (error) {
+    console.error('Error creating category:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default createCategory;
@@ -0,0 +1,97 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { isSupportedCurrency } from '@/lib/currency';
+import { RECURRING_FREQUENCIES, RecurringFrequency } from '@/lib/recurring';
+import { parseDateInput } from '@/lib/recordForm';
+
+async function createRecurringExpense(formData: FormData): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const textValue = formData.get('text');
+  const amountValue = formData.get('amount');
+  const currencyValue = formData.get('currency');
+  const categoryValue = formData.get('category');
+  const frequencyValue = formData.get('frequency');
+  const intervalValue = formData.get('intervalDays');
+  const startDateValue = formData.get('startDate');
+  const endDateValue = formData.get('endDate'); // Optional
+
+  if (
+    !textValue ||
+    !amountValue ||
+    !currencyValue ||
+    !categoryValue ||
+    !frequencyValue ||
+    !startDateValue
+  ) {
+    return { error: 'Text, amount, currency, category, frequency, or start date is missing' };
+  }
+
+  const amount = parseFloat(amountValue.toString());
+  if (isNaN(amount) || amount <= 0) {
+    return { error: 'Amount must be a positive number' };
+  }
+
+  const currency = currencyValue.toString();
+  if (!isSupportedCurrency(currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  const frequency = frequencyValue.toString();
+  if (!RECURRING_FREQUENCIES.includes(frequency as RecurringFrequency)) {
+    return { error: 'Invalid frequency' };
+  }
+
+  let intervalDays: number | null = null;
+  if (frequency === 'interval') {
+    intervalDays = intervalValue ? parseInt(intervalValue.toString(), 10) : NaN;
+    if (isNaN(intervalDays) || intervalDays < 1) {
+      return { error: 'Interval must be at least 1 day' };
+    }
+  }
+
+  const startDate = parseDateInput(startDateValue.toString());
+  const endDate = endDateValue ? parseDateInput(endDateValue.toString()) : null;
+  if (!startDate || (endDateValue && !endDate)) {
+    return { error: 'Invalid date format' };
+  }
+  if (endDate && endDate < startDate) {
+    return { error: 'End date must be after the start date' };
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.recurringExpense.create({
+      data: {
+        userId,
+        text: textValue.toString(),
+        amount,
+        currency,
+        category: categoryValue.toString(),
+        frequency,
+        intervalDays,
+        startDate,
+        endDate,
+      },
+    });
+
+    revalidatePath('/recurring');
+
+    return { message: 'Recurring expense created' };
+  } catch (error) {
+    console.error('Error creating recurring expense:', error); // Log the error
+    return {
+      error: 'An unexpected error occurred while creating the recurring expense.',
+    };
+  }
+}
+
+export default createRecurringExpense;
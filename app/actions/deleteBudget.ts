@@ -0,0 +1,33 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import { revalidatePath } from 'next/cache';
+
+async function deleteBudget(budgetId: string): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.budget.delete({
+      where: {
+        id: budgetId,
+        userId,
+      },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Budget deleted' };
+  } catch (error) {
+    console.error('Error deleting budget:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default deleteBudget;
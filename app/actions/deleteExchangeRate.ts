@@ -0,0 +1,33 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import { revalidatePath } from 'next/cache';
+
+async function deleteExchangeRate(rateId: string): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.exchangeRate.delete({
+      where: {
+        id: rateId,
+        userId,
+      },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Exchange rate deleted' };
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default deleteExchangeRate;
@@ -0,0 +1,34 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import { revalidatePath } from 'next/cache';
+
+// Expenses already generated from the schedule are kept
+async function deleteRecurringExpense(recurringExpenseId: string): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.recurringExpense.delete({
+      where: {
+        id: recurringExpenseId,
+        userId,
+      },
+    });
+
+    revalidatePath('/recurring');
+
+    return { message: 'Recurring expense deleted' };
+  } catch (error) {
+    console.error('Error deleting recurring expense:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default deleteRecurringExpense;
@@ -0,0 +1,35 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+
+// Take scanned receipts out of the review queue without saving expenses.
+// The uploads and their files are kept
+async function discardReceipts(
+  uploadIds: string[]
+): Promise<{ message?: string; error?: string }> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  if (!Array.isArray(uploadIds) || uploadIds.length === 0) {
+    return { error: 'No receipts selected' };
+  }
+
+  try {
+    const { count } = await db.upload.updateMany({
+      where: { id: { in: uploadIds }, userId, confirmedAt: null },
+      data: { discardedAt: new Date() },
+    });
+
+    return {
+      message: `${count} receipt${count === 1 ? '' : 's'} discarded`,
+    };
+  } catch (error) {
+    console.error('Error discarding receipts:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default discardReceipts;
@@ -2,6 +2,7 @@
 
 import { checkUser } from '@/lib/checkUser';
 import { db } from '@/lib/db';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
 import { generateAIAnswer, ExpenseRecord } from '@/lib/ai';
 
 export async function generateInsightAnswer(question: string): Promise<string> {
@@ -28,17 +29,30 @@ export async function generateInsightAnswer(question: string): Promise<string> {
       take: 50, // Limit to recent 50 expenses for analysis
     });
 
-    // Convert to format expected by AI
-    const expenseData: ExpenseRecord[] = expenses.map((expense) => ({
-      id: expense.id,
-      amount: expense.amount,
-      category: expense.category || 'Other',
-      description: expense.text,
-      date: expense.createdAt.toISOString(),
-    }));
+    // Convert to format expected by AI, with amounts in the base currency
+    const converter = await getCurrencyConverter(user.clerkUserId);
+    // Expenses without an exchange rate are left out
+    const expenseData: ExpenseRecord[] = expenses.flatMap((expense) => {
+      const amount = converter.toBase(expense.amount, expense.currency, expense.date);
+      return amount === null
+        ? []
+        : [
+            {
+              id: expense.id,
+              amount,
+              category: expense.category || 'Other',
+              description: expense.text,
+              date: expense.createdAt.toISOString(),
+            },
+          ];
+    });
 
     // Generate AI answer
-    const answer = await generateAIAnswer(question, expenseData);
+    const answer = await generateAIAnswer(
+      question,
+      expenseData,
+      converter.baseCurrency
+    );
     return answer;
   } catch (error) {
     console.error('Error generating insight answer:', error);
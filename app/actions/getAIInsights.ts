@@ -2,6 +2,8 @@
 
 import { checkUser } from '@/lib/checkUser';
 import { db } from '@/lib/db';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
+import { getBudgetStatus } from '@/lib/budgets';
 import { generateExpenseInsights, AIInsight, ExpenseRecord } from '@/lib/ai';
 
 export async function getAIInsights(): Promise<AIInsight[]> {
@@ -52,17 +54,33 @@ export async function getAIInsights(): Promise<AIInsight[]> {
       ];
     }
 
-    // Convert to format expected by AI
-    const expenseData: ExpenseRecord[] = expenses.map((expense) => ({
-      id: expense.id,
-      amount: expense.amount,
-      category: expense.category || 'Other',
-      description: expense.text,
-      date: expense.createdAt.toISOString(),
-    }));
+    // Convert to format expected by AI, with amounts in the base currency
+    const converter = await getCurrencyConverter(user.clerkUserId);
+    // Expenses without an exchange rate are left out
+    const expenseData: ExpenseRecord[] = expenses.flatMap((expense) => {
+      const amount = converter.toBase(expense.amount, expense.currency, expense.date);
+      return amount === null
+        ? []
+        : [
+            {
+              id: expense.id,
+              amount,
+              category: expense.category || 'Other',
+              description: expense.text,
+              date: expense.createdAt.toISOString(),
+            },
+          ];
+    });
+
+    // Give the AI real limits for its budget alerts
+    const budgets = await getBudgetStatus(user.clerkUserId);
 
     // Generate AI insights
-    const insights = await generateExpenseInsights(expenseData);
+    const insights = await generateExpenseInsights(
+      expenseData,
+      converter.baseCurrency,
+      budgets
+    );
     return insights;
   } catch (error) {
     console.error('Error getting AI insights:', error);
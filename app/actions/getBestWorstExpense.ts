@@ -1,10 +1,12 @@
 'use server';
 import { db } from '@/lib/db';
 import { auth } from '@clerk/nextjs/server';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
 
 async function getBestWorstExpense(): Promise<{
   bestExpense?: number;
   worstExpense?: number;
+  currency?: string;
   error?: string;
 }> {
   const { userId } = await auth();
@@ -15,22 +17,31 @@ async function getBestWorstExpense(): Promise<{
 
   try {
     // Fetch all records for the authenticated user
-    const records = await db.record.findMany({
-      where: { userId },
-      select: { amount: true }, // Fetch only the `amount` field for efficiency
-    });
+    const [records, converter] = await Promise.all([
+      db.record.findMany({
+        where: { userId },
+        select: { amount: true, currency: true, date: true }, // Only what the conversion needs
+      }),
+      getCurrencyConverter(userId),
+    ]);
 
     if (!records || records.length === 0) {
-      return { bestExpense: 0, worstExpense: 0 }; // Return 0 if no records exist
+      return { bestExpense: 0, worstExpense: 0, currency: converter.baseCurrency }; // Return 0 if no records exist
     }
 
-    const amounts = records.map((record) => record.amount);
+    // Compare amounts in the base currency so 100 Bs doesn't outrank 50 USD
+    const amounts = records
+      .map((record) => converter.toBase(record.amount, record.currency, record.date))
+      .filter((amount): amount is number => amount !== null);
+    if (amounts.length === 0) {
+      return { bestExpense: 0, worstExpense: 0, currency: converter.baseCurrency }; // No expense could be converted
+    }
 
     // Calculate best and worst expense amounts
     const bestExpense = Math.max(...amounts); // Highest amount
     const worstExpense = Math.min(...amounts); // Lowest amount
 
-    return { bestExpense, worstExpense };
+    return { bestExpense, worstExpense, currency: converter.baseCurrency };
   } catch (error) {
     console.error('Error fetching expense amounts:', error); // Log the error
     return { error: 'Database error' };
@@ -0,0 +1,25 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { getBudgetStatus as computeBudgetStatus } from '@/lib/budgets';
+import { BudgetStatus } from '@/types/Budget';
+
+async function getBudgetStatus(): Promise<{
+  status?: BudgetStatus;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const status = await computeBudgetStatus(userId);
+    return { status };
+  } catch (error) {
+    console.error('Error fetching budget status:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getBudgetStatus;
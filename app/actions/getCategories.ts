@@ -0,0 +1,26 @@
+'use server';
+import { checkUser } from '@/lib/checkUser';
+import { getUserCategories } from '@/lib/userCategories';
+import { Category } from '@/types/Category';
+
+async function getCategories(): Promise<{
+  categories?: Category[];
+  error?: string;
+}> {
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const categories = await getUserCategories(user.clerkUserId);
+
+    return { categories };
+  } catch (error) {
+    console.error('Error fetching categories:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getCategories;
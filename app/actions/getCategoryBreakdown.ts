@@ -0,0 +1,60 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
+import { rollUpCategoryTotals } from '@/lib/categories';
+import { getUserCategories } from '@/lib/userCategories';
+import { getCategoryShares } from '@/lib/splits';
+import { CategoryTotal } from '@/types/Category';
+
+async function getCategoryBreakdown(): Promise<{
+  totals?: CategoryTotal[];
+  currency?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const [records, converter, categories] = await Promise.all([
+      db.record.findMany({
+        where: { userId },
+        select: {
+          amount: true,
+          currency: true,
+          category: true,
+          date: true,
+          splits: { select: { category: true, amount: true } },
+        },
+      }),
+      getCurrencyConverter(userId),
+      getUserCategories(userId),
+    ]);
+
+    // Spending per category in the base currency, then rolled up to parents
+    const spentByCategory = new Map<string, number>();
+    records.forEach((record) => {
+      getCategoryShares(record).forEach((share) => {
+        const amount = converter.toBase(share.amount, record.currency, record.date);
+        if (amount === null) return; // No exchange rate
+        spentByCategory.set(
+          share.category,
+          (spentByCategory.get(share.category) || 0) + amount
+        );
+      });
+    });
+
+    return {
+      totals: rollUpCategoryTotals(spentByCategory, categories),
+      currency: converter.baseCurrency,
+    };
+  } catch (error) {
+    console.error('Error fetching category breakdown:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getCategoryBreakdown;
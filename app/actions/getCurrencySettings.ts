@@ -0,0 +1,31 @@
+'use server';
+import { db } from '@/lib/db';
+import { checkUser } from '@/lib/checkUser';
+import { ExchangeRate } from '@/types/ExchangeRate';
+
+async function getCurrencySettings(): Promise<{
+  baseCurrency?: string;
+  rates?: ExchangeRate[];
+  error?: string;
+}> {
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const rates = await db.exchangeRate.findMany({
+      where: { userId: user.clerkUserId },
+      select: { id: true, currency: true, rate: true, effectiveDate: true },
+      orderBy: [{ currency: 'asc' }, { effectiveDate: 'desc' }],
+    });
+
+    return { baseCurrency: user.baseCurrency, rates };
+  } catch (error) {
+    console.error('Error fetching currency settings:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getCurrencySettings;
@@ -0,0 +1,54 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import {
+  getFieldAccuracy,
+  summarizeAccuracyByMonth,
+} from '@/lib/extractionAccuracy';
+import {
+  ExtractionAccuracyRow,
+  FieldAccuracy,
+} from '@/types/ExtractionAccuracy';
+
+// How often each field read from a receipt was kept as extracted, per month
+// over the last `months` months and overall
+async function getExtractionAccuracy(months: number = 6): Promise<{
+  rows?: ExtractionAccuracyRow[];
+  overall?: FieldAccuracy[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  if (!Number.isInteger(months) || months < 1 || months > 36) {
+    return { error: 'Invalid report period' };
+  }
+
+  try {
+    const now = new Date();
+    const reviews = await db.uploadFieldReview.findMany({
+      where: {
+        upload: { userId },
+        createdAt: {
+          gte: new Date(
+            Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)
+          ),
+        },
+      },
+      select: { field: true, corrected: true, createdAt: true },
+    });
+
+    return {
+      rows: summarizeAccuracyByMonth(reviews),
+      overall: getFieldAccuracy(reviews),
+    };
+  } catch (error) {
+    console.error('Error fetching extraction accuracy:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getExtractionAccuracy;
@@ -2,16 +2,11 @@
 import { db } from '@/lib/db';
 import { auth } from '@clerk/nextjs/server';
 import { Record as ExpenseRecord } from '@/types/Record';
-
-interface FilterOptions {
-  category?: string;
-  minAmount?: number;
-  maxAmount?: number;
-  startDate?: string;
-  endDate?: string;
-  sortField?: 'date' | 'text' | 'category' | 'amount';
-  sortDirection?: 'asc' | 'desc';
-}
+import { buildRecordQuery, FilterOptions } from '@/lib/recordFilters';
+import { getUserCategories } from '@/lib/userCategories';
+import { recordTagsInclude } from '@/lib/tags';
+import { recordSplitsInclude } from '@/lib/splits';
+import { recordAttachmentInclude, toRecordAttachment } from '@/lib/attachments';
 
 async function getFilteredRecords(filters: FilterOptions = {}): Promise<{
   records?: ExpenseRecord[];
@@ -24,55 +19,27 @@ async function getFilteredRecords(filters: FilterOptions = {}): Promise<{
   }
 
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereClause: any = { userId };
-
-    // Add category filter
-    if (filters.category && filters.category !== 'all') {
-      whereClause.category = filters.category;
-    }
-
-    // Add amount range filter
-    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
-      whereClause.amount = {};
-      if (filters.minAmount !== undefined) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (whereClause.amount as any).gte = filters.minAmount;
-      }
-      if (filters.maxAmount !== undefined) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (whereClause.amount as any).lte = filters.maxAmount;
-      }
-    }
-
-    // Add date range filter
-    if (filters.startDate || filters.endDate) {
-      whereClause.date = {};
-      if (filters.startDate) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (whereClause.date as any).gte = new Date(filters.startDate);
-      }
-      if (filters.endDate) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (whereClause.date as any).lte = new Date(filters.endDate);
-      }
-    }
-
-    // Build orderBy clause
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const orderBy: any = {};
-    const sortField = filters.sortField || 'date';
-    const sortDirection = filters.sortDirection || 'desc';
-    
-    orderBy[sortField] = sortDirection;
+    const categories = await getUserCategories(userId);
+    const { where, orderBy } = buildRecordQuery(userId, filters, categories);
 
     const records = await db.record.findMany({
-      where: whereClause,
+      where,
       orderBy,
       take: 50, // Increased limit for filtered results
+      include: {
+        ...recordTagsInclude,
+        ...recordSplitsInclude,
+        ...recordAttachmentInclude,
+      },
     });
 
-    return { records };
+    return {
+      records: records.map(({ upload, ...record }) => ({
+        ...record,
+        attachment: toRecordAttachment(upload),
+        tags: record.tags.map((tag) => tag.name),
+      })),
+    };
   } catch (error) {
     console.error('Error fetching filtered records:', error);
     return { error: 'Database error' };
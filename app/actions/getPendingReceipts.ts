@@ -0,0 +1,56 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { ExtractedData, ReceiptCandidate } from '@/lib/heuristicExtraction';
+import { toRecordAttachment } from '@/lib/attachments';
+import { fromConfidenceColumns } from '@/lib/fieldConfidence';
+import { ExtractionMethod } from '@/types/Receipt';
+
+// Scanned receipts neither confirmed nor discarded yet, oldest first
+async function getPendingReceipts(): Promise<{
+  receipts?: ReceiptCandidate[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const uploads = await db.upload.findMany({
+      where: {
+        userId,
+        confirmedAt: null,
+        discardedAt: null,
+      },
+      orderBy: [{ createdAt: 'asc' }, { pageNumber: 'asc' }],
+      take: 100,
+    });
+
+    return {
+      receipts: uploads
+        .filter((upload) => upload.parsed)
+        .map((upload) => {
+          const extracted = upload.parsed as unknown as ExtractedData;
+          // The stored per-field scores, when the upload has them
+          const confidence = fromConfidenceColumns(upload);
+          return {
+            uploadId: upload.id,
+            fileName: upload.fileName,
+            pageNumber: upload.pageNumber,
+            extracted: confidence ? { ...extracted, confidence } : extracted,
+            category: upload.suggestedCategory || 'Other',
+            confidence: upload.confidence,
+            extractionMethod: upload.extractionMethod as ExtractionMethod | null,
+            attachment: toRecordAttachment(upload),
+          };
+        }),
+    };
+  } catch (error) {
+    console.error('Error fetching pending receipts:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getPendingReceipts;
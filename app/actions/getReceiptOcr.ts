@@ -0,0 +1,45 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { getOcrImageUrl } from '@/lib/attachments';
+import { OcrWord } from '@/lib/receiptLayout';
+
+// The words OCR found on a receipt photo and the image they were read from,
+// so the confirmation modal can show where each field came from. No words
+// for PDFs and for uploads scanned before they were kept
+async function getReceiptOcr(uploadId: string): Promise<{
+  words?: OcrWord[];
+  imageUrl?: string | null;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const upload = await db.upload.findFirst({
+      where: { id: uploadId, userId },
+      select: { id: true, ocrImageKey: true, ocrWords: true },
+    });
+
+    if (!upload) {
+      return { error: 'Upload not found' };
+    }
+
+    if (!upload.ocrImageKey || !Array.isArray(upload.ocrWords)) {
+      return { words: [], imageUrl: null };
+    }
+
+    return {
+      words: upload.ocrWords as unknown as OcrWord[],
+      imageUrl: getOcrImageUrl(upload.id),
+    };
+  } catch (error) {
+    console.error('Error fetching receipt OCR:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getReceiptOcr;
@@ -0,0 +1,46 @@
+'use server';
+import { checkUser } from '@/lib/checkUser';
+import { isReceiptExtractionMode } from '@/lib/heuristicExtraction';
+import {
+  OCR_LANGUAGES,
+  OcrLanguage,
+  parseOcrLanguages,
+} from '@/lib/ocrLanguages';
+import { listLocalOcrLanguages } from '@/lib/ocrWorkerPool';
+import { ReceiptExtractionMode } from '@/types/Receipt';
+
+async function getReceiptSettings(): Promise<{
+  extractionMode?: ReceiptExtractionMode;
+  ocrLanguages?: string[];
+  ocrAutoDetect?: boolean;
+  availableOcrLanguages?: OcrLanguage[];
+  installedOcrLanguages?: string[]; // The only ones that can be chosen
+  error?: string;
+}> {
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  const installed = await listLocalOcrLanguages();
+
+  return {
+    extractionMode: isReceiptExtractionMode(user.receiptExtraction)
+      ? user.receiptExtraction
+      : 'auto',
+    ocrLanguages: parseOcrLanguages(user.ocrLanguages),
+    ocrAutoDetect: user.ocrAutoDetect,
+    availableOcrLanguages: [
+      ...OCR_LANGUAGES,
+      ...installed
+        .filter(
+          (code) => !OCR_LANGUAGES.some((language) => language.code === code)
+        )
+        .map((code) => ({ code, label: code })),
+    ],
+    installedOcrLanguages: installed,
+  };
+}
+
+export default getReceiptSettings;
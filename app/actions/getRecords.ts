@@ -2,9 +2,14 @@
 import { db } from '@/lib/db';
 import { auth } from '@clerk/nextjs/server';
 import { Record } from '@/types/Record';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
+import { recordTagsInclude } from '@/lib/tags';
+import { recordSplitsInclude } from '@/lib/splits';
+import { recordAttachmentInclude, toRecordAttachment } from '@/lib/attachments';
 
 async function getRecords(): Promise<{
   records?: Record[];
+  baseCurrency?: string;
   error?: string;
 }> {
   const { userId } = await auth();
@@ -14,15 +19,31 @@ async function getRecords(): Promise<{
   }
 
   try {
-    const records = await db.record.findMany({
-      where: { userId },
-      orderBy: {
-        date: 'desc', // Sort by the `date` field in descending order
-      },
-      take: 10, // Limit the request to 10 records
-    });
+    const [records, converter] = await Promise.all([
+      db.record.findMany({
+        where: { userId },
+        orderBy: {
+          date: 'desc', // Sort by the `date` field in descending order
+        },
+        take: 10, // Limit the request to 10 records
+        include: {
+          ...recordTagsInclude,
+          ...recordSplitsInclude,
+          ...recordAttachmentInclude,
+        },
+      }),
+      getCurrencyConverter(userId),
+    ]);
 
-    return { records };
+    return {
+      records: records.map(({ upload, ...record }) => ({
+        ...record,
+        attachment: toRecordAttachment(upload),
+        tags: record.tags.map((tag) => tag.name),
+        baseAmount: converter.toBase(record.amount, record.currency, record.date),
+      })),
+      baseCurrency: converter.baseCurrency,
+    };
   } catch (error) {
     console.error('Error fetching records:', error); // Log the error
     return { error: 'Database error' };
@@ -0,0 +1,75 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { getOccurrenceDates } from '@/lib/recurring';
+import { RecurringExpense } from '@/types/RecurringExpense';
+
+const UPCOMING_LIMIT = 5; // Occurrences shown per recurring expense
+
+async function getRecurringExpenses(): Promise<{
+  recurringExpenses?: RecurringExpense[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const expenses = await db.recurringExpense.findMany({
+      where: { userId },
+      include: {
+        occurrences: {
+          where: { status: 'skipped' },
+          select: { date: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Upcoming means from the start of today (UTC) onwards
+    const now = new Date();
+    const today = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    const horizon = new Date(today);
+    horizon.setUTCFullYear(horizon.getUTCFullYear() + 2);
+
+    const recurringExpenses = expenses.map(({ occurrences, ...expense }) => {
+      const skipped = new Set(
+        occurrences.map((occurrence) => occurrence.date.getTime())
+      );
+      const upcoming = getOccurrenceDates(
+        expense,
+        today,
+        horizon,
+        UPCOMING_LIMIT
+      ).map((date) => ({
+        date: date.toISOString(),
+        skipped: skipped.has(date.getTime()),
+      }));
+
+      return {
+        id: expense.id,
+        text: expense.text,
+        amount: expense.amount,
+        currency: expense.currency,
+        category: expense.category,
+        frequency: expense.frequency,
+        intervalDays: expense.intervalDays,
+        startDate: expense.startDate,
+        endDate: expense.endDate,
+        paused: expense.pausedAt !== null,
+        upcoming,
+      };
+    });
+
+    return { recurringExpenses };
+  } catch (error) {
+    console.error('Error fetching recurring expenses:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getRecurringExpenses;
@@ -0,0 +1,30 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+
+// The user's tags that are still on at least one expense, most used first
+async function getTags(): Promise<{
+  tags?: string[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const tags = await db.tag.findMany({
+      where: { userId, records: { some: {} } },
+      orderBy: [{ records: { _count: 'desc' } }, { name: 'asc' }],
+      select: { name: true },
+    });
+
+    return { tags: tags.map((tag) => tag.name) };
+  } catch (error) {
+    console.error('Error fetching tags:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getTags;
@@ -0,0 +1,95 @@
+'use server';
+import { db } from '@/lib/db';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
+import { summarizeTaxes } from '@/lib/taxSummary';
+import { TaxPeriod, TaxSummaryRow } from '@/types/TaxSummary';
+
+const TAX_PERIODS: TaxPeriod[] = ['month', 'quarter', 'year'];
+
+// Subtotal, tax, tip and discount totals for a calendar year, from the
+// expenses that have a receipt breakdown
+async function getTaxSummary(
+  year: number,
+  period: TaxPeriod = 'month'
+): Promise<{
+  rows?: TaxSummaryRow[];
+  currency?: string;
+  missingRates?: string[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  if (!Number.isInteger(year) || !TAX_PERIODS.includes(period)) {
+    return { error: 'Invalid report period' };
+  }
+
+  try {
+    const [records, converter] = await Promise.all([
+      db.record.findMany({
+        where: {
+          userId,
+          date: {
+            gte: new Date(Date.UTC(year, 0, 1)),
+            lt: new Date(Date.UTC(year + 1, 0, 1)),
+          },
+          OR: [
+            { subtotal: { not: null } },
+            { taxAmount: { not: null } },
+            { tip: { not: null } },
+            { discount: { not: null } },
+          ],
+        },
+        select: {
+          date: true,
+          amount: true,
+          currency: true,
+          subtotal: true,
+          taxAmount: true,
+          taxRate: true,
+          tip: true,
+          discount: true,
+        },
+      }),
+      getCurrencyConverter(userId),
+    ]);
+
+    // Convert every part of the breakdown at the expense's own date
+    const toBase = (value: number | null, currency: string, date: Date) =>
+      value === null ? null : converter.toBase(value, currency, date);
+
+    // Expenses without an exchange rate are left out of the totals
+    const converted = records.flatMap((record) => {
+      const amount = converter.toBase(record.amount, record.currency, record.date);
+      return amount === null ? [] : [{ record, amount }];
+    });
+
+    const rows = summarizeTaxes(
+      converted.map(({ record, amount }) => ({
+        date: record.date,
+        amount,
+        subtotal: toBase(record.subtotal, record.currency, record.date),
+        taxAmount: toBase(record.taxAmount, record.currency, record.date),
+        taxRate: record.taxRate,
+        tip: toBase(record.tip, record.currency, record.date),
+        discount: toBase(record.discount, record.currency, record.date),
+      })),
+      period
+    );
+
+    return {
+      rows,
+      currency: converter.baseCurrency,
+      missingRates: Array.from(converter.missingRates),
+    };
+  } catch (error) {
+    console.error('Error fetching tax summary:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default getTaxSummary;
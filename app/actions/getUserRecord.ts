@@ -1,10 +1,13 @@
 'use server';
 import { db } from '@/lib/db';
 import { auth } from '@clerk/nextjs/server';
+import { getCurrencyConverter } from '@/lib/exchangeRates';
 
 async function getUserRecord(): Promise<{
   record?: number;
   daysWithRecords?: number;
+  currency?: string;
+  missingRates?: string[];
   error?: string;
 }> {
   const { userId } = await auth();
@@ -14,18 +17,32 @@ async function getUserRecord(): Promise<{
   }
 
   try {
-    const records = await db.record.findMany({
-      where: { userId },
-    });
+    const [records, converter] = await Promise.all([
+      db.record.findMany({
+        where: { userId },
+      }),
+      getCurrencyConverter(userId),
+    ]);
 
-    const record = records.reduce((sum, record) => sum + record.amount, 0);
+    // Sum every expense in the user's base currency, leaving out those
+    // without an exchange rate
+    const record = records.reduce(
+      (sum, record) =>
+        sum + (converter.toBase(record.amount, record.currency, record.date) ?? 0),
+      0
+    );
 
     // Count the number of days with valid sleep records
     const daysWithRecords = records.filter(
       (record) => record.amount > 0
     ).length;
 
-    return { record, daysWithRecords };
+    return {
+      record,
+      daysWithRecords,
+      currency: converter.baseCurrency,
+      missingRates: Array.from(converter.missingRates),
+    };
   } catch (error) {
     console.error('Error fetching user record:', error); // Log the error
     return { error: 'Database error' };
@@ -0,0 +1,86 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { getDescendantNames } from '@/lib/categories';
+import { getUserCategories } from '@/lib/userCategories';
+
+// Move everything in the source category into the target and delete the source
+async function mergeCategories(
+  sourceId: string,
+  targetId: string
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  if (sourceId === targetId) {
+    return { error: 'Choose a different category to merge into' };
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const [source, target] = await Promise.all([
+      db.category.findFirst({ where: { id: sourceId, userId } }),
+      db.category.findFirst({ where: { id: targetId, userId } }),
+    ]);
+
+    if (!source || !target) {
+      return { error: 'Category not found' };
+    }
+
+    const categories = await getUserCategories(userId);
+    if (getDescendantNames(source.name, categories).includes(target.name)) {
+      return { error: 'A category cannot be merged into its own subcategory' };
+    }
+
+    // Budgets are unique per category: keep the target's if it has one
+    const targetBudget = await db.budget.findFirst({
+      where: { userId, category: target.name },
+    });
+
+    await db.$transaction([
+      db.record.updateMany({
+        where: { userId, category: source.name },
+        data: { category: target.name },
+      }),
+      db.recordSplit.updateMany({
+        where: { record: { userId }, category: source.name },
+        data: { category: target.name },
+      }),
+      db.recurringExpense.updateMany({
+        where: { userId, category: source.name },
+        data: { category: target.name },
+      }),
+      db.upload.updateMany({
+        where: { userId, suggestedCategory: source.name },
+        data: { suggestedCategory: target.name },
+      }),
+      targetBudget
+        ? db.budget.deleteMany({ where: { userId, category: source.name } })
+        : db.budget.updateMany({
+            where: { userId, category: source.name },
+            data: { category: target.name },
+          }),
+      // Subcategories of the source move under the target
+      db.category.updateMany({
+        where: { userId, parentId: sourceId },
+        data: { parentId: targetId },
+      }),
+      db.category.delete({ where: { id: sourceId } }),
+    ]);
+
+    revalidatePath('/');
+
+    return { message: `Merged ${source.name} into ${target.name}` };
+  } catch (error) {
+    console.error('Error merging categories:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default mergeCategories;
@@ -0,0 +1,201 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { categorizeExpenses } from '@/lib/ai';
+import { isSupportedCurrency } from '@/lib/currency';
+import { getFallbackCategory, matchCategoryName } from '@/lib/categories';
+import { getAssignableCategoryNames } from '@/lib/userCategories';
+import {
+  IMPORT_DECIMAL_SEPARATORS,
+  MAX_IMPORT_ROWS,
+  inferDecimalSeparator,
+  isSimilarDescription,
+  parseImportAmount,
+  parseImportDate,
+} from '@/lib/importRecords';
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportPreviewRow,
+  RawImportRow,
+} from '@/types/Import';
+
+interface PreviewOptions {
+  dateFormat: ImportDateFormat;
+  decimalSeparator: ImportDecimalSeparator;
+  currency: string;
+  autoCategorize: boolean;
+}
+
+const DAY_KEY_LENGTH = 10; // YYYY-MM-DD prefix of an ISO string
+
+async function previewImport(
+  rows: RawImportRow[],
+  options: PreviewOptions
+): Promise<{
+  rows?: ImportPreviewRow[];
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  if (rows.length === 0) {
+    return { error: 'The file has no rows to import' };
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  if (!isSupportedCurrency(options.currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  if (
+    !IMPORT_DECIMAL_SEPARATORS.some(
+      (separator) => separator.value === options.decimalSeparator
+    )
+  ) {
+    return { error: 'Unsupported decimal separator' };
+  }
+
+  try {
+    const categories = await getAssignableCategoryNames(userId);
+
+    const decimalSeparator =
+      options.decimalSeparator === 'auto'
+        ? inferDecimalSeparator(rows.map((row) => row.amount))
+        : options.decimalSeparator;
+    const amounts = rows.map((row) =>
+      parseImportAmount(row.amount, decimalSeparator)
+    );
+    // Spending is whichever sign most rows have: negative in most bank
+    // exports, positive in spreadsheets. Rows with the other sign are
+    // refunds or credits
+    const negatives = amounts.filter((amount) => amount !== null && amount < 0);
+    const positives = amounts.filter((amount) => amount !== null && amount > 0);
+    const expenseSign = negatives.length > positives.length ? -1 : 1;
+
+    // Descriptions are often repeated (same merchant), so the AI is asked
+    // once for each, in a few batched requests
+    const aiCategories = new Map<string, string>();
+    if (options.autoCategorize) {
+      const uncategorized = Array.from(
+        new Set(
+          rows
+            .filter(
+              (row) =>
+                row.text.trim() && !matchCategoryName(row.category, categories)
+            )
+            .map((row) => row.text.trim().toLowerCase())
+        )
+      );
+      const suggested = await categorizeExpenses(uncategorized, categories);
+      uncategorized.forEach((key, index) =>
+        aiCategories.set(key, suggested[index])
+      );
+    }
+
+    const parsed: ImportPreviewRow[] = [];
+    for (const [index, row] of rows.entries()) {
+      const text = row.text.trim();
+      const amount = amounts[index];
+      const date = parseImportDate(row.date, options.dateFormat);
+
+      let category = matchCategoryName(row.category, categories);
+      let categorySource: ImportPreviewRow['categorySource'] = 'file';
+      if (!category && options.autoCategorize && text) {
+        category = aiCategories.get(text.toLowerCase())!;
+        categorySource = 'ai';
+      } else if (!category) {
+        category = getFallbackCategory(categories);
+        categorySource = 'default';
+      }
+
+      let error: string | undefined;
+      if (!text) {
+        error = 'Missing description';
+      } else if (amount === null || amount === 0) {
+        error = 'Invalid amount';
+      } else if (Math.sign(amount) !== expenseSign) {
+        error = 'Refund or credit, not an expense';
+      } else if (!date) {
+        error = 'Invalid date';
+      }
+
+      parsed.push({
+        line: index + 2, // Account for the header row
+        text,
+        amount: amount === null ? 0 : Math.abs(amount),
+        currency: options.currency,
+        category,
+        categorySource,
+        date: date ? date.toISOString() : '',
+        error,
+      });
+    }
+
+    // Look for existing records on the same day with the same amount
+    const dates = parsed.filter((row) => !row.error).map((row) => row.date);
+    const existing =
+      dates.length > 0
+        ? await db.record.findMany({
+            where: {
+              userId,
+              currency: options.currency,
+              date: {
+                gte: new Date(dates.reduce((a, b) => (a < b ? a : b))),
+                lte: new Date(dates.reduce((a, b) => (a > b ? a : b))),
+              },
+            },
+            select: { text: true, amount: true, date: true },
+          })
+        : [];
+
+    const candidates: {
+      source: 'existing' | 'file';
+      text: string;
+      amount: number;
+      date: string;
+    }[] = existing.map((record) => ({
+      source: 'existing',
+      text: record.text,
+      amount: record.amount,
+      date: record.date.toISOString(),
+    }));
+
+    parsed.forEach((row) => {
+      if (row.error) return;
+
+      const match = candidates.find(
+        (candidate) =>
+          candidate.date.slice(0, DAY_KEY_LENGTH) ===
+            row.date.slice(0, DAY_KEY_LENGTH) &&
+          Math.abs(candidate.amount - row.amount) < 0.005 &&
+          isSimilarDescription(candidate.text, row.text)
+      );
+
+      if (match) {
+        row.duplicate = { source: match.source, text: match.text, date: match.date };
+      }
+
+      // Later rows of the file are also checked against this one
+      candidates.push({
+        source: 'file',
+        text: row.text,
+        amount: row.amount,
+        date: row.date,
+      });
+    });
+
+    return { rows: parsed };
+  } catch (error) {
+    console.error('Error previewing import:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default previewImport;
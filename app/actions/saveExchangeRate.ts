@@ -0,0 +1,83 @@
+'use server';
+import { db } from '@/lib/db';
+import { checkUser } from '@/lib/checkUser';
+import { revalidatePath } from 'next/cache';
+import { isSupportedCurrency } from '@/lib/currency';
+
+async function saveExchangeRate(formData: FormData): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const currencyValue = formData.get('currency');
+  const rateValue = formData.get('rate');
+  const dateValue = formData.get('effectiveDate');
+
+  if (!currencyValue || !rateValue || !dateValue) {
+    return { error: 'Currency, rate, or date is missing' };
+  }
+
+  const currency = currencyValue.toString();
+  const rate = parseFloat(rateValue.toString());
+
+  if (currency === 'USD') {
+    return { error: 'Rates are expressed per USD, so USD needs no rate' };
+  }
+
+  if (!isSupportedCurrency(currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  if (isNaN(rate) || rate <= 0) {
+    return { error: 'Rate must be a positive number' };
+  }
+
+  // Store rates at midnight UTC so one rate per currency per day is kept
+  const [year, month, day] = dateValue
+    .toString()
+    .split('-')
+    .map((part) => parseInt(part, 10));
+  const effectiveDate = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    isNaN(effectiveDate.getTime()) ||
+    effectiveDate.getUTCFullYear() !== year ||
+    effectiveDate.getUTCMonth() !== month - 1 ||
+    effectiveDate.getUTCDate() !== day
+  ) {
+    return { error: 'Invalid date format' }; // Also rejects 2025-13-45
+  }
+
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.exchangeRate.upsert({
+      where: {
+        userId_currency_effectiveDate: {
+          userId: user.clerkUserId,
+          currency,
+          effectiveDate,
+        },
+      },
+      update: { rate },
+      create: {
+        userId: user.clerkUserId,
+        currency,
+        rate,
+        effectiveDate,
+      },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Exchange rate saved' };
+  } catch (error) {
+    console.error('Error saving exchange rate:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default saveExchangeRate;
@@ -0,0 +1,44 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { normalizeLineItems } from '@/lib/lineItems';
+import { LineItem } from '@/types/Receipt';
+
+// Replace an upload's extracted line items with the ones the user confirmed
+async function saveUploadLineItems(
+  uploadId: string,
+  lineItems: LineItem[]
+): Promise<{ message?: string; error?: string }> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const upload = await db.upload.findFirst({
+      where: { id: uploadId, userId },
+      select: { id: true },
+    });
+
+    if (!upload) {
+      return { error: 'Upload not found' };
+    }
+
+    const items = normalizeLineItems(lineItems);
+
+    await db.$transaction([
+      db.uploadLineItem.deleteMany({ where: { uploadId } }),
+      db.uploadLineItem.createMany({
+        data: items.map((item, position) => ({ ...item, uploadId, position })),
+      }),
+    ]);
+
+    return { message: 'Line items saved' };
+  } catch (error) {
+    console.error('Error saving line items:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default saveUploadLineItems;
@@ -0,0 +1,47 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+
+async function setCategoryArchived(
+  categoryId: string,
+  archived: boolean
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    if (archived) {
+      const activeCount = await db.category.count({
+        where: { userId, archivedAt: null },
+      });
+      if (activeCount <= 1) {
+        return { error: 'Keep at least one active category' };
+      }
+    }
+
+    // Archiving only hides the category from pickers; existing records keep it
+    await db.category.update({
+      where: {
+        id: categoryId,
+        userId,
+      },
+      data: { archivedAt: archived ? new Date() : null },
+    });
+
+    revalidatePath('/');
+
+    return { message: archived ? 'Category archived' : 'Category restored' };
+  } catch (error) {
+    console.error('Error archiving category:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default setCategoryArchived;
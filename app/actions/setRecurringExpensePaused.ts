@@ -0,0 +1,70 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { getOccurrenceDates } from '@/lib/recurring';
+
+async function setRecurringExpensePaused(
+  recurringExpenseId: string,
+  paused: boolean
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const recurringExpense = await db.recurringExpense.findFirst({
+      where: { id: recurringExpenseId, userId },
+    });
+
+    if (!recurringExpense) {
+      return { error: 'Recurring expense not found' };
+    }
+
+    if (paused) {
+      if (!recurringExpense.pausedAt) {
+        await db.recurringExpense.update({
+          where: { id: recurringExpenseId },
+          data: { pausedAt: new Date() },
+        });
+      }
+    } else if (recurringExpense.pausedAt) {
+      // Occurrences that fell due while paused are skipped, not backfilled
+      const now = new Date();
+      const missed = getOccurrenceDates(
+        recurringExpense,
+        recurringExpense.pausedAt,
+        now
+      );
+
+      await db.$transaction([
+        db.recurringOccurrence.createMany({
+          data: missed.map((date) => ({
+            recurringExpenseId,
+            date,
+            status: 'skipped',
+          })),
+          skipDuplicates: true,
+        }),
+        db.recurringExpense.update({
+          where: { id: recurringExpenseId },
+          data: { pausedAt: null },
+        }),
+      ]);
+    }
+
+    revalidatePath('/recurring');
+
+    return { message: paused ? 'Recurring expense paused' : 'Recurring expense resumed' };
+  } catch (error) {
+    console.error('Error updating recurring expense:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default setRecurringExpensePaused;
@@ -0,0 +1,63 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+
+// Skip a single upcoming occurrence, or restore one that was skipped
+async function skipRecurringOccurrence(
+  recurringExpenseId: string,
+  date: string,
+  skip: boolean
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  const occurrenceDate = new Date(date);
+  if (isNaN(occurrenceDate.getTime())) {
+    return { error: 'Invalid date format' };
+  }
+
+  try {
+    const recurringExpense = await db.recurringExpense.findFirst({
+      where: { id: recurringExpenseId, userId },
+      select: { id: true },
+    });
+
+    if (!recurringExpense) {
+      return { error: 'Recurring expense not found' };
+    }
+
+    const existing = await db.recurringOccurrence.findUnique({
+      where: {
+        recurringExpenseId_date: { recurringExpenseId, date: occurrenceDate },
+      },
+    });
+
+    if (existing?.status === 'generated') {
+      return { error: 'This occurrence has already been recorded' };
+    }
+
+    if (skip && !existing) {
+      await db.recurringOccurrence.create({
+        data: { recurringExpenseId, date: occurrenceDate, status: 'skipped' },
+      });
+    } else if (!skip && existing) {
+      await db.recurringOccurrence.delete({ where: { id: existing.id } });
+    }
+
+    revalidatePath('/recurring');
+
+    return { message: skip ? 'Occurrence skipped' : 'Occurrence restored' };
+  } catch (error) {
+    console.error('Error skipping recurring occurrence:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default skipRecurringOccurrence;
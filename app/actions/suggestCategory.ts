@@ -1,6 +1,9 @@
 'use server';
 
+import { auth } from '@clerk/nextjs/server';
 import { categorizeExpense } from '@/lib/ai';
+import { DEFAULT_CATEGORY_NAMES } from '@/lib/categories';
+import { getAssignableCategoryNames } from '@/lib/userCategories';
 
 export async function suggestCategory(
   description: string
@@ -13,7 +16,13 @@ export async function suggestCategory(
       };
     }
 
-    const category = await categorizeExpense(description.trim());
+    // Suggest from the user's own categories when signed in
+    const { userId } = await auth();
+    const categories = userId
+      ? await getAssignableCategoryNames(userId)
+      : DEFAULT_CATEGORY_NAMES;
+
+    const category = await categorizeExpense(description.trim(), categories);
     return { category };
   } catch (error) {
     console.error('❌ Error in suggestCategory server action:', error);
@@ -0,0 +1,36 @@
+'use server';
+import { db } from '@/lib/db';
+import { checkUser } from '@/lib/checkUser';
+import { revalidatePath } from 'next/cache';
+import { isSupportedCurrency } from '@/lib/currency';
+
+async function updateBaseCurrency(currency: string): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  if (!isSupportedCurrency(currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.user.update({
+      where: { clerkUserId: user.clerkUserId },
+      data: { baseCurrency: currency },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Base currency updated' };
+  } catch (error) {
+    console.error('Error updating base currency:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateBaseCurrency;
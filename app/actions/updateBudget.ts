@@ -0,0 +1,48 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+
+async function updateBudget(
+  budgetId: string,
+  formData: FormData
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const amountValue = formData.get('amount');
+
+  if (!amountValue) {
+    return { error: 'Budget amount is missing' };
+  }
+
+  const amount = parseFloat(amountValue.toString());
+  if (isNaN(amount) || amount <= 0) {
+    return { error: 'Budget amount must be a positive number' };
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.budget.update({
+      where: {
+        id: budgetId,
+        userId,
+      },
+      data: { amount },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Budget updated' };
+  } catch (error) {
+    console.error('Error updating budget:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateBudget;
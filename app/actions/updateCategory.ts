@@ -0,0 +1,111 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { getDescendantNames, parseCategoryFormData } from '@/lib/categories';
+import { getUserCategories } from '@/lib/userCategories';
+
+async function updateCategory(
+  categoryId: string,
+  formData: FormData
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  const { input, error } = parseCategoryFormData(formData);
+  if (!input) {
+    return { error };
+  }
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    const category = await db.category.findFirst({
+      where: { id: categoryId, userId },
+    });
+
+    if (!category) {
+      return { error: 'Category not found' };
+    }
+
+    const newName = input.name && input.name !== category.name ? input.name : null;
+
+    if (newName) {
+      const existing = await db.category.findFirst({
+        where: {
+          userId,
+          name: { equals: newName, mode: 'insensitive' },
+          NOT: { id: categoryId },
+        },
+      });
+
+      if (existing) {
+        return { error: `A category named ${existing.name} already exists. Merge instead.` };
+      }
+    }
+
+    if (input.parentId) {
+      // A category can't move under itself or one of its own subcategories
+      const categories = await getUserCategories(userId);
+      const parent = categories.find((option) => option.id === input.parentId);
+      if (!parent) {
+        return { error: 'Parent category not found' };
+      }
+      if (getDescendantNames(category.name, categories).includes(parent.name)) {
+        return { error: 'A category cannot be nested under its own subcategory' };
+      }
+    }
+
+    // Everything refers to categories by name, so a rename is carried over
+    // to records, split lines, budgets, recurring expenses and the receipts
+    // waiting for review in the same transaction
+    await db.$transaction([
+      db.category.update({
+        where: { id: categoryId },
+        data: {
+          ...(newName ? { name: newName } : {}),
+          ...(input.icon ? { icon: input.icon } : {}),
+          ...(input.color ? { color: input.color } : {}),
+          ...(input.parentId !== undefined ? { parentId: input.parentId } : {}),
+        },
+      }),
+      ...(newName
+        ? [
+            db.record.updateMany({
+              where: { userId, category: category.name },
+              data: { category: newName },
+            }),
+            db.recordSplit.updateMany({
+              where: { record: { userId }, category: category.name },
+              data: { category: newName },
+            }),
+            db.budget.updateMany({
+              where: { userId, category: category.name },
+              data: { category: newName },
+            }),
+            db.recurringExpense.updateMany({
+              where: { userId, category: category.name },
+              data: { category: newName },
+            }),
+            db.upload.updateMany({
+              where: { userId, suggestedCategory: category.name },
+              data: { suggestedCategory: newName },
+            }),
+          ]
+        : []),
+    ]);
+
+    revalidatePath('/');
+
+    return { message: 'Category updated' };
+  } catch (error) {
+    console.error('Error updating category:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateCategory;
@@ -0,0 +1,100 @@
+'use server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { revalidatePath } from 'next/cache';
+import { parseRecordFormData } from '@/lib/recordForm';
+import { connectTags, recordTagsInclude } from '@/lib/tags';
+import { recordSplitsInclude } from '@/lib/splits';
+import { RecordSplit } from '@/types/Record';
+
+interface RecordData {
+  id: string;
+  text: string;
+  amount: number;
+  currency: string;
+  category: string;
+  tags: string[];
+  splits: RecordSplit[];
+  date: string;
+}
+
+interface RecordResult {
+  data?: RecordData;
+  error?: string;
+}
+
+async function updateExpenseRecord(
+  recordId: string,
+  formData: FormData
+): Promise<RecordResult> {
+  // Same validation as addExpenseRecord
+  const { input, error } = parseRecordFormData(formData);
+  if (!input) {
+    return { error };
+  }
+  const { text, amount, category, date, currency, tags, splits, breakdown } =
+    input;
+
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    // Without new split lines, the existing ones must still add up
+    if (!splits) {
+      const { _sum } = await db.recordSplit.aggregate({
+        where: { recordId, record: { userId } },
+        _sum: { amount: true },
+      });
+      if (_sum.amount !== null && Math.abs(_sum.amount - amount) >= 0.005) {
+        return { error: 'Update the split lines to match the new amount' };
+      }
+    }
+
+    // Scoping the update by userId keeps users from editing others' records;
+    // createdAt is left untouched
+    const updatedRecord = await db.record.update({
+      where: {
+        id: recordId,
+        userId,
+      },
+      data: {
+        text,
+        amount,
+        category,
+        date,
+        ...breakdown, // Fields the form didn't send are left unchanged
+        ...(currency ? { currency } : {}), // Keep the stored currency if none was sent
+        // Replace the tags only when the form sent them
+        ...(tags
+          ? { tags: { set: [], connectOrCreate: connectTags(userId, tags) } }
+          : {}),
+        // Likewise the split lines; an empty list removes the split
+        ...(splits ? { splits: { deleteMany: {}, create: splits } } : {}),
+      },
+      include: { ...recordTagsInclude, ...recordSplitsInclude },
+    });
+
+    revalidatePath('/');
+
+    return {
+      data: {
+        id: updatedRecord.id,
+        text: updatedRecord.text,
+        amount: updatedRecord.amount,
+        currency: updatedRecord.currency,
+        category: updatedRecord.category,
+        tags: updatedRecord.tags.map((tag) => tag.name),
+        splits: updatedRecord.splits,
+        date: updatedRecord.date.toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error('Error updating expense record:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateExpenseRecord;
@@ -0,0 +1,54 @@
+'use server';
+import { db } from '@/lib/db';
+import { checkUser } from '@/lib/checkUser';
+import { revalidatePath } from 'next/cache';
+import { MAX_OCR_LANGUAGES } from '@/lib/ocrLanguages';
+import { listLocalOcrLanguages } from '@/lib/ocrWorkerPool';
+
+async function updateOcrLanguages(
+  languages: string[],
+  autoDetect: boolean
+): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  if (languages.length === 0) {
+    return { error: 'Choose at least one language' };
+  }
+
+  if (languages.length > MAX_OCR_LANGUAGES) {
+    return { error: `Choose up to ${MAX_OCR_LANGUAGES} languages` };
+  }
+
+  // Only languages whose data is on the server, so scans never depend on a
+  // download
+  const installed = await listLocalOcrLanguages();
+  if (languages.some((code) => !installed.includes(code))) {
+    return { error: 'OCR language not installed' };
+  }
+
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.user.update({
+      where: { clerkUserId: user.clerkUserId },
+      data: {
+        ocrLanguages: Array.from(new Set(languages)).join('+'),
+        ocrAutoDetect: autoDetect,
+      },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'OCR languages updated' };
+  } catch (error) {
+    console.error('Error updating OCR languages:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateOcrLanguages;
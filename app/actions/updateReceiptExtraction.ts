@@ -0,0 +1,36 @@
+'use server';
+import { db } from '@/lib/db';
+import { checkUser } from '@/lib/checkUser';
+import { revalidatePath } from 'next/cache';
+import { isReceiptExtractionMode } from '@/lib/heuristicExtraction';
+
+async function updateReceiptExtraction(mode: string): Promise<{
+  message?: string;
+  error?: string;
+}> {
+  if (!isReceiptExtractionMode(mode)) {
+    return { error: 'Unsupported extraction mode' };
+  }
+
+  const user = await checkUser();
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  try {
+    await db.user.update({
+      where: { clerkUserId: user.clerkUserId },
+      data: { receiptExtraction: mode },
+    });
+
+    revalidatePath('/');
+
+    return { message: 'Receipt scanning updated' };
+  } catch (error) {
+    console.error('Error updating receipt extraction mode:', error); // Log the error
+    return { error: 'Database error' };
+  }
+}
+
+export default updateReceiptExtraction;
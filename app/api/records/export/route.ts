@@ -0,0 +1,87 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { buildRecordQuery, parseFilterParams } from '@/lib/recordFilters';
+import { toCsvRow } from '@/lib/csv';
+import { getUserCategories } from '@/lib/userCategories';
+
+const BATCH_SIZE = 500;
+
+// Streams the user's records as CSV. Accepts the same filters as
+// getFilteredRecords (as query params) but without its row limit.
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { where, orderBy } = buildRecordQuery(
+    userId,
+    parseFilterParams(request.nextUrl.searchParams),
+    await getUserCategories(userId)
+  );
+  const encoder = new TextEncoder();
+  let cursor: string | undefined;
+  let headerSent = false;
+
+  // Pull records in batches as the client reads, so large histories
+  // aren't loaded into memory at once
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!headerSent) {
+          headerSent = true;
+          controller.enqueue(
+            encoder.encode(
+              toCsvRow(['Date', 'Description', 'Category', 'Amount', 'Currency'])
+            )
+          );
+          return;
+        }
+
+        const records = await db.record.findMany({
+          where,
+          orderBy,
+          take: BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+
+        if (records.length > 0) {
+          controller.enqueue(
+            encoder.encode(
+              records
+                .map((record) =>
+                  toCsvRow([
+                    record.date.toISOString().split('T')[0],
+                    record.text,
+                    record.category,
+                    record.amount,
+                    record.currency,
+                  ])
+                )
+                .join('')
+            )
+          );
+          cursor = records[records.length - 1].id;
+        }
+
+        if (records.length < BATCH_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error('❌ Error exporting records:', error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const filename = `expenses-${new Date().toISOString().split('T')[0]}.csv`;
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { generateDueRecords } from '@/lib/recurring';
+
+const isCronRequest = (request: NextRequest) => {
+  const cronSecret = process.env.CRON_SECRET;
+  return (
+    !!cronSecret &&
+    request.headers.get('authorization') === `Bearer ${cronSecret}`
+  );
+};
+
+// Generates due recurring expenses. A scheduler calling with
+// `Authorization: Bearer $CRON_SECRET` processes every user; a signed-in
+// user only processes their own.
+async function handler(request: NextRequest) {
+  try {
+    const isCron = isCronRequest(request);
+
+    let userId: string | undefined;
+    if (!isCron) {
+      const session = await auth();
+      if (!session.userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      userId = session.userId;
+    }
+
+    const { generated } = await generateDueRecords(userId);
+
+    if (generated > 0) {
+      revalidatePath('/');
+    }
+
+    return NextResponse.json({ success: true, generated });
+  } catch (error) {
+    console.error('❌ Error generating recurring expenses:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate recurring expenses' },
+      { status: 500 }
+    );
+  }
+}
+
+export { handler as POST };
+
+// Schedulers such as Vercel Cron call with GET. Only they may: a GET from a
+// browser (prefetches, link previews) must not create records
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  return handler(request);
+}
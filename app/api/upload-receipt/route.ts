@@ -2,10 +2,46 @@ import { auth } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { suggestCategory } from '@/app/actions/suggestCategory';
-import pdf from 'pdf-parse';
-import { extractTextFromImage } from '@/lib/ocr';
-import { preprocessImageForOCR } from '@/lib/imagePreprocessing';
-import { ExtractedData } from '@/lib/heuristicExtraction';
+import { extractTextFromReceiptImage, OcrOptions } from '@/lib/ocr';
+import { parseOcrLanguages } from '@/lib/ocrLanguages';
+import { OcrBusyError } from '@/lib/ocrWorkerPool';
+import { extractPdfText } from '@/lib/pdf';
+import {
+  MAX_RECEIPTS_PER_FILE,
+  ReceiptSegment,
+  splitIntoReceipts,
+} from '@/lib/receiptSplitting';
+import { layoutAwareExtraction } from '@/lib/receiptLayout';
+import { extractDate } from '@/lib/receiptDates';
+import {
+  CURRENCY_TOKEN_PATTERN,
+  getCurrencyInfo,
+  resolveCurrencyToken,
+} from '@/lib/currency';
+import { toRecordAttachment } from '@/lib/attachments';
+import { createOcrPreview, createThumbnail } from '@/lib/imagePreprocessing';
+import {
+  createReceiptKey,
+  getOcrImageKey,
+  getReceiptStorage,
+  getThumbnailKey,
+} from '@/lib/receiptStorage';
+import {
+  ExtractedData,
+  ExtractionContext,
+  ReceiptCandidate,
+  extractAmount,
+  extractAmountBreakdown,
+  heuristicExtraction,
+  normalizeAmount,
+  normalizeAmountBreakdown,
+  summarizeExtraction,
+} from '@/lib/heuristicExtraction';
+import { extractLineItems, normalizeLineItems } from '@/lib/lineItems';
+import { scoreAiFields, toConfidenceColumns } from '@/lib/fieldConfidence';
+import { getFallbackCategory } from '@/lib/categories';
+import { getAssignableCategoryNames } from '@/lib/userCategories';
+import { ExtractionMethod } from '@/types/Receipt';
 import OpenAI from 'openai';
 
 const openai = new OpenAI({
@@ -45,66 +81,181 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Extract text from file
-    let extractedText = '';
+    const user = await db.user.findUnique({
+      where: { clerkUserId: userId },
+      select: {
+        receiptExtraction: true,
+        ocrLanguages: true,
+        ocrAutoDetect: true,
+        baseCurrency: true,
+      },
+    });
+    const heuristicsOnly = user?.receiptExtraction === 'heuristic';
+    const ocrOptions: OcrOptions = {
+      languages: parseOcrLanguages(user?.ocrLanguages),
+      autoDetect: user?.ocrAutoDetect || false,
+    };
+    // Dates like 03/04/2025 are read in the browser's language, or the
+    // locale of the user's base currency. Amounts marked only with "$" are
+    // in the base currency when it's written that way
+    const context: ExtractionContext = {
+      locale:
+        request.headers.get('accept-language')?.split(/[,;]/)[0].trim() ||
+        getCurrencyInfo(user?.baseCurrency || '')?.locale,
+      baseCurrency: user?.baseCurrency,
+    };
+
+    // Extract text from file. A PDF may hold several receipts, or one
+    // receipt over several pages, so its pages are split into receipts
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let segments: ReceiptSegment[] = [];
     let ocrConfidence = 0;
+    let ocrImage: Buffer | null = null; // The image the word boxes refer to
     
     if (isPDF) {
-      const buffer = Buffer.from(await file.arrayBuffer());
-      const data = await pdf(buffer);
-      extractedText = data.text;
-      ocrConfidence = 0.95; // PDFs have high confidence
+      // Scanned pages are read with OCR inside extractPdfText
+      const pdfText = await extractPdfText(buffer, ocrOptions);
+      segments = splitIntoReceipts(pdfText.pages);
+      ocrConfidence = pdfText.confidence;
     } else if (isImage) {
-      const buffer = Buffer.from(await file.arrayBuffer());
-      
-      // Preprocess image for better OCR
-      const preprocessedBuffer = await preprocessImageForOCR(buffer);
-      
-      // Extract text with OCR
-      const ocrResult = await extractTextFromImage(preprocessedBuffer);
-      extractedText = ocrResult.text;
+      // Crop, level and clean up the photo, keeping the best OCR result
+      const ocrResult = await extractTextFromReceiptImage(buffer, ocrOptions);
+      segments = [
+        { text: ocrResult.text, pageNumber: 1, words: ocrResult.words },
+      ];
       ocrConfidence = ocrResult.confidence / 100; // Convert to 0-1 scale
+      ocrImage = ocrResult.image;
     }
 
-    if (!extractedText.trim()) {
+    segments = segments.filter((segment) => segment.text.trim());
+    if (segments.length === 0) {
       return NextResponse.json(
         { error: 'Could not extract text from file' },
         { status: 400 }
       );
     }
+    if (segments.length > MAX_RECEIPTS_PER_FILE) {
+      return NextResponse.json(
+        {
+          error: `Found ${segments.length} receipts in this file. Upload at most ${MAX_RECEIPTS_PER_FILE} per file`,
+        },
+        { status: 400 }
+      );
+    }
 
-    // Use AI model as primary extraction method
-    console.log('Using AI model for invoice scanning');
-    const parsedData = await parseTextWithAI(extractedText);
-
-    // Get category suggestion
-    const { category } = await suggestCategory(parsedData.description || 'Expense');
-
-    // Calculate overall confidence from AI result
-    const overallConfidence = parsedData.confidence ? 
-      (parsedData.confidence.amount + parsedData.confidence.date + parsedData.confidence.provider + parsedData.confidence.description) / 4 : 0.8;
-
-    // Save upload record for debugging
-    const uploadRecord = await db.upload.create({
-      data: {
-        userId,
-        fileName: file.name,
-        ocrText: extractedText,
-        parsed: JSON.parse(JSON.stringify(parsedData)),
-        confidence: overallConfidence,
-      },
-    });
+    // Keep the original file (and a thumbnail of images) for audits
+    const storage = getReceiptStorage();
+    const storageKey = createReceiptKey(userId, file.name);
+    await storage.put(storageKey, buffer, fileType);
+    let thumbnailKey: string | null = null;
+    if (isImage) {
+      try {
+        thumbnailKey = getThumbnailKey(storageKey);
+        await storage.put(thumbnailKey, await createThumbnail(buffer), 'image/webp');
+      } catch (error) {
+        console.error('❌ Error creating receipt thumbnail:', error);
+        thumbnailKey = null;
+      }
+    }
+    // The image OCR read, so the confirmation modal can mark where each
+    // field was found
+    let ocrImageKey: string | null = null;
+    if (ocrImage) {
+      try {
+        ocrImageKey = getOcrImageKey(storageKey);
+        await storage.put(ocrImageKey, await createOcrPreview(ocrImage), 'image/webp');
+      } catch (error) {
+        console.error('❌ Error saving OCR image:', error);
+        ocrImageKey = null;
+      }
+    }
+
+    // One upload per receipt, all pointing at the same stored file. They
+    // wait in the review queue until confirmed or discarded
+    const storedKeys = [storageKey, thumbnailKey, ocrImageKey].filter(
+      (key): key is string => !!key
+    );
+    const receipts: ReceiptCandidate[] = [];
+    try {
+      const extractions: ({ segment: ReceiptSegment } & Awaited<
+        ReturnType<typeof extractReceipt>
+      >)[] = [];
+      for (const segment of segments) {
+        extractions.push({
+          segment,
+          ...(await extractReceipt(segment, userId, heuristicsOnly, context)),
+        });
+      }
+
+      // Save upload records for debugging, with the line items the
+      // confirmation modal will let the user correct. All or none, so a
+      // failure leaves no receipt pointing at a deleted file
+      const uploadRecords = await db.$transaction(
+        extractions.map(({ segment, parsedData, ...extraction }) =>
+          db.upload.create({
+            data: {
+              userId,
+              fileName: file.name,
+              pageNumber: isPDF ? segment.pageNumber : null,
+              storageKey,
+              thumbnailKey,
+              ocrImageKey,
+              ocrWords: ocrImageKey && segment.words ? segment.words : undefined,
+              contentType: fileType,
+              fileSize: file.size,
+              suggestedCategory: extraction.category,
+              ocrText: segment.text,
+              parsed: JSON.parse(JSON.stringify(parsedData)),
+              confidence: extraction.overallConfidence,
+              ...toConfidenceColumns(parsedData.confidence),
+              extractionMethod: extraction.extractionMethod,
+              lineItems: {
+                create: parsedData.lineItems.map((item, position) => ({
+                  ...item,
+                  position,
+                })),
+              },
+            },
+          })
+        )
+      );
+
+      uploadRecords.forEach((uploadRecord, index) => {
+        const { parsedData, overallConfidence, extractionMethod, category } =
+          extractions[index];
+        receipts.push({
+          uploadId: uploadRecord.id,
+          fileName: file.name,
+          pageNumber: uploadRecord.pageNumber,
+          extracted: parsedData,
+          category,
+          confidence: overallConfidence,
+          extractionMethod,
+          attachment: toRecordAttachment(uploadRecord),
+        });
+      });
+    } catch (error) {
+      // Without an upload row nothing points at the stored files
+      await Promise.all(
+        storedKeys.map((key) =>
+          storage.delete(key).catch((deleteError) => {
+            console.error('❌ Error deleting orphaned receipt file:', deleteError);
+          })
+        )
+      );
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
-      uploadId: uploadRecord.id,
-      extracted: parsedData,
-      category,
+      receipts,
       ocrConfidence,
-      aiConfidence: overallConfidence,
     });
 
   } catch (error) {
+    if (error instanceof OcrBusyError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error('❌ Error processing receipt upload:', error);
     return NextResponse.json(
       { error: 'Failed to process receipt' },
@@ -113,20 +264,68 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function validateAndFixFields(result: ExtractedData): ExtractedData {
+// Read one receipt's text offline first and only ask the AI model when the
+// heuristics aren't confident, unless the user has turned it off. Word
+// positions from OCR, when there are any, let the layout pick the fields
+async function extractReceipt(
+  { text, words }: ReceiptSegment,
+  userId: string,
+  heuristicsOnly: boolean,
+  context: ExtractionContext
+): Promise<{
+  parsedData: ExtractedData;
+  overallConfidence: number;
+  extractionMethod: ExtractionMethod;
+  category: string;
+}> {
+  const heuristicResult = words?.length
+    ? layoutAwareExtraction(text, words, context)
+    : heuristicExtraction(text, context);
+  let parsedData = heuristicResult.data;
+  let overallConfidence = heuristicResult.overallConfidence;
+  let extractionMethod: ExtractionMethod = 'heuristic';
+
+  if (heuristicResult.shouldUseLLM && !heuristicsOnly) {
+    console.log('Heuristic confidence too low, using AI model');
+    const aiData = await parseTextWithAI(
+      text,
+      heuristicResult.data,
+      context
+    );
+    if (aiData) {
+      parsedData = aiData;
+      // Weighted the same way as the heuristic result
+      overallConfidence = summarizeExtraction(aiData).overallConfidence;
+      extractionMethod = 'llm';
+    } else {
+      // Keep the heuristic result rather than failing the upload
+      extractionMethod = 'heuristic_fallback';
+    }
+  }
+
+  // Get category suggestion; without the AI model, start from the
+  // user's fallback category
+  const category = heuristicsOnly
+    ? getFallbackCategory(await getAssignableCategoryNames(userId))
+    : (await suggestCategory(parsedData.description || 'Expense')).category;
+
+  return { parsedData, overallConfidence, extractionMethod, category };
+}
+
+function validateAndFixFields(
+  result: ExtractedData,
+  context: ExtractionContext
+): ExtractedData {
   // If everything is in description, try to extract other fields
   if (result.description && result.description.length > 50 && !result.provider && !result.amount) {
     console.log('🔧 Detected all data in description, attempting to fix...');
     
     // Try to extract amount from description
-    const amountMatch = result.description.match(/(\d+[.,]?\d*)/g);
-    if (amountMatch) {
-      const amounts = amountMatch.map(match => parseFloat(match.replace(',', '.')));
-      const maxAmount = Math.max(...amounts);
-      if (maxAmount > 0) {
-        result.amount = maxAmount;
-        console.log('🔧 Extracted amount from description:', maxAmount);
-      }
+    const amountResult = extractAmount(result.description, context);
+    if (amountResult.amount) {
+      result.amount = amountResult.amount;
+      result.currency = result.currency || amountResult.currency;
+      console.log('🔧 Extracted amount from description:', amountResult.amount);
     }
     
     // Try to extract provider from description
@@ -137,38 +336,11 @@ function validateAndFixFields(result: ExtractedData): ExtractedData {
     }
     
     // Try to extract date from description
-    const dateMatch = result.description.match(/(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/);
-    if (dateMatch) {
-      const dateStr = dateMatch[1];
-      const parts = dateStr.split(/[\/\-]/);
-      if (parts.length === 3) {
-        let day, month, year;
-        if (parts[2].length === 4) {
-          // DD/MM/YYYY or MM/DD/YYYY
-          if (parseInt(parts[0]) > 12) {
-            day = parts[0];
-            month = parts[1];
-            year = parts[2];
-          } else {
-            month = parts[0];
-            day = parts[1];
-            year = parts[2];
-          }
-        } else {
-          // DD/MM/YY or MM/DD/YY
-          if (parseInt(parts[0]) > 12) {
-            day = parts[0];
-            month = parts[1];
-            year = '20' + parts[2];
-          } else {
-            month = parts[0];
-            day = parts[1];
-            year = '20' + parts[2];
-          }
-        }
-        result.date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        console.log('🔧 Extracted date from description:', result.date);
-      }
+    const dateResult = extractDate(result.description, context);
+    if (dateResult.date) {
+      result.date = dateResult.date;
+      result.dateExplanation = dateResult.explanation;
+      console.log('🔧 Extracted date from description:', result.date);
     }
     
     // Clean up description
@@ -180,7 +352,13 @@ function validateAndFixFields(result: ExtractedData): ExtractedData {
   // Ensure description is not too long and doesn't contain other fields
   if (result.description) {
     // Remove amounts from description
-    result.description = result.description.replace(/\$?\d+[.,]?\d*\s*(USD|EUR|Bs|€|£|¥)?/g, '');
+    result.description = result.description.replace(
+      new RegExp(
+        `(^|[^A-Za-zÀ-ÿ])(?:${CURRENCY_TOKEN_PATTERN})?\\s*\\d+(?:[.,]\\d+)*\\s*(?:(?:${CURRENCY_TOKEN_PATTERN})(?![A-Za-zÀ-ÿ]))?`,
+        'gi'
+      ),
+      '$1'
+    );
     // Remove dates from description
     result.description = result.description.replace(/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/g, '');
     // Remove provider names from description
@@ -199,7 +377,14 @@ function validateAndFixFields(result: ExtractedData): ExtractedData {
   return result;
 }
 
-async function parseTextWithAI(text: string): Promise<ExtractedData> {
+// Returns null when the AI model can't be reached or its answer can't be
+// parsed, so the caller can keep the heuristic result. Each field's
+// confidence is checked against the text and the heuristic result
+async function parseTextWithAI(
+  text: string,
+  heuristic: ExtractedData,
+  context: ExtractionContext
+): Promise<ExtractedData | null> {
   try {
     const prompt = `Eres un experto en análisis de facturas y recibos. Tu tarea es extraer información específica y separar cada campo correctamente.
 
@@ -240,6 +425,24 @@ ANÁLISIS POR CAMPO:
 - Busca: $, €, £, ¥, ₹, Bs, USD, EUR, etc.
 - Si no encuentras, currency: "USD"
 
+🧮 BREAKDOWN (Desglose) - partes del total, SOLO números o null:
+- subtotal: "Subtotal", "Sub-total" antes de impuestos y propina
+- taxAmount: monto de "IVA", "VAT", "Impuesto", "Tax"
+- taxRate: porcentaje del impuesto, ej. "IVA 13%" → 13
+- tip: "Propina", "Tip"
+- discount: "Descuento", "Discount", como número positivo
+- Si un campo no aparece en el recibo, usa null
+
+🧾 LINE ITEMS (Artículos) - cada producto comprado:
+- Una entrada por línea de producto: name, quantity, unitPrice, total
+- quantity es 1 si no aparece; unitPrice es null si solo aparece el total de la línea
+- NO incluyas subtotal, total, impuestos, propinas, descuentos ni pagos
+- Si no hay artículos, lineItems: []
+
+🎯 CONFIDENCE (Confianza) - de 0 a 1 para amount, date, provider y description:
+- 1 si el valor aparece claramente en el texto, bajo si lo dedujiste o el texto está dañado
+- 0 si el campo es null
+
 EJEMPLO CORRECTO:
 Si el texto dice: "Supermercado ABC - Total: $150.00 - Fecha: 15/01/2025 - Compra de alimentos"
 Respuesta correcta:
@@ -248,7 +451,12 @@ Respuesta correcta:
   "amount": 150.00,
   "description": "Compra de alimentos", 
   "date": "2025-01-15",
-  "currency": "USD"
+  "currency": "USD",
+  "breakdown": { "subtotal": 132.74, "taxAmount": 17.26, "taxRate": 13, "tip": null, "discount": null },
+  "lineItems": [
+    { "name": "Leche", "quantity": 2, "unitPrice": 1.50, "total": 3.00 }
+  ],
+  "confidence": { "amount": 0.95, "date": 0.9, "provider": 0.85, "description": 0.6 }
 }
 
 TEXTO OCR A ANALIZAR:
@@ -270,7 +478,7 @@ Devuelve SOLO el JSON válido:`;
         },
       ],
       temperature: 0.2,
-      max_tokens: 1000,
+      max_tokens: 2000, // Room for long lists of line items
     });
 
     const response = completion.choices[0].message.content;
@@ -303,42 +511,44 @@ Devuelve SOLO el JSON válido:`;
     // Parse AI response
     const parsed = JSON.parse(cleanedResponse);
     
+    // The model may answer with a symbol, and with the amount as printed
+    const currency =
+      typeof parsed.currency === 'string'
+        ? resolveCurrencyToken(parsed.currency, text, context.baseCurrency)
+        : null;
+    const amount =
+      typeof parsed.amount === 'string'
+        ? normalizeAmount(parsed.amount, { currency, locale: context.locale })
+        : typeof parsed.amount === 'number'
+          ? parsed.amount
+          : null;
+
     // Validate and clean the parsed data
     let result = {
       description: parsed.description || null,
       provider: parsed.provider || null,
-      amount: parsed.amount ? parseFloat(parsed.amount.toString()) : null,
-      currency: parsed.currency || null,
+      amount: amount || null,
+      currency,
       date: parsed.date || null,
-      confidence: parsed.confidence || {
-        amount: 0.8,
-        date: 0.8,
-        provider: 0.8,
-        description: 0.8,
-      },
+      // Fall back to the line-by-line heuristic if the AI found no items
+      lineItems: Array.isArray(parsed.lineItems) && parsed.lineItems.length > 0
+        ? normalizeLineItems(parsed.lineItems)
+        : extractLineItems(text),
+      breakdown: parsed.breakdown
+        ? normalizeAmountBreakdown(parsed.breakdown)
+        : extractAmountBreakdown(text, { currency, locale: context.locale }),
+      confidence: heuristic.confidence, // Scored below, once fixed up
     };
 
     // Post-processing validation to fix common AI mistakes
-    result = validateAndFixFields(result);
+    result = validateAndFixFields(result, context);
+    result.confidence = scoreAiFields(result, text, heuristic, parsed.confidence);
 
     console.log('Final Parsed Result:', result);
     return result;
 
   } catch (error) {
     console.error('❌ Error parsing text with AI:', error);
-    // Fallback: try to extract basic info manually
-    return {
-      description: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
-      provider: null,
-      amount: null,
-      currency: null,
-      date: null,
-      confidence: {
-        amount: 0.1,
-        date: 0.1,
-        provider: 0.1,
-        description: 0.1,
-      },
-    };
+    return null;
   }
 }
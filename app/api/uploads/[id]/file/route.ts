@@ -0,0 +1,69 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getReceiptStorage } from '@/lib/receiptStorage';
+import {
+  getContentDisposition,
+  isInlineContentType,
+} from '@/lib/attachments';
+
+// Serves the original receipt file of one of the user's uploads, its
+// thumbnail with ?thumbnail=1, or the image OCR read with ?ocr=1
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const upload = await db.upload.findFirst({
+    where: { id, userId },
+    select: {
+      fileName: true,
+      contentType: true,
+      storageKey: true,
+      thumbnailKey: true,
+      ocrImageKey: true,
+    },
+  });
+
+  const thumbnail = request.nextUrl.searchParams.get('thumbnail') === '1';
+  const ocr = request.nextUrl.searchParams.get('ocr') === '1';
+  const key = thumbnail
+    ? upload?.thumbnailKey
+    : ocr
+      ? upload?.ocrImageKey
+      : upload?.storageKey;
+  if (!upload || !key) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  try {
+    const file = await getReceiptStorage().get(key);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    // Thumbnails and OCR images are always webp written by the server
+    const contentType = thumbnail || ocr ? 'image/webp' : upload.contentType;
+    const inline = isInlineContentType(contentType);
+
+    return new Response(new Uint8Array(file), {
+      headers: {
+        'Content-Type': inline ? contentType! : 'application/octet-stream',
+        'Content-Disposition': getContentDisposition(upload.fileName, inline),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error reading receipt file:', error);
+    return NextResponse.json(
+      { error: 'Failed to read receipt file' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import ClerkThemeProvider from '@/components/ClerkThemeProvider';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { CategoryProvider } from '@/contexts/CategoryContext';
 
 const geistSans = Geist({
   variable: '--font-geist-sans',
@@ -49,9 +50,11 @@ export default function RootLayout({
       >
         <ThemeProvider>
           <ClerkThemeProvider>
-            <Navbar />
-            {children}
-            <Footer />
+            <CategoryProvider>
+              <Navbar />
+              {children}
+              <Footer />
+            </CategoryProvider>
           </ClerkThemeProvider>
         </ThemeProvider>
       </body>
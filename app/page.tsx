@@ -1,10 +1,12 @@
 import AddNewRecord from '@/components/AddNewRecord';
 import AIInsights from '@/components/AIInsights';
+import BudgetPanel from '@/components/BudgetPanel';
 import ExpenseStats from '@/components/ExpenseStats';
 import Guest from '@/components/Guest';
 import RecordChart from '@/components/RecordChart';
 import RecordHistory from '@/components/RecordHistory';
 import UploadReceipt from '@/components/UploadReceipt';
+import { checkUser } from '@/lib/checkUser';
 import { currentUser } from '@clerk/nextjs/server';
 
 export default async function HomePage() {
@@ -12,6 +14,8 @@ export default async function HomePage() {
   if (!user) {
     return <Guest />;
   }
+  const dbUser = await checkUser();
+  const baseCurrency = dbUser?.baseCurrency || 'USD';
   return (
     <main className='bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 font-sans min-h-screen transition-colors duration-300'>
       {/* Mobile-optimized container with responsive padding */}
@@ -83,9 +87,9 @@ export default async function HomePage() {
               </div>
             </div>
             {/* Add New Expense */}
-            <AddNewRecord />
+            <AddNewRecord baseCurrency={baseCurrency} />
             {/* Upload Receipt */}
-            <UploadReceipt />
+            <UploadReceipt baseCurrency={baseCurrency} />
           </div>
 
           {/* Right Column - Stacked below on mobile */}
@@ -93,6 +97,7 @@ export default async function HomePage() {
             {/* Expense Analytics */}
             <RecordChart />
             <ExpenseStats />
+            <BudgetPanel />
           </div>
         </div>
 
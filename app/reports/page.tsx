@@ -0,0 +1,28 @@
+import ExtractionAccuracy from '@/components/ExtractionAccuracy';
+import Guest from '@/components/Guest';
+import TaxSummary from '@/components/TaxSummary';
+import { currentUser } from '@clerk/nextjs/server';
+
+export default async function ReportsPage() {
+  const user = await currentUser();
+  if (!user) {
+    return <Guest />;
+  }
+  return (
+    <main className='bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 font-sans min-h-screen transition-colors duration-300'>
+      <div className='max-w-4xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8 space-y-4 sm:space-y-6'>
+        <div>
+          <h2 className='text-lg sm:text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 dark:text-gray-100'>
+            Reports
+          </h2>
+          <p className='text-sm sm:text-base text-gray-600 dark:text-gray-400 mt-1'>
+            Tax, tips and discounts from your receipts, for reimbursements and
+            tax returns, and how well receipts are being read.
+          </p>
+        </div>
+        <TaxSummary />
+        <ExtractionAccuracy />
+      </div>
+    </main>
+  );
+}
@@ -2,15 +2,21 @@
 import { useRef, useState } from 'react';
 import addExpenseRecord from '@/app/actions/addExpenseRecord';
 import { suggestCategory } from '@/app/actions/suggestCategory';
+import { SUPPORTED_CURRENCIES, getCurrencyInfo } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+import TagInput from '@/components/TagInput';
 
-const AddRecord = () => {
+const AddRecord = ({ baseCurrency = 'USD' }: { baseCurrency?: string }) => {
   const formRef = useRef<HTMLFormElement>(null);
+  const { leafCategories, getLabel } = useCategories();
   const [amount, setAmount] = useState(50); // Default value for expense amount
   const [alertMessage, setAlertMessage] = useState<string | null>(null); // State for alert message
   const [alertType, setAlertType] = useState<'success' | 'error' | null>(null); // State for alert type
   const [isLoading, setIsLoading] = useState(false); // State for loading spinner
   const [category, setCategory] = useState(''); // State for selected expense category
+  const [currency, setCurrency] = useState(baseCurrency); // State for the expense currency
   const [description, setDescription] = useState(''); // State for expense description
+  const [tags, setTags] = useState<string[]>([]); // State for expense tags
   const [isCategorizingAI, setIsCategorizingAI] = useState(false); // State for AI categorization loading
 
   const clientAction = async (formData: FormData) => {
@@ -19,6 +25,8 @@ const AddRecord = () => {
 
     formData.set('amount', amount.toString()); // Add the amount value to the form data
     formData.set('category', category); // Add the selected category to the form data
+    formData.set('currency', currency); // Add the selected currency to the form data
+    formData.set('tags', tags.join(',')); // Add the tags to the form data
 
     const { error } = await addExpenseRecord(formData); // Removed `data` since it's unused
 
@@ -31,7 +39,9 @@ const AddRecord = () => {
       formRef.current?.reset();
       setAmount(50); // Reset the amount to the default value
       setCategory(''); // Reset the category
+      setCurrency(baseCurrency); // Reset the currency
       setDescription(''); // Reset the description
+      setTags([]); // Reset the tags
       
       // Dispatch custom event to notify other components
       window.dispatchEvent(new CustomEvent('recordAdded'));
@@ -185,45 +195,15 @@ const AddRecord = () => {
               >
                 Select category...
               </option>
-              <option value='Food' className='text-gray-900 dark:text-gray-100'>
-                🍔 Food & Dining
-              </option>
-              <option
-                value='Transportation'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                🚗 Transportation
-              </option>
-              <option
-                value='Shopping'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                🛒 Shopping
-              </option>
-              <option
-                value='Entertainment'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                🎬 Entertainment
-              </option>
-              <option
-                value='Bills'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                💡 Bills & Utilities
-              </option>
-              <option
-                value='Healthcare'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                🏥 Healthcare
-              </option>
-              <option
-                value='Other'
-                className='text-gray-900 dark:text-gray-100'
-              >
-                📦 Other
-              </option>
+              {leafCategories.map((option) => (
+                <option
+                  key={option.id}
+                  value={option.name}
+                  className='text-gray-900 dark:text-gray-100'
+                >
+                  {option.icon} {getLabel(option.name)}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -236,30 +216,61 @@ const AddRecord = () => {
               <span className='w-1.5 h-1.5 bg-green-500 rounded-full'></span>
               Amount
               <span className='text-xs text-gray-400 dark:text-gray-500 ml-2 font-normal hidden sm:inline'>
-                Enter amount between $0 and $1,000
+                Enter amount between 0 and 1,000
               </span>
             </label>
-            <div className='relative'>
-              <span className='absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400 font-medium text-sm'>
-                $
-              </span>
-              <input
-                type='number'
-                name='amount'
-                id='amount'
-                min='0'
-                max='1000'
-                step='0.01'
-                value={amount}
-                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
-                className='w-full pl-6 pr-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:bg-white dark:focus:bg-gray-700/90 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 text-sm font-semibold shadow-sm hover:shadow-md transition-all duration-200'
-                placeholder='0.00'
-                required
-              />
+            <div className='flex gap-2'>
+              <select
+                name='currency'
+                aria-label='Currency'
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className='px-2 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 cursor-pointer text-sm shadow-sm'
+              >
+                {SUPPORTED_CURRENCIES.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.code}
+                  </option>
+                ))}
+              </select>
+              <div className='relative flex-1'>
+                <span className='absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400 font-medium text-sm'>
+                  {getCurrencyInfo(currency)?.symbol || currency}
+                </span>
+                <input
+                  type='number'
+                  name='amount'
+                  id='amount'
+                  min='0'
+                  max='1000'
+                  step='0.01'
+                  value={amount}
+                  onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                  className='w-full pl-9 pr-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:bg-white dark:focus:bg-gray-700/90 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 text-sm font-semibold shadow-sm hover:shadow-md transition-all duration-200'
+                  placeholder='0.00'
+                  required
+                />
+              </div>
             </div>
           </div>
         </div>
 
+        {/* Tags */}
+        <div className='space-y-1.5 p-3 sm:p-4 bg-gradient-to-r from-emerald-50/50 to-teal-50/50 dark:from-emerald-900/10 dark:to-teal-900/10 rounded-xl border border-emerald-100/50 dark:border-emerald-800/50'>
+          <label className='flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide'>
+            <span className='w-1.5 h-1.5 bg-teal-500 rounded-full'></span>
+            Tags
+            <span className='text-xs text-gray-400 dark:text-gray-500 ml-2 font-normal hidden sm:inline'>
+              Optional, press Enter or comma to add
+            </span>
+          </label>
+          <TagInput
+            value={tags}
+            onChange={setTags}
+            className='w-full px-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:bg-white dark:focus:bg-gray-700/90 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 text-sm shadow-sm hover:shadow-md transition-all duration-200'
+          />
+        </div>
+
         {/* Submit Button */}
         <button
           type='submit'
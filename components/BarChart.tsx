@@ -12,6 +12,15 @@ import {
 } from 'chart.js';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useState, useEffect } from 'react';
+import { formatCurrency, getCurrencyInfo } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+import {
+  flattenCategoryTree,
+  getCategoryPath,
+  getDescendantNames,
+} from '@/lib/categories';
+import { getCategoryShares } from '@/lib/splits';
+import { RecordSplit } from '@/types/Record';
 
 // Register Chart.js components
 ChartJS.register(
@@ -26,11 +35,19 @@ ChartJS.register(
 // Define the type for a record
 interface Record {
   date: string; // ISO date string
-  amount: number; // Amount spent
+  amount: number; // Amount spent, already in the base currency
   category: string; // Expense category
+  splits?: RecordSplit[]; // Per-category amounts of a split expense
 }
 
-const BarChart = ({ records }: { records: Record[] }) => {
+const BarChart = ({
+  records,
+  currency,
+}: {
+  records: Record[];
+  currency: string;
+}) => {
+  const currencySymbol = getCurrencyInfo(currency)?.symbol || currency;
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   const [windowWidth, setWindowWidth] = useState(1024); // Default to desktop width
@@ -50,11 +67,36 @@ const BarChart = ({ records }: { records: Record[] }) => {
 
   const isMobile = windowWidth < 640;
 
-  // Aggregate expenses by date
+  // Drill into a parent category ('' shows everything rolled up to the top level)
+  const { categories } = useCategories();
+  const [scope, setScope] = useState('');
+  const scopeOptions = flattenCategoryTree(categories).filter(({ category }) =>
+    categories.some((child) => child.parentId === category.id)
+  );
+  const scopedNames = scope ? getDescendantNames(scope, categories) : null;
+
+  // Split expenses count towards each of their categories separately
+  const shares = records.flatMap((record) =>
+    getCategoryShares(record).map((share) => ({ ...share, date: record.date }))
+  );
+  const scopedRecords = scopedNames
+    ? shares.filter((share) => scopedNames.includes(share.category))
+    : shares;
+
+  // The category a record is grouped under at the current level: its
+  // top-level category, or the child of the scoped category on its path
+  const getGroup = (category: string) => {
+    const path = getCategoryPath(category, categories);
+    if (!scope) return path[0]?.name || category;
+    const index = path.findIndex((item) => item.name === scope);
+    return path[index + 1]?.name || scope;
+  };
+
+  // Aggregate expenses by date, keeping a per-category breakdown
   const aggregateByDate = (records: Record[]) => {
     const dateMap = new Map<
       string,
-      { total: number; categories: string[]; originalDate: string }
+      { total: number; breakdown: Map<string, number>; originalDate: string }
     >();
 
     records.forEach((record) => {
@@ -65,17 +107,19 @@ const BarChart = ({ records }: { records: Record[] }) => {
       const month = String(dateObj.getUTCMonth() + 1).padStart(2, '0');
       const day = String(dateObj.getUTCDate()).padStart(2, '0');
       const dateKey = `${year}-${month}-${day}`;
+      const group = getGroup(record.category);
       const existing = dateMap.get(dateKey);
 
       if (existing) {
         existing.total += record.amount;
-        if (!existing.categories.includes(record.category)) {
-          existing.categories.push(record.category);
-        }
+        existing.breakdown.set(
+          group,
+          (existing.breakdown.get(group) || 0) + record.amount
+        );
       } else {
         dateMap.set(dateKey, {
           total: record.amount,
-          categories: [record.category],
+          breakdown: new Map([[group, record.amount]]),
           originalDate: record.date, // Keep original ISO date for sorting
         });
       }
@@ -86,7 +130,9 @@ const BarChart = ({ records }: { records: Record[] }) => {
       .map(([date, data]) => ({
         date,
         amount: data.total,
-        categories: data.categories,
+        breakdown: Array.from(data.breakdown.entries()).sort(
+          (a, b) => b[1] - a[1]
+        ),
         originalDate: data.originalDate,
       }))
       .sort(
@@ -96,7 +142,7 @@ const BarChart = ({ records }: { records: Record[] }) => {
       );
   };
 
-  const aggregatedData = aggregateByDate(records);
+  const aggregatedData = aggregateByDate(scopedRecords);
 
   // Get color based on amount (since we're aggregating multiple categories)
   const getAmountColor = (amount: number) => {
@@ -166,11 +212,12 @@ const BarChart = ({ records }: { records: Record[] }) => {
           label: function (context: { dataIndex: number }) {
             const dataIndex = context.dataIndex;
             const item = aggregatedData[dataIndex];
-            const categoriesText =
-              item.categories.length > 1
-                ? `Categories: ${item.categories.join(', ')}`
-                : `Category: ${item.categories[0]}`;
-            return [`Total: $${item.amount.toFixed(2)}`, categoriesText];
+            return [
+              `Total: ${formatCurrency(item.amount, currency)}`,
+              ...item.breakdown.map(
+                ([group, amount]) => `${group}: ${formatCurrency(amount, currency)}`
+              ),
+            ];
           },
         },
       },
@@ -201,7 +248,7 @@ const BarChart = ({ records }: { records: Record[] }) => {
       y: {
         title: {
           display: true,
-          text: 'Amount ($)',
+          text: `Amount (${currencySymbol})`,
           font: {
             size: isMobile ? 12 : 16, // Smaller font on mobile
             weight: 'bold' as const,
@@ -214,7 +261,7 @@ const BarChart = ({ records }: { records: Record[] }) => {
           },
           color: isDark ? '#9ca3af' : '#7f8c8d', // Gray y-axis labels
           callback: function (value: string | number) {
-            return '$' + value; // Add dollar sign to y-axis labels
+            return currencySymbol + value; // Add currency symbol to y-axis labels
           },
         },
         grid: {
@@ -226,8 +273,27 @@ const BarChart = ({ records }: { records: Record[] }) => {
   };
 
   return (
-    <div className='relative w-full h-64 sm:h-72 md:h-80'>
-      <Bar data={data} options={options} />
+    <div className='space-y-2'>
+      {scopeOptions.length > 0 && (
+        <div className='flex justify-end'>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            aria-label='Category level'
+            className='h-8 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+          >
+            <option value=''>All categories</option>
+            {scopeOptions.map(({ category, depth }) => (
+              <option key={category.id} value={category.name}>
+                {`${'\u00a0\u00a0'.repeat(depth)}${category.icon} ${category.name}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className='relative w-full h-64 sm:h-72 md:h-80'>
+        <Bar data={data} options={options} />
+      </div>
     </div>
   );
 };
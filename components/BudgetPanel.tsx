@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import getBudgetStatus from '@/app/actions/getBudgetStatus';
+import createBudget from '@/app/actions/createBudget';
+import updateBudget from '@/app/actions/updateBudget';
+import deleteBudget from '@/app/actions/deleteBudget';
+import { BudgetLine, BudgetStatus } from '@/types/Budget';
+import { formatCurrency } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+import { flattenCategoryTree } from '@/lib/categories';
+
+// Progress bar colour based on how much of the limit is used
+const getBarColor = (line: BudgetLine) => {
+  if (line.isOver) return 'bg-gradient-to-r from-red-500 to-pink-500';
+  if (line.isProjectedOver) return 'bg-gradient-to-r from-yellow-400 to-orange-500';
+  return 'bg-gradient-to-r from-emerald-500 to-green-500';
+};
+
+const BudgetRow = ({
+  line,
+  currency,
+  onChanged,
+  onError,
+}: {
+  line: BudgetLine;
+  currency: string;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [limit, setLimit] = useState(line.limit.toString());
+  const percent = Math.min((line.spent / line.limit) * 100, 100);
+
+  const handleSave = async () => {
+    const formData = new FormData();
+    formData.set('amount', limit);
+    const result = await updateBudget(line.id, formData);
+    if (result.error) {
+      onError(result.error);
+    } else {
+      setIsEditing(false);
+      onChanged();
+    }
+  };
+
+  const handleDelete = async () => {
+    const result = await deleteBudget(line.id);
+    if (result.error) {
+      onError(result.error);
+    } else {
+      onChanged();
+    }
+  };
+
+  return (
+    <div className='space-y-1.5'>
+      <div className='flex items-center justify-between gap-2 text-sm'>
+        <span className='font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2'>
+          {line.category || 'Overall'}
+          {line.isOver && (
+            <span className='px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'>
+              Over budget
+            </span>
+          )}
+          {!line.isOver && line.isProjectedOver && (
+            <span className='px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300'>
+              On pace to exceed
+            </span>
+          )}
+        </span>
+        {isEditing ? (
+          <span className='flex items-center gap-1'>
+            <input
+              type='number'
+              min='0'
+              step='0.01'
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              className='w-24 h-7 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+            />
+            <button
+              type='button'
+              onClick={handleSave}
+              className='text-xs text-emerald-600 dark:text-emerald-400 hover:underline'
+            >
+              Save
+            </button>
+            <button
+              type='button'
+              onClick={() => setIsEditing(false)}
+              className='text-xs text-gray-500 dark:text-gray-400 hover:underline'
+            >
+              Cancel
+            </button>
+          </span>
+        ) : (
+          <span className='flex items-center gap-2'>
+            <span className='text-xs text-gray-600 dark:text-gray-300'>
+              {formatCurrency(line.spent, currency)} /{' '}
+              {formatCurrency(line.limit, currency)}
+            </span>
+            <button
+              type='button'
+              onClick={() => setIsEditing(true)}
+              className='text-xs text-blue-600 dark:text-blue-400 hover:underline'
+            >
+              Edit
+            </button>
+            <button
+              type='button'
+              onClick={handleDelete}
+              className='text-xs text-red-600 dark:text-red-400 hover:underline'
+            >
+              Delete
+            </button>
+          </span>
+        )}
+      </div>
+      <div className='w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden'>
+        <div
+          className={`h-full rounded-full ${getBarColor(line)}`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      <p className='text-xs text-gray-500 dark:text-gray-400'>
+        Projected month-end: {formatCurrency(line.projected, currency)}
+      </p>
+    </div>
+  );
+};
+
+const BudgetPanel = () => {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const { activeCategories } = useCategories();
+  // Budgets can be set on a parent category to cover all of its subcategories
+  const categoryOptions = flattenCategoryTree(activeCategories);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newCategory, setNewCategory] = useState('');
+  const [newAmount, setNewAmount] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    const result = await getBudgetStatus();
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setStatus(result.status || null);
+      setError(null);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Refresh spending when a new expense is added
+  useEffect(() => {
+    window.addEventListener('recordAdded', loadStatus);
+    return () => window.removeEventListener('recordAdded', loadStatus);
+  }, [loadStatus]);
+
+  const handleCreate = async () => {
+    const formData = new FormData();
+    formData.set('category', newCategory);
+    formData.set('amount', newAmount);
+    const result = await createBudget(formData);
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setNewAmount('');
+      setNewCategory('');
+      loadStatus();
+    }
+  };
+
+  const lines = status
+    ? [...(status.overall ? [status.overall] : []), ...status.categories]
+    : [];
+  const overCategories = status
+    ? status.categories.filter((line) => line.isOver)
+    : [];
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+        <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+          <span className='text-white text-sm sm:text-lg'>🎯</span>
+        </div>
+        <div>
+          <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
+            Monthly Budgets
+          </h3>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+            {status
+              ? `Day ${status.daysElapsed} of ${status.daysInMonth}`
+              : 'Spending against your limits'}
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+          <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+          Loading budgets...
+        </div>
+      ) : (
+        <div className='space-y-4'>
+          {overCategories.length > 0 && (
+            <div className='bg-red-50/80 dark:bg-red-900/20 p-3 rounded-xl border-l-4 border-l-red-500 text-xs text-red-800 dark:text-red-300'>
+              Over budget this month:{' '}
+              {overCategories.map((line) => line.category).join(', ')}
+            </div>
+          )}
+
+          {/* Currencies without an exchange rate are left out of spending */}
+          {status && status.missingRates.length > 0 && (
+            <p className='text-xs text-yellow-700 dark:text-yellow-300 bg-yellow-50/80 dark:bg-yellow-900/20 p-2 rounded-lg'>
+              No exchange rate for {status.missingRates.join(', ')}, so those
+              expenses are left out of spending. Add one in Settings to count
+              them.
+            </p>
+          )}
+
+          {lines.length === 0 ? (
+            <p className='text-sm text-gray-500 dark:text-gray-400'>
+              No budgets yet. Set an overall monthly limit or one per category.
+            </p>
+          ) : (
+            lines.map((line) => (
+              <BudgetRow
+                key={line.id}
+                line={line}
+                currency={status!.currency}
+                onChanged={loadStatus}
+                onError={setError}
+              />
+            ))
+          )}
+
+          {/* New budget form */}
+          <div className='flex flex-wrap items-center gap-2 pt-3 border-t border-gray-200/50 dark:border-gray-600/50'>
+            <select
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              className='h-8 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+            >
+              <option value=''>Overall</option>
+              {categoryOptions.map(({ category, depth }) => (
+                <option key={category.id} value={category.name}>
+                  {`${'\u00a0\u00a0'.repeat(depth)}${category.icon} ${category.name}`}
+                </option>
+              ))}
+            </select>
+            <input
+              type='number'
+              min='0'
+              step='0.01'
+              placeholder={`Limit (${status?.currency || 'USD'})`}
+              value={newAmount}
+              onChange={(e) => setNewAmount(e.target.value)}
+              className='h-8 w-32 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+            />
+            <button
+              type='button'
+              onClick={handleCreate}
+              disabled={!newAmount}
+              className='h-8 px-3 bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 disabled:from-gray-300 disabled:to-gray-300 text-white rounded-md text-xs font-medium'
+            >
+              Add Budget
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className='mt-3 text-xs text-red-600 dark:text-red-400'>{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
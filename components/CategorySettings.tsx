@@ -0,0 +1,341 @@
+'use client';
+
+import { useState } from 'react';
+import createCategory from '@/app/actions/createCategory';
+import updateCategory from '@/app/actions/updateCategory';
+import setCategoryArchived from '@/app/actions/setCategoryArchived';
+import mergeCategories from '@/app/actions/mergeCategories';
+import { useCategories } from '@/contexts/CategoryContext';
+import {
+  categoryBadgeStyle,
+  flattenCategoryTree,
+  getDescendantNames,
+} from '@/lib/categories';
+import { Category } from '@/types/Category';
+
+const smallInputClassName =
+  'h-9 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-gray-100';
+
+const CategoryRow = ({
+  category,
+  depth,
+  categories,
+  onResult,
+}: {
+  category: Category;
+  depth: number;
+  categories: Category[];
+  onResult: (result: { message?: string; error?: string }) => void;
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon);
+  const [color, setColor] = useState(category.color);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  // A category can't be moved under, or merged into, one of its own subcategories
+  const descendants = getDescendantNames(category.name, categories);
+  const otherCategories = categories.filter(
+    (option) => !descendants.includes(option.name)
+  );
+
+  const handleSave = async () => {
+    const formData = new FormData();
+    formData.set('name', name);
+    formData.set('icon', icon);
+    const result = await updateCategory(category.id, formData);
+    onResult(result);
+    if (!result.error) {
+      setIsEditing(false);
+    }
+  };
+
+  // Save the colour once the picker is closed, not on every change
+  const handleColorSave = async () => {
+    if (color === category.color) return;
+    const formData = new FormData();
+    formData.set('color', color);
+    onResult(await updateCategory(category.id, formData));
+  };
+
+  const handleParentChange = async (parentId: string) => {
+    const formData = new FormData();
+    formData.set('parentId', parentId);
+    onResult(await updateCategory(category.id, formData));
+  };
+
+  const handleMerge = async () => {
+    const target = categories.find((option) => option.id === mergeTargetId);
+    if (
+      !target ||
+      !window.confirm(
+        `Move every ${category.name} expense, budget and recurring expense to ${target.name} and remove ${category.name}?`
+      )
+    ) {
+      return;
+    }
+    onResult(await mergeCategories(category.id, target.id));
+    setMergeTargetId('');
+  };
+
+  return (
+    <li
+      className={`flex flex-wrap items-center justify-between gap-2 py-2 text-sm ${
+        category.archived ? 'opacity-60' : ''
+      }`}
+    >
+      {isEditing ? (
+        <span
+          className='flex items-center gap-2'
+          style={{ paddingLeft: `${depth * 1.5}rem` }}
+        >
+          <input
+            type='text'
+            value={icon}
+            onChange={(e) => setIcon(e.target.value)}
+            aria-label='Icon'
+            className={`${smallInputClassName} w-12 text-center`}
+          />
+          <input
+            type='text'
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            aria-label='Name'
+            className={`${smallInputClassName} w-40`}
+          />
+          <button
+            type='button'
+            onClick={handleSave}
+            className='text-xs text-emerald-600 dark:text-emerald-400 hover:underline'
+          >
+            Save
+          </button>
+          <button
+            type='button'
+            onClick={() => {
+              setName(category.name);
+              setIcon(category.icon);
+              setIsEditing(false);
+            }}
+            className='text-xs text-gray-500 dark:text-gray-400 hover:underline'
+          >
+            Cancel
+          </button>
+        </span>
+      ) : (
+        <span
+          className='flex items-center gap-2'
+          style={{ paddingLeft: `${depth * 1.5}rem` }}
+        >
+          <input
+            type='color'
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            onBlur={handleColorSave}
+            aria-label={`${category.name} colour`}
+            className='w-7 h-7 rounded cursor-pointer bg-transparent'
+          />
+          <span
+            className='inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium'
+            style={categoryBadgeStyle(color)}
+          >
+            {category.icon} {category.name}
+          </span>
+          {category.archived && (
+            <span className='text-xs text-gray-500 dark:text-gray-400'>
+              Archived
+            </span>
+          )}
+        </span>
+      )}
+
+      {!isEditing && (
+        <span className='flex items-center gap-3'>
+          <button
+            type='button'
+            onClick={() => setIsEditing(true)}
+            className='text-xs text-blue-600 dark:text-blue-400 hover:underline'
+          >
+            Rename
+          </button>
+          <button
+            type='button'
+            onClick={async () =>
+              onResult(await setCategoryArchived(category.id, !category.archived))
+            }
+            className='text-xs text-gray-600 dark:text-gray-300 hover:underline'
+          >
+            {category.archived ? 'Restore' : 'Archive'}
+          </button>
+          <select
+            value={category.parentId || ''}
+            onChange={(e) => handleParentChange(e.target.value)}
+            aria-label={`Parent of ${category.name}`}
+            className='h-7 px-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+          >
+            <option value=''>Top level</option>
+            {otherCategories.map((option) => (
+              <option key={option.id} value={option.id}>
+                Under {option.icon} {option.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={mergeTargetId}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            aria-label={`Merge ${category.name} into`}
+            className='h-7 px-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100'
+          >
+            <option value=''>Merge into...</option>
+            {otherCategories.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.icon} {option.name}
+              </option>
+            ))}
+          </select>
+          {mergeTargetId && (
+            <button
+              type='button'
+              onClick={handleMerge}
+              className='text-xs text-red-600 dark:text-red-400 hover:underline'
+            >
+              Merge
+            </button>
+          )}
+        </span>
+      )}
+    </li>
+  );
+};
+
+const CategorySettings = () => {
+  const { categories, reloadCategories } = useCategories();
+  const [newName, setNewName] = useState('');
+  const [newIcon, setNewIcon] = useState('📦');
+  const [newColor, setNewColor] = useState('#6b7280');
+  const [newParentId, setNewParentId] = useState('');
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<'success' | 'error' | null>(null);
+
+  const showResult = (result: { message?: string; error?: string }) => {
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setAlertMessage(result.message || 'Saved');
+      setAlertType('success');
+      reloadCategories();
+      // Records, budgets and recurring expenses may have been renamed
+      window.dispatchEvent(new CustomEvent('recordAdded'));
+    }
+  };
+
+  const handleCreate = async () => {
+    const formData = new FormData();
+    formData.set('name', newName);
+    formData.set('icon', newIcon);
+    formData.set('color', newColor);
+    formData.set('parentId', newParentId);
+    const result = await createCategory(formData);
+    showResult(result);
+    if (!result.error) {
+      setNewName('');
+      setNewIcon('📦');
+    }
+  };
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+        <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+          <span className='text-white text-sm sm:text-lg'>🏷️</span>
+        </div>
+        <div>
+          <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight'>
+            Categories
+          </h3>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+            Archived categories stay on past expenses but can&#39;t be picked.
+            Expenses go in categories without subcategories.
+          </p>
+        </div>
+      </div>
+
+      <div className='space-y-4'>
+        <div className='flex flex-wrap items-end gap-2 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700'>
+          <input
+            type='text'
+            value={newIcon}
+            onChange={(e) => setNewIcon(e.target.value)}
+            aria-label='Icon'
+            className={`${smallInputClassName} w-12 text-center`}
+          />
+          <input
+            type='text'
+            placeholder='New category, e.g. Pets'
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className={`${smallInputClassName} w-48`}
+          />
+          <input
+            type='color'
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            aria-label='Colour'
+            className='w-9 h-9 rounded cursor-pointer bg-transparent'
+          />
+          <select
+            value={newParentId}
+            onChange={(e) => setNewParentId(e.target.value)}
+            aria-label='Parent category'
+            className={smallInputClassName}
+          >
+            <option value=''>Top level</option>
+            {categories
+              .filter((category) => !category.archived)
+              .map((category) => (
+                <option key={category.id} value={category.id}>
+                  Under {category.icon} {category.name}
+                </option>
+              ))}
+          </select>
+          <button
+            type='button'
+            onClick={handleCreate}
+            disabled={!newName.trim()}
+            className='h-9 px-4 bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 disabled:from-gray-300 disabled:to-gray-300 text-white rounded-md text-sm font-medium'
+          >
+            Add Category
+          </button>
+        </div>
+
+        <ul className='divide-y divide-gray-200 dark:divide-gray-700'>
+          {flattenCategoryTree(categories).map(({ category, depth }) => (
+            <CategoryRow
+              key={`${category.id}-${category.name}-${category.icon}-${category.color}`}
+              category={category}
+              depth={depth}
+              categories={categories}
+              onResult={showResult}
+            />
+          ))}
+        </ul>
+      </div>
+
+      {/* Alert Message */}
+      {alertMessage && (
+        <div
+          className={`mt-4 p-3 rounded-xl border-l-4 text-sm font-medium ${
+            alertType === 'success'
+              ? 'bg-green-50/80 dark:bg-green-900/20 border-l-green-500 text-green-800 dark:text-green-200'
+              : 'bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {alertMessage}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategorySettings;
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import getCurrencySettings from '@/app/actions/getCurrencySettings';
+import updateBaseCurrency from '@/app/actions/updateBaseCurrency';
+import saveExchangeRate from '@/app/actions/saveExchangeRate';
+import deleteExchangeRate from '@/app/actions/deleteExchangeRate';
+import { ExchangeRate } from '@/types/ExchangeRate';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+
+const CurrencySettings = () => {
+  const [baseCurrency, setBaseCurrency] = useState('USD');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<'success' | 'error' | null>(null);
+  const [rateCurrency, setRateCurrency] = useState('EUR');
+  const [rateValue, setRateValue] = useState('');
+  const [rateDate, setRateDate] = useState(
+    new Date().toISOString().split('T')[0]
+  );
+
+  const loadSettings = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getCurrencySettings();
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setBaseCurrency(result.baseCurrency || 'USD');
+      setRates(result.rates || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const showResult = (result: { message?: string; error?: string }) => {
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setAlertMessage(result.message || 'Saved');
+      setAlertType('success');
+    }
+  };
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    setBaseCurrency(currency);
+    showResult(await updateBaseCurrency(currency));
+  };
+
+  const handleSaveRate = async () => {
+    const formData = new FormData();
+    formData.set('currency', rateCurrency);
+    formData.set('rate', rateValue);
+    formData.set('effectiveDate', rateDate);
+
+    const result = await saveExchangeRate(formData);
+    showResult(result);
+    if (!result.error) {
+      setRateValue('');
+      loadSettings();
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    const result = await deleteExchangeRate(rateId);
+    showResult(result);
+    if (!result.error) {
+      setRates((prev) => prev.filter((rate) => rate.id !== rateId));
+    }
+  };
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+        <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+          <span className='text-white text-sm sm:text-lg'>💱</span>
+        </div>
+        <div>
+          <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight'>
+            Currencies
+          </h3>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+            Totals, charts and insights are shown in your base currency
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+          <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+          Loading currency settings...
+        </div>
+      ) : (
+        <div className='space-y-6'>
+          {/* Base Currency */}
+          <div className='space-y-1.5'>
+            <label
+              htmlFor='baseCurrency'
+              className='flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide'
+            >
+              <span className='w-1.5 h-1.5 bg-emerald-500 rounded-full'></span>
+              Base Currency
+            </label>
+            <select
+              id='baseCurrency'
+              value={baseCurrency}
+              onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+              className='w-full sm:w-64 px-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-400 text-gray-900 dark:text-gray-100 cursor-pointer text-sm'
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code} - {currency.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Exchange Rates */}
+          <div className='space-y-3'>
+            <div>
+              <h4 className='text-sm font-semibold text-gray-900 dark:text-gray-100'>
+                Exchange Rates
+              </h4>
+              <p className='text-xs text-gray-500 dark:text-gray-400'>
+                Units of each currency per 1 USD. Expenses use the latest rate
+                in effect on their date.
+              </p>
+            </div>
+
+            <div className='flex flex-wrap items-end gap-2 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700'>
+              <select
+                value={rateCurrency}
+                onChange={(e) => setRateCurrency(e.target.value)}
+                className='h-9 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-gray-100'
+              >
+                {SUPPORTED_CURRENCIES.filter(
+                  (currency) => currency.code !== 'USD'
+                ).map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+              <input
+                type='number'
+                min='0'
+                step='any'
+                placeholder='Rate per USD'
+                value={rateValue}
+                onChange={(e) => setRateValue(e.target.value)}
+                className='h-9 w-36 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-gray-100'
+              />
+              <input
+                type='date'
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+                className='h-9 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-gray-100'
+              />
+              <button
+                type='button'
+                onClick={handleSaveRate}
+                disabled={!rateValue}
+                className='h-9 px-4 bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 disabled:from-gray-300 disabled:to-gray-300 text-white rounded-md text-sm font-medium'
+              >
+                Save Rate
+              </button>
+            </div>
+
+            {rates.length === 0 ? (
+              <p className='text-sm text-gray-500 dark:text-gray-400'>
+                No exchange rates yet. Expenses in other currencies are counted
+                at face value until you add one.
+              </p>
+            ) : (
+              <ul className='divide-y divide-gray-200 dark:divide-gray-700'>
+                {rates.map((rate) => (
+                  <li
+                    key={rate.id}
+                    className='flex items-center justify-between py-2 text-sm'
+                  >
+                    <span className='font-medium text-gray-900 dark:text-gray-100'>
+                      1 USD = {rate.rate} {rate.currency}
+                    </span>
+                    <span className='flex items-center gap-3'>
+                      <span className='text-xs text-gray-500 dark:text-gray-400'>
+                        from{' '}
+                        {new Date(rate.effectiveDate).toLocaleDateString(
+                          'en-US',
+                          { timeZone: 'UTC' }
+                        )}
+                      </span>
+                      <button
+                        type='button'
+                        onClick={() => handleDeleteRate(rate.id)}
+                        className='text-xs text-red-600 dark:text-red-400 hover:underline'
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Alert Message */}
+      {alertMessage && (
+        <div
+          className={`mt-4 p-3 rounded-xl border-l-4 text-sm font-medium ${
+            alertType === 'success'
+              ? 'bg-green-50/80 dark:bg-green-900/20 border-l-green-500 text-green-800 dark:text-green-200'
+              : 'bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {alertMessage}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrencySettings;
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import updateExpenseRecord from '@/app/actions/updateExpenseRecord';
+import { Record } from '@/types/Record';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+import TagInput from '@/components/TagInput';
+import SplitEditor, { SplitLine, toSplitsJson } from '@/components/SplitEditor';
+
+interface EditRecordModalProps {
+  record: Record;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+export default function EditRecordModal({
+  record,
+  onClose,
+}: EditRecordModalProps) {
+  const [formData, setFormData] = useState({
+    text: record.text,
+    amount: record.amount.toString(),
+    currency: record.currency,
+    category: record.category,
+    date: new Date(record.date).toISOString().split('T')[0], // Stored at noon UTC
+  });
+  const [tags, setTags] = useState<string[]>(record.tags || []);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    (record.splits || []).map((split) => ({
+      category: split.category,
+      amount: split.amount.toString(),
+    }))
+  );
+  const { leafCategories, getCategory, getLabel } = useCategories();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the record's own category selectable even if it has since been
+  // archived or given subcategories
+  const currentCategory = getCategory(record.category);
+  const categoryOptions =
+    currentCategory && !leafCategories.includes(currentCategory)
+      ? [...leafCategories, currentCategory]
+      : leafCategories;
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const submitFormData = new FormData();
+      submitFormData.append('text', formData.text);
+      submitFormData.append('amount', formData.amount);
+      submitFormData.append('currency', formData.currency);
+      submitFormData.append('category', formData.category);
+      submitFormData.append('date', formData.date);
+      submitFormData.append('tags', tags.join(','));
+      submitFormData.append('splits', toSplitsJson(splitLines)); // Empty unsplits it
+
+      const result = await updateExpenseRecord(record.id, submitFormData);
+
+      if (result.error) {
+        setError(result.error);
+      } else {
+        // Dispatch the same event as adding so lists, stats and budgets refresh
+        window.dispatchEvent(new CustomEvent('recordAdded'));
+        onClose();
+      }
+    } catch {
+      setError('Failed to save the expense. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4'>
+      <div className='bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto text-left'>
+        <div className='p-6'>
+          {/* Header */}
+          <div className='flex items-center justify-between mb-6'>
+            <div className='flex items-center gap-3'>
+              <div className='w-10 h-10 bg-gradient-to-br from-emerald-500 to-green-500 rounded-xl flex items-center justify-center shadow-lg'>
+                <span className='text-white text-lg'>✏️</span>
+              </div>
+              <div>
+                <h3 className='text-xl font-bold text-gray-900 dark:text-gray-100'>
+                  Edit Expense
+                </h3>
+                <p className='text-sm text-gray-600 dark:text-gray-400'>
+                  Added {new Date(record.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className='p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors'
+              aria-label='Close'
+            >
+              <span className='text-gray-500 dark:text-gray-400 text-xl'>×</span>
+            </button>
+          </div>
+
+          {/* Form Fields */}
+          <div className='space-y-4'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                Description
+              </label>
+              <input
+                type='text'
+                value={formData.text}
+                onChange={(e) => handleInputChange('text', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                  Amount
+                </label>
+                <div className='flex gap-2'>
+                  <select
+                    aria-label='Currency'
+                    value={formData.currency}
+                    onChange={(e) => handleInputChange('currency', e.target.value)}
+                    className='px-3 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type='number'
+                    step='0.01'
+                    value={formData.amount}
+                    onChange={(e) => handleInputChange('amount', e.target.value)}
+                    className={`${inputClassName} flex-1 min-w-0`}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                  Date
+                </label>
+                <input
+                  type='date'
+                  value={formData.date}
+                  onChange={(e) => handleInputChange('date', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className='flex items-center justify-between mb-2'>
+                <label className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+                  Category
+                </label>
+                <button
+                  type='button'
+                  onClick={() =>
+                    setSplitLines(
+                      splitLines.length > 0
+                        ? []
+                        : [
+                            { category: formData.category, amount: formData.amount },
+                            { category: '', amount: '' },
+                          ]
+                    )
+                  }
+                  className='text-xs text-emerald-600 dark:text-emerald-400 hover:underline'
+                >
+                  {splitLines.length > 0 ? 'Use one category' : 'Split across categories'}
+                </button>
+              </div>
+              {splitLines.length > 0 ? (
+                <SplitEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  total={parseFloat(formData.amount) || 0}
+                  currency={formData.currency}
+                  inputClassName={inputClassName}
+                />
+              ) : (
+                <select
+                  value={formData.category}
+                  onChange={(e) => handleInputChange('category', e.target.value)}
+                  className={inputClassName}
+                >
+                  {categoryOptions.map((category) => (
+                    <option key={category.id} value={category.name}>
+                      {category.icon} {getLabel(category.name)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div>
+              <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                Tags
+              </label>
+              <TagInput
+                value={tags}
+                onChange={setTags}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className='mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl'>
+              <p className='text-red-600 dark:text-red-400 text-sm'>{error}</p>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className='flex gap-3 mt-6'>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className='flex-1 px-6 py-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50'
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isLoading}
+              className='flex-1 px-6 py-3 bg-gradient-to-r from-emerald-500 to-green-500 text-white rounded-xl hover:from-emerald-600 hover:to-green-600 transition-all disabled:opacity-50 flex items-center justify-center gap-2'
+            >
+              {isLoading ? (
+                <>
+                  <div className='w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin'></div>
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
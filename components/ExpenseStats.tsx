@@ -1,17 +1,87 @@
 import React from 'react';
 import getUserRecord from '@/app/actions/getUserRecord';
 import getBestWorstExpense from '@/app/actions/getBestWorstExpense';
+import getCategoryBreakdown from '@/app/actions/getCategoryBreakdown';
+import { formatCurrency } from '@/lib/currency';
+import { CategoryTotal } from '@/types/Category';
+
+// One category's share of spending; parents expand to show their children
+const CategoryTotalRow = ({
+  item,
+  grandTotal,
+  currency,
+}: {
+  item: CategoryTotal;
+  grandTotal: number;
+  currency: string;
+}) => {
+  const row = (
+    <div className='flex-1 space-y-1'>
+      <div className='flex items-center justify-between text-xs'>
+        <span className='font-medium text-gray-800 dark:text-gray-200'>
+          {item.icon} {item.name}
+        </span>
+        <span className='font-semibold text-gray-900 dark:text-gray-100'>
+          {formatCurrency(item.total, currency)}
+        </span>
+      </div>
+      <div className='w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden'>
+        <div
+          className='h-full rounded-full'
+          style={{
+            width: `${grandTotal > 0 ? (item.total / grandTotal) * 100 : 0}%`,
+            backgroundColor: item.color,
+          }}
+        ></div>
+      </div>
+    </div>
+  );
+
+  if (item.children.length === 0) {
+    return <div className='flex items-center gap-2 pl-4'>{row}</div>;
+  }
+
+  return (
+    <details className='group'>
+      <summary className='flex items-center gap-2 cursor-pointer list-none'>
+        <span className='w-2 text-[10px] text-gray-500 dark:text-gray-400 group-open:rotate-90 transition-transform'>
+          ▶
+        </span>
+        {row}
+      </summary>
+      <div className='mt-2 ml-4 space-y-2'>
+        {item.children.map((child) => (
+          <CategoryTotalRow
+            key={child.name}
+            item={child}
+            grandTotal={grandTotal}
+            currency={currency}
+          />
+        ))}
+        {item.own > 0 && item.children.length > 0 && (
+          <p className='pl-4 text-xs text-gray-500 dark:text-gray-400'>
+            {formatCurrency(item.own, currency)} not in a subcategory
+          </p>
+        )}
+      </div>
+    </details>
+  );
+};
 
 const ExpenseStats = async () => {
   try {
     // Fetch both average and range data
-    const [userRecordResult, rangeResult] = await Promise.all([
+    const [userRecordResult, rangeResult, breakdownResult] = await Promise.all([
       getUserRecord(),
       getBestWorstExpense(),
+      getCategoryBreakdown(),
     ]);
 
-    const { record, daysWithRecords } = userRecordResult;
+    const { record, daysWithRecords, missingRates } = userRecordResult;
     const { bestExpense, worstExpense } = rangeResult;
+    const categoryTotals = breakdownResult.totals || [];
+    const grandTotal = categoryTotals.reduce((sum, item) => sum + item.total, 0);
+    const currency = userRecordResult.currency || rangeResult.currency || 'USD';
 
     // Calculate average expense
     const validRecord = record || 0;
@@ -43,7 +113,7 @@ const ExpenseStats = async () => {
                 Average Daily Spending
               </p>
               <div className='text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
-                ${averageExpense.toFixed(2)}
+                {formatCurrency(averageExpense, currency)}
               </div>
               <div className='inline-flex items-center gap-2 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 px-2 py-1 rounded-full text-xs font-medium'>
                 <span className='w-1.5 h-1.5 bg-emerald-500 dark:bg-emerald-400 rounded-full'></span>
@@ -67,7 +137,9 @@ const ExpenseStats = async () => {
                     Highest
                   </h4>
                   <p className='text-lg font-bold text-red-600 dark:text-red-300'>
-                    {bestExpense !== undefined ? `$${bestExpense}` : 'No data'}
+                    {bestExpense !== undefined
+                      ? formatCurrency(bestExpense, currency)
+                      : 'No data'}
                   </p>
                 </div>
               </div>
@@ -87,13 +159,39 @@ const ExpenseStats = async () => {
                   </h4>
                   <p className='text-lg font-bold text-green-600 dark:text-green-300'>
                     {worstExpense !== undefined
-                      ? `$${worstExpense}`
+                      ? formatCurrency(worstExpense, currency)
                       : 'No data'}
                   </p>
                 </div>
               </div>
             </div>
           </div>
+
+          {/* Spending by category, rolled up to top-level categories */}
+          {categoryTotals.length > 0 && (
+            <div className='space-y-2 pt-1'>
+              <p className='text-xs font-medium text-gray-600 dark:text-gray-300 tracking-wide uppercase'>
+                By Category
+              </p>
+              {categoryTotals.map((item) => (
+                <CategoryTotalRow
+                  key={item.name}
+                  item={item}
+                  grandTotal={grandTotal}
+                  currency={currency}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Currencies without an exchange rate are left out of totals */}
+          {missingRates && missingRates.length > 0 && (
+            <p className='text-xs text-yellow-700 dark:text-yellow-300 bg-yellow-50/80 dark:bg-yellow-900/20 p-2 rounded-lg'>
+              No exchange rate for {missingRates.join(', ')}, so those
+              expenses are left out of totals. Add one in Settings to convert
+              them to {currency}.
+            </p>
+          )}
         </div>
       </div>
     );
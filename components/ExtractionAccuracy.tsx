@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import getExtractionAccuracy from '@/app/actions/getExtractionAccuracy';
+import { EXTRACTION_FIELDS } from '@/lib/extractionAccuracy';
+import {
+  ExtractionAccuracyRow,
+  FieldAccuracy,
+} from '@/types/ExtractionAccuracy';
+
+const selectClassName =
+  'h-8 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100';
+
+// Colour an accuracy cell from green (kept as read) to red (mostly corrected)
+const getAccuracyColor = (accuracy: number) => {
+  if (accuracy >= 0.9) return 'text-emerald-600 dark:text-emerald-400';
+  if (accuracy >= 0.7) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+const AccuracyCell = ({ value }: { value: FieldAccuracy }) =>
+  value.reviewed === 0 ? (
+    <span className='text-gray-400 dark:text-gray-500'>—</span>
+  ) : (
+    <span
+      className={getAccuracyColor(value.accuracy)}
+      title={`${value.corrected} of ${value.reviewed} corrected`}
+    >
+      {Math.round(value.accuracy * 100)}%
+    </span>
+  );
+
+const ExtractionAccuracy = () => {
+  const [months, setMonths] = useState(6);
+  const [rows, setRows] = useState<ExtractionAccuracyRow[]>([]);
+  const [overall, setOverall] = useState<FieldAccuracy[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadAccuracy = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getExtractionAccuracy(months);
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setRows(result.rows || []);
+      setOverall(result.overall || []);
+      setError(null);
+    }
+    setIsLoading(false);
+  }, [months]);
+
+  useEffect(() => {
+    loadAccuracy();
+  }, [loadAccuracy]);
+
+  // Refresh when a receipt is confirmed
+  useEffect(() => {
+    window.addEventListener('recordAdded', loadAccuracy);
+    return () => window.removeEventListener('recordAdded', loadAccuracy);
+  }, [loadAccuracy]);
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-6'>
+        <div className='flex items-center gap-2 sm:gap-3'>
+          <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+            <span className='text-white text-sm sm:text-lg'>🎯</span>
+          </div>
+          <div>
+            <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
+              Receipt Scanning Accuracy
+            </h3>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+              Share of confirmed receipts where each field was kept as read
+            </p>
+          </div>
+        </div>
+        <select
+          value={months}
+          onChange={(e) => setMonths(parseInt(e.target.value))}
+          aria-label='Months'
+          className={selectClassName}
+        >
+          <option value={3}>Last 3 months</option>
+          <option value={6}>Last 6 months</option>
+          <option value={12}>Last 12 months</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className='mb-4 p-3 rounded-xl border-l-4 bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200 text-sm'>
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+          <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+          Loading accuracy...
+        </div>
+      ) : rows.length === 0 ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>
+          No confirmed receipts yet. Accuracy is measured each time you save
+          an expense from a scanned receipt.
+        </p>
+      ) : (
+        <div className='overflow-x-auto'>
+          <table className='w-full text-sm'>
+            <thead>
+              <tr className='text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700'>
+                <th className='py-2 pr-3 font-medium'>Month</th>
+                <th className='py-2 pr-3 font-medium text-right'>Receipts</th>
+                {EXTRACTION_FIELDS.map(({ field, label }) => (
+                  <th key={field} className='py-2 pr-3 font-medium text-right'>
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-100 dark:divide-gray-700'>
+              {rows.map((row) => (
+                <tr key={row.period} className='text-gray-800 dark:text-gray-200'>
+                  <td className='py-2 pr-3 font-medium'>{row.period}</td>
+                  <td className='py-2 pr-3 text-right'>
+                    {row.fields[0]?.reviewed || 0}
+                  </td>
+                  {row.fields.map((value) => (
+                    <td key={value.field} className='py-2 pr-3 text-right'>
+                      <AccuracyCell value={value} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className='border-t-2 border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-gray-100'>
+                <td className='py-2 pr-3'>All</td>
+                <td className='py-2 pr-3 text-right'>
+                  {overall[0]?.reviewed || 0}
+                </td>
+                {overall.map((value) => (
+                  <td key={value.field} className='py-2 pr-3 text-right'>
+                    <AccuracyCell value={value} />
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionAccuracy;
@@ -0,0 +1,442 @@
+'use client';
+
+import { useState } from 'react';
+import previewImport from '@/app/actions/previewImport';
+import commitImport from '@/app/actions/commitImport';
+import { parseCsv } from '@/lib/csv';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_DECIMAL_SEPARATORS,
+  guessColumn,
+} from '@/lib/importRecords';
+import { SUPPORTED_CURRENCIES, formatCurrency } from '@/lib/currency';
+import {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportPreviewRow,
+} from '@/types/Import';
+
+type MappedField = 'text' | 'amount' | 'category' | 'date';
+
+const FIELDS: { field: MappedField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'text', label: 'Description', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'category', label: 'Category', required: false },
+];
+
+const inputClassName =
+  'w-full px-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 text-sm shadow-sm';
+
+const labelClassName =
+  'flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide';
+
+const formatDate = (date: string): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    timeZone: 'UTC',
+  });
+
+const ImportRecords = ({ baseCurrency = 'USD' }: { baseCurrency?: string }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<{ [key in MappedField]: number }>({
+    text: -1,
+    amount: -1,
+    category: -1,
+    date: -1,
+  });
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [decimalSeparator, setDecimalSeparator] =
+    useState<ImportDecimalSeparator>('auto');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [autoCategorize, setAutoCategorize] = useState(true);
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<'success' | 'error' | null>(null);
+
+  const showError = (message: string) => {
+    setAlertMessage(`Error: ${message}`);
+    setAlertType('error');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      showError('The file needs a header row and at least one data row');
+      return;
+    }
+
+    const [headerRow, ...rest] = rows;
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setDataRows(rest);
+    setMapping({
+      text: guessColumn(headerRow, 'text'),
+      amount: guessColumn(headerRow, 'amount'),
+      category: guessColumn(headerRow, 'category'),
+      date: guessColumn(headerRow, 'date'),
+    });
+    setPreview(null);
+    setAlertMessage(null);
+  };
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    setAlertMessage(null);
+    try {
+      const cell = (row: string[], field: MappedField) =>
+        mapping[field] >= 0 ? row[mapping[field]] || '' : '';
+
+      const result = await previewImport(
+        dataRows.map((row) => ({
+          text: cell(row, 'text'),
+          amount: cell(row, 'amount'),
+          category: cell(row, 'category'),
+          date: cell(row, 'date'),
+        })),
+        { dateFormat, decimalSeparator, currency, autoCategorize }
+      );
+
+      if (result.error) {
+        showError(result.error);
+      } else {
+        const rows = result.rows || [];
+        setPreview(rows);
+        // Valid rows are selected by default, likely duplicates are not
+        setSelected(
+          new Set(
+            rows
+              .map((row, index) => (!row.error && !row.duplicate ? index : -1))
+              .filter((index) => index >= 0)
+          )
+        );
+      }
+    } catch {
+      showError('Failed to preview the import');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsLoading(true);
+    setAlertMessage(null);
+    try {
+      const result = await commitImport(
+        preview
+          .filter((_, index) => selected.has(index))
+          .map(({ text, amount, currency, category, date }) => ({
+            text,
+            amount,
+            currency,
+            category,
+            date,
+          }))
+      );
+
+      if (result.error) {
+        showError(result.error);
+      } else {
+        setAlertMessage(
+          `Imported ${result.count} expense${result.count === 1 ? '' : 's'}`
+        );
+        setAlertType('success');
+        setPreview(null);
+        setHeaders([]);
+        setDataRows([]);
+        setFileName(null);
+        window.dispatchEvent(new CustomEvent('recordAdded'));
+      }
+    } catch {
+      showError('Failed to import expenses');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const isMappingComplete = FIELDS.every(
+    ({ field, required }) => !required || mapping[field] >= 0
+  );
+  const duplicateCount = preview
+    ? preview.filter((row) => row.duplicate).length
+    : 0;
+  const errorCount = preview ? preview.filter((row) => row.error).length : 0;
+
+  return (
+    <div className='space-y-4 sm:space-y-6'>
+      {/* File and column mapping */}
+      <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+        <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+          <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+            <span className='text-white text-sm sm:text-lg'>📥</span>
+          </div>
+          <div>
+            <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight'>
+              Import from CSV
+            </h3>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+              Spreadsheets and bank statement exports
+            </p>
+          </div>
+        </div>
+
+        <div className='space-y-4'>
+          <div className='space-y-1.5'>
+            <label htmlFor='import-file' className={labelClassName}>
+              CSV File
+            </label>
+            <input
+              id='import-file'
+              type='file'
+              accept='.csv,text/csv'
+              onChange={handleFileChange}
+              className='block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-emerald-50 file:text-emerald-700 dark:file:bg-emerald-900/40 dark:file:text-emerald-200'
+            />
+            {fileName && (
+              <p className='text-xs text-gray-500 dark:text-gray-400'>
+                {fileName}: {dataRows.length} row
+                {dataRows.length === 1 ? '' : 's'}
+              </p>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <>
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4'>
+                {FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className='space-y-1.5'>
+                    <label htmlFor={`import-${field}`} className={labelClassName}>
+                      {label}{' '}
+                      {!required && (
+                        <span className='font-normal text-gray-400'>(optional)</span>
+                      )}
+                    </label>
+                    <select
+                      id={`import-${field}`}
+                      value={mapping[field]}
+                      onChange={(e) =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          [field]: parseInt(e.target.value),
+                        }))
+                      }
+                      className={inputClassName}
+                    >
+                      <option value={-1}>{required ? 'Choose a column' : 'None'}</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div className='space-y-1.5'>
+                  <label htmlFor='import-date-format' className={labelClassName}>
+                    Date Format
+                  </label>
+                  <select
+                    id='import-date-format'
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                    className={inputClassName}
+                  >
+                    {IMPORT_DATE_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className='space-y-1.5'>
+                  <label htmlFor='import-decimal-separator' className={labelClassName}>
+                    Decimal Separator
+                  </label>
+                  <select
+                    id='import-decimal-separator'
+                    value={decimalSeparator}
+                    onChange={(e) =>
+                      setDecimalSeparator(e.target.value as ImportDecimalSeparator)
+                    }
+                    className={inputClassName}
+                  >
+                    {IMPORT_DECIMAL_SEPARATORS.map((separator) => (
+                      <option key={separator.value} value={separator.value}>
+                        {separator.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className='space-y-1.5'>
+                  <label htmlFor='import-currency' className={labelClassName}>
+                    Currency
+                  </label>
+                  <select
+                    id='import-currency'
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className={inputClassName}
+                  >
+                    {SUPPORTED_CURRENCIES.map((info) => (
+                      <option key={info.code} value={info.code}>
+                        {info.code} · {info.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300'>
+                <input
+                  type='checkbox'
+                  checked={autoCategorize}
+                  onChange={(e) => setAutoCategorize(e.target.checked)}
+                  className='rounded border-gray-300 text-emerald-600 focus:ring-emerald-500'
+                />
+                Suggest categories with AI when the file has none
+              </label>
+
+              <button
+                type='button'
+                onClick={handlePreview}
+                disabled={!isMappingComplete || isLoading}
+                className='w-full bg-gradient-to-r from-emerald-600 via-green-500 to-teal-500 hover:from-emerald-700 hover:via-green-600 hover:to-teal-600 text-white px-4 py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transition-all duration-300 text-sm disabled:opacity-50'
+              >
+                {isLoading && !preview ? 'Reading rows...' : 'Preview Import'}
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Alert Message */}
+        {alertMessage && (
+          <div
+            className={`mt-4 p-3 rounded-xl border-l-4 text-sm font-medium ${
+              alertType === 'success'
+                ? 'bg-green-50/80 dark:bg-green-900/20 border-l-green-500 text-green-800 dark:text-green-200'
+                : 'bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200'
+            }`}
+          >
+            {alertMessage}
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      {preview && (
+        <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+          <div className='flex flex-wrap items-center justify-between gap-2 mb-4'>
+            <div>
+              <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
+                Preview
+              </h3>
+              <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+                {selected.size} of {preview.length} selected
+                {duplicateCount > 0 && ` · ${duplicateCount} possible duplicates`}
+                {errorCount > 0 && ` · ${errorCount} with errors`}
+              </p>
+            </div>
+            <button
+              type='button'
+              onClick={handleImport}
+              disabled={selected.size === 0 || isLoading}
+              className='h-9 px-4 bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 disabled:from-gray-300 disabled:to-gray-300 text-white rounded-md text-sm font-medium'
+            >
+              {isLoading ? 'Importing...' : `Import ${selected.size}`}
+            </button>
+          </div>
+
+          <div className='max-h-[480px] overflow-y-auto'>
+            <table className='w-full text-sm'>
+              <thead className='sticky top-0 bg-gray-50 dark:bg-gray-800 text-left text-xs text-gray-500 dark:text-gray-400'>
+                <tr>
+                  <th className='p-2'></th>
+                  <th className='p-2'>Date</th>
+                  <th className='p-2'>Description</th>
+                  <th className='p-2'>Category</th>
+                  <th className='p-2 text-right'>Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row, index) => (
+                  <tr
+                    key={row.line}
+                    className={`border-t border-gray-100 dark:border-gray-700 ${
+                      row.error ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <td className='p-2 align-top'>
+                      <input
+                        type='checkbox'
+                        checked={selected.has(index)}
+                        disabled={!!row.error}
+                        onChange={() => toggleRow(index)}
+                        aria-label={`Import row ${row.line}`}
+                        className='rounded border-gray-300 text-emerald-600 focus:ring-emerald-500'
+                      />
+                    </td>
+                    <td className='p-2 align-top whitespace-nowrap text-gray-700 dark:text-gray-300'>
+                      {row.date ? formatDate(row.date) : '—'}
+                    </td>
+                    <td className='p-2 align-top text-gray-900 dark:text-gray-100'>
+                      {row.text || '—'}
+                      {row.error && (
+                        <span className='block text-xs text-red-600 dark:text-red-400'>
+                          Line {row.line}: {row.error}
+                        </span>
+                      )}
+                      {row.duplicate && (
+                        <span className='block text-xs text-yellow-700 dark:text-yellow-300'>
+                          Possible duplicate of &quot;{row.duplicate.text}&quot;
+                          {row.duplicate.source === 'file'
+                            ? ' earlier in this file'
+                            : ' already recorded'}
+                        </span>
+                      )}
+                    </td>
+                    <td className='p-2 align-top text-gray-700 dark:text-gray-300'>
+                      {row.category}
+                      {row.categorySource === 'ai' && (
+                        <span className='ml-1 text-xs text-emerald-600 dark:text-emerald-400'>
+                          AI
+                        </span>
+                      )}
+                    </td>
+                    <td className='p-2 align-top text-right font-semibold text-gray-900 dark:text-gray-100 whitespace-nowrap'>
+                      {formatCurrency(row.amount, row.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportRecords;
@@ -0,0 +1,171 @@
+'use client';
+
+import { formatCurrency } from '@/lib/currency';
+import { normalizeLineItems, reconcileLineItems } from '@/lib/lineItems';
+import { LineItem } from '@/types/Receipt';
+
+// A line item while it's being edited; numbers stay strings until saved
+export interface LineItemRow {
+  name: string;
+  quantity: string;
+  unitPrice: string;
+  total: string;
+}
+
+export const toLineItemRows = (items: LineItem[]): LineItemRow[] =>
+  items.map((item) => ({
+    name: item.name,
+    quantity: item.quantity.toString(),
+    unitPrice: item.unitPrice?.toString() ?? '',
+    total: item.total.toString(),
+  }));
+
+export const fromLineItemRows = (rows: LineItemRow[]): LineItem[] =>
+  normalizeLineItems(rows);
+
+const cellClassName =
+  'w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm';
+
+// Editable table of a receipt's items, checked against the expense amount
+export default function LineItemsEditor({
+  rows,
+  onChange,
+  total,
+  currency,
+  onUseSum,
+}: {
+  rows: LineItemRow[];
+  onChange: (rows: LineItemRow[]) => void;
+  total: number | null;
+  currency: string;
+  onUseSum: (sum: number) => void;
+}) {
+  const reconciliation = reconcileLineItems(fromLineItemRows(rows), total);
+
+  const updateRow = (index: number, field: keyof LineItemRow, value: string) =>
+    onChange(
+      rows.map((row, i) => {
+        if (i !== index) return row;
+        const updated = { ...row, [field]: value };
+        // Keep the line total in step with quantity × unit price
+        if (field === 'quantity' || field === 'unitPrice') {
+          const quantity = parseFloat(updated.quantity);
+          const unitPrice = parseFloat(updated.unitPrice);
+          if (!isNaN(quantity) && !isNaN(unitPrice)) {
+            updated.total = (Math.round(quantity * unitPrice * 100) / 100).toString();
+          }
+        }
+        return updated;
+      })
+    );
+
+  return (
+    <div className="space-y-2">
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="pb-1 pr-2 font-medium">Artículo</th>
+                <th className="pb-1 pr-2 font-medium w-16">Cant.</th>
+                <th className="pb-1 pr-2 font-medium w-24">Precio</th>
+                <th className="pb-1 pr-2 font-medium w-24">Total</th>
+                <th className="pb-1 w-6"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateRow(index, 'name', e.target.value)}
+                      aria-label={`Artículo ${index + 1}`}
+                      className={cellClassName}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={row.quantity}
+                      onChange={(e) => updateRow(index, 'quantity', e.target.value)}
+                      aria-label={`Cantidad ${index + 1}`}
+                      className={cellClassName}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={row.unitPrice}
+                      onChange={(e) => updateRow(index, 'unitPrice', e.target.value)}
+                      aria-label={`Precio ${index + 1}`}
+                      className={cellClassName}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={row.total}
+                      onChange={(e) => updateRow(index, 'total', e.target.value)}
+                      aria-label={`Total ${index + 1}`}
+                      className={cellClassName}
+                    />
+                  </td>
+                  <td className="py-1 text-center">
+                    <button
+                      type="button"
+                      onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                      aria-label={`Quitar artículo ${index + 1}`}
+                      className="text-gray-400 hover:text-red-500 text-lg"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...rows, { name: '', quantity: '1', unitPrice: '', total: '' }])
+          }
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          + Añadir artículo
+        </button>
+        {rows.length > 0 &&
+          (reconciliation.isReconciled ? (
+            <span className="text-green-600 dark:text-green-400">
+              ✓ Los artículos suman el total
+            </span>
+          ) : (
+            <span className="flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
+              Los artículos suman {formatCurrency(reconciliation.sum, currency)}
+              {total !== null &&
+                ` (${reconciliation.difference > 0 ? 'faltan' : 'sobran'} ${formatCurrency(
+                  Math.abs(reconciliation.difference),
+                  currency
+                )})`}
+              <button
+                type="button"
+                onClick={() => onUseSum(reconciliation.sum)}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Usar esta suma
+              </button>
+            </span>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -64,6 +64,37 @@ export default function Navbar() {
               <span className='relative z-10'>Contact</span>
               <div className='absolute inset-0 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200'></div>
             </Link>
+
+            <SignedIn>
+              <Link
+                href='/recurring'
+                className='relative text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 px-3 lg:px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 group'
+              >
+                <span className='relative z-10'>Recurring</span>
+                <div className='absolute inset-0 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200'></div>
+              </Link>
+              <Link
+                href='/import'
+                className='relative text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 px-3 lg:px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 group'
+              >
+                <span className='relative z-10'>Import</span>
+                <div className='absolute inset-0 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200'></div>
+              </Link>
+              <Link
+                href='/reports'
+                className='relative text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 px-3 lg:px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 group'
+              >
+                <span className='relative z-10'>Reports</span>
+                <div className='absolute inset-0 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200'></div>
+              </Link>
+              <Link
+                href='/settings'
+                className='relative text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 px-3 lg:px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 group'
+              >
+                <span className='relative z-10'>Settings</span>
+                <div className='absolute inset-0 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200'></div>
+              </Link>
+            </SignedIn>
           </div>
 
           {/* Right Section */}
@@ -182,6 +213,40 @@ export default function Navbar() {
               <span className='text-base'>📞</span>
               <span>Contact</span>
             </Link>
+            <SignedIn>
+              <Link
+                href='/recurring'
+                className='flex items-center gap-3 px-3 py-2.5 rounded-lg text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 text-sm font-medium transition-all duration-200 active:scale-95'
+                onClick={closeMobileMenu}
+              >
+                <span className='text-base'>🔁</span>
+                <span>Recurring</span>
+              </Link>
+              <Link
+                href='/import'
+                className='flex items-center gap-3 px-3 py-2.5 rounded-lg text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 text-sm font-medium transition-all duration-200 active:scale-95'
+                onClick={closeMobileMenu}
+              >
+                <span className='text-base'>📥</span>
+                <span>Import</span>
+              </Link>
+              <Link
+                href='/reports'
+                className='flex items-center gap-3 px-3 py-2.5 rounded-lg text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 text-sm font-medium transition-all duration-200 active:scale-95'
+                onClick={closeMobileMenu}
+              >
+                <span className='text-base'>🧾</span>
+                <span>Reports</span>
+              </Link>
+              <Link
+                href='/settings'
+                className='flex items-center gap-3 px-3 py-2.5 rounded-lg text-gray-700 dark:text-gray-300 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-emerald-50/50 dark:hover:bg-emerald-900/20 text-sm font-medium transition-all duration-200 active:scale-95'
+                onClick={closeMobileMenu}
+              >
+                <span className='text-base'>⚙️</span>
+                <span>Settings</span>
+              </Link>
+            </SignedIn>
 
             {/* Mobile Authentication */}
             <div className='pt-3 border-t border-gray-200/50 dark:border-gray-600/50'>
@@ -0,0 +1,94 @@
+'use client';
+import { useState } from 'react';
+import { RecordAttachment } from '@/types/Record';
+import { getAttachmentUrl } from '@/lib/attachments';
+
+// Thumbnail of a record's original receipt, opening a viewer when clicked
+const ReceiptAttachment = ({
+  attachment,
+  size = 'md',
+}: {
+  attachment: RecordAttachment;
+  size?: 'sm' | 'md';
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileUrl = getAttachmentUrl(attachment.uploadId);
+  const isPDF = attachment.contentType === 'application/pdf';
+  const sizeClass = size === 'sm' ? 'w-8 h-8' : 'w-10 h-10 sm:w-12 sm:h-12';
+
+  return (
+    <>
+      <button
+        type='button'
+        onClick={() => setIsOpen(true)}
+        className={`${sizeClass} shrink-0 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 flex items-center justify-center hover:ring-2 hover:ring-emerald-500/50`}
+        title={`View receipt: ${attachment.fileName}`}
+        aria-label='View receipt'
+      >
+        {attachment.hasThumbnail ? (
+          <img
+            src={getAttachmentUrl(attachment.uploadId, true)}
+            alt={attachment.fileName}
+            className='w-full h-full object-cover'
+            loading='lazy'
+          />
+        ) : (
+          <span className='text-base'>{isPDF ? '📄' : '🧾'}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4'
+          onClick={() => setIsOpen(false)}
+        >
+          <div
+            className='bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col text-left'
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className='flex items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700'>
+              <p className='text-sm font-semibold text-gray-900 dark:text-gray-100 truncate'>
+                {attachment.fileName}
+              </p>
+              <div className='flex items-center gap-2 shrink-0'>
+                <a
+                  href={fileUrl}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='text-xs text-blue-600 dark:text-blue-400 hover:underline'
+                >
+                  Open original
+                </a>
+                <button
+                  type='button'
+                  onClick={() => setIsOpen(false)}
+                  className='p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors'
+                  aria-label='Close'
+                >
+                  <span className='text-gray-500 dark:text-gray-400 text-xl'>×</span>
+                </button>
+              </div>
+            </div>
+            <div className='flex-1 overflow-auto p-4 flex items-center justify-center'>
+              {isPDF ? (
+                <iframe
+                  src={fileUrl}
+                  title={attachment.fileName}
+                  className='w-full h-[70vh] rounded-lg'
+                />
+              ) : (
+                <img
+                  src={fileUrl}
+                  alt={attachment.fileName}
+                  className='max-w-full max-h-[75vh] object-contain rounded-lg'
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReceiptAttachment;
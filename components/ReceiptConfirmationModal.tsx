@@ -1,8 +1,23 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import addExpenseRecord from '@/app/actions/addExpenseRecord';
+import getReceiptOcr from '@/app/actions/getReceiptOcr';
+import saveUploadLineItems from '@/app/actions/saveUploadLineItems';
 import { ExtractedData } from '@/lib/heuristicExtraction';
+import { ConfidenceField, LOW_CONFIDENCE } from '@/lib/fieldConfidence';
+import { OcrWord } from '@/lib/receiptLayout';
+import { ReceiptImageField } from '@/lib/receiptImageFields';
+import { SUPPORTED_CURRENCIES, normalizeCurrencyCode } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+import TagInput from '@/components/TagInput';
+import ReceiptImageFields from '@/components/ReceiptImageFields';
+import SplitEditor, { SplitLine, toSplitsJson } from '@/components/SplitEditor';
+import LineItemsEditor, {
+  LineItemRow,
+  fromLineItemRows,
+  toLineItemRows,
+} from '@/components/LineItemsEditor';
 
 interface ReceiptConfirmationModalProps {
   isOpen: boolean;
@@ -10,6 +25,7 @@ interface ReceiptConfirmationModalProps {
   extracted: ExtractedData;
   category: string;
   uploadId: string;
+  baseCurrency?: string;
   onSuccess: () => void;
 }
 
@@ -19,23 +35,81 @@ export default function ReceiptConfirmationModal({
   extracted,
   category,
   uploadId,
+  baseCurrency = 'USD',
   onSuccess,
 }: ReceiptConfirmationModalProps) {
-  // Log upload ID for debugging
-  console.log('Processing upload:', uploadId);
-  
   const [formData, setFormData] = useState({
     description: extracted.description || '',
     provider: extracted.provider || '',
     amount: extracted.amount?.toString() || '',
+    currency: normalizeCurrencyCode(extracted.currency, baseCurrency),
     date: extracted.date || new Date().toISOString().split('T')[0],
     category,
   });
+  const [tags, setTags] = useState<string[]>([]);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]); // Empty unless split
+  const [lineItemRows, setLineItemRows] = useState<LineItemRow[]>(
+    toLineItemRows(extracted.lineItems || [])
+  );
+  const [breakdown, setBreakdown] = useState({
+    subtotal: extracted.breakdown?.subtotal?.toString() ?? '',
+    taxAmount: extracted.breakdown?.taxAmount?.toString() ?? '',
+    taxRate: extracted.breakdown?.taxRate?.toString() ?? '',
+    tip: extracted.breakdown?.tip?.toString() ?? '',
+    discount: extracted.breakdown?.discount?.toString() ?? '',
+  });
+
+  // Subtotal + tax + tip - discount, to compare with the total
+  const breakdownTotal = breakdown.subtotal
+    ? (parseFloat(breakdown.subtotal) || 0) +
+      (parseFloat(breakdown.taxAmount) || 0) +
+      (parseFloat(breakdown.tip) || 0) -
+      (parseFloat(breakdown.discount) || 0)
+    : null;
+  const breakdownMismatch =
+    breakdownTotal !== null &&
+    !!formData.amount &&
+    Math.abs(breakdownTotal - parseFloat(formData.amount)) > 0.01;
+  const { leafCategories, getLabel } = useCategories();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Word boxes of photographed receipts, to show where each field was read
+  const [ocr, setOcr] = useState<{ words: OcrWord[]; imageUrl: string } | null>(null);
+  const [activeField, setActiveField] = useState<ReceiptImageField | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getReceiptOcr(uploadId).then((result) => {
+      if (!cancelled && result.words?.length && result.imageUrl) {
+        setOcr({ words: result.words, imageUrl: result.imageUrl });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, uploadId]);
+
+  // Low-confidence fields stay flagged until the user edits them
+  const [checkedFields, setCheckedFields] = useState<string[]>([]);
+  const needsCheck = (field: ConfidenceField) =>
+    !!extracted.confidence &&
+    extracted.confidence[field] < LOW_CONFIDENCE &&
+    !checkedFields.includes(field);
+  const fieldColors = (field: ConfidenceField) =>
+    needsCheck(field)
+      ? 'border-yellow-400 dark:border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20'
+      : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700';
+  const flaggedFields = ([
+    ['description', 'Descripción'],
+    ['provider', 'Proveedor'],
+    ['amount', 'Monto'],
+    ['date', 'Fecha'],
+  ] as const).filter(([field]) => needsCheck(field));
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setCheckedFields(prev => (prev.includes(field) ? prev : [...prev, field]));
     setError(null);
   };
 
@@ -53,14 +127,29 @@ export default function ReceiptConfirmationModal({
       const submitFormData = new FormData();
       submitFormData.append('text', formData.description);
       submitFormData.append('amount', formData.amount);
+      submitFormData.append('currency', formData.currency);
       submitFormData.append('category', formData.category);
       submitFormData.append('date', formData.date);
+      Object.entries(breakdown).forEach(([field, value]) =>
+        submitFormData.append(field, value)
+      );
+      submitFormData.append('tags', tags.join(','));
+      submitFormData.append('splits', toSplitsJson(splitLines));
+      submitFormData.append('uploadId', uploadId);
 
       const result = await addExpenseRecord(submitFormData);
 
       if (result.error) {
         setError(result.error);
       } else {
+        // The expense is saved either way, so a failure here is only logged
+        const lineItemsResult = await saveUploadLineItems(
+          uploadId,
+          fromLineItemRows(lineItemRows)
+        );
+        if (lineItemsResult.error) {
+          console.error('Error saving line items:', lineItemsResult.error);
+        }
         onSuccess();
         onClose();
       }
@@ -100,18 +189,37 @@ export default function ReceiptConfirmationModal({
             </button>
           </div>
 
+          {/* Receipt image with the words each field was read from */}
+          {ocr && (
+            <div className="mb-6">
+              <ReceiptImageFields
+                imageUrl={ocr.imageUrl}
+                words={ocr.words}
+                values={formData}
+                activeField={activeField}
+                onPick={handleInputChange}
+              />
+            </div>
+          )}
+
           {/* Form Fields */}
           <div className="space-y-4">
             {/* Description */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Descripción *
+                {needsCheck('description') && (
+                  <span className="ml-2 text-xs font-normal text-yellow-700 dark:text-yellow-400">
+                    Revisar
+                  </span>
+                )}
               </label>
               <input
                 type="text"
                 value={formData.description}
                 onChange={(e) => handleInputChange('description', e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                onFocus={() => setActiveField('description')}
+                className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 ${fieldColors('description')}`}
                 placeholder="Descripción del gasto"
               />
             </div>
@@ -120,12 +228,18 @@ export default function ReceiptConfirmationModal({
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Proveedor
+                {needsCheck('provider') && (
+                  <span className="ml-2 text-xs font-normal text-yellow-700 dark:text-yellow-400">
+                    Revisar
+                  </span>
+                )}
               </label>
               <input
                 type="text"
                 value={formData.provider}
                 onChange={(e) => handleInputChange('provider', e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                onFocus={() => setActiveField('provider')}
+                className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 ${fieldColors('provider')}`}
                 placeholder="Nombre del proveedor"
               />
             </div>
@@ -135,50 +249,197 @@ export default function ReceiptConfirmationModal({
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Monto *
+                  {needsCheck('amount') && (
+                    <span className="ml-2 text-xs font-normal text-yellow-700 dark:text-yellow-400">
+                      Revisar
+                    </span>
+                  )}
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => handleInputChange('amount', e.target.value)}
-                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
-                  placeholder="0.00"
-                />
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Moneda"
+                    value={formData.currency}
+                    onChange={(e) => handleInputChange('currency', e.target.value)}
+                    className="px-3 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => handleInputChange('amount', e.target.value)}
+                    onFocus={() => setActiveField('amount')}
+                    className={`flex-1 min-w-0 px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 ${fieldColors('amount')}`}
+                    placeholder="0.00"
+                  />
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Fecha *
+                  {needsCheck('date') && (
+                    <span className="ml-2 text-xs font-normal text-yellow-700 dark:text-yellow-400">
+                      Revisar
+                    </span>
+                  )}
                 </label>
                 <input
                   type="date"
                   value={formData.date}
                   onChange={(e) => handleInputChange('date', e.target.value)}
-                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  onFocus={() => setActiveField('date')}
+                  className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-gray-100 ${fieldColors('date')}`}
+                />
+                {extracted.dateExplanation && formData.date === extracted.date && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {extracted.dateExplanation}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Category, or split lines when the receipt covers several */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Categoría
+                </label>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSplitLines(
+                      splitLines.length > 0
+                        ? []
+                        : [
+                            { category: formData.category, amount: formData.amount },
+                            { category: '', amount: '' },
+                          ]
+                    )
+                  }
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {splitLines.length > 0 ? 'Una sola categoría' : 'Dividir entre categorías'}
+                </button>
+              </div>
+              {splitLines.length > 0 ? (
+                <SplitEditor
+                  lines={splitLines}
+                  onChange={(lines) => {
+                    setSplitLines(lines);
+                    setError(null);
+                  }}
+                  total={parseFloat(formData.amount) || 0}
+                  currency={formData.currency}
+                  inputClassName="px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                 />
+              ) : (
+                <select
+                  value={formData.category}
+                  onChange={(e) => handleInputChange('category', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  {leafCategories.map((option) => (
+                    <option key={option.id} value={option.name}>
+                      {option.icon} {getLabel(option.name)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* Subtotal, tax, tip and discount */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Desglose
+              </label>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {([
+                  ['subtotal', 'Subtotal'],
+                  ['taxAmount', 'IVA'],
+                  ['taxRate', 'IVA %'],
+                  ['tip', 'Propina'],
+                  ['discount', 'Descuento'],
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      {label}
+                    </span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={breakdown[field]}
+                      onChange={(e) =>
+                        setBreakdown((prev) => ({ ...prev, [field]: e.target.value }))
+                      }
+                      aria-label={label}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+                    />
+                  </div>
+                ))}
               </div>
+              {breakdownMismatch && (
+                <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+                  Subtotal + IVA + propina − descuento = {breakdownTotal!.toFixed(2)}, pero
+                  el monto es {parseFloat(formData.amount).toFixed(2)}. Si el IVA ya está
+                  incluido en el subtotal, puedes ignorar este aviso.
+                </p>
+              )}
             </div>
 
-            {/* Category */}
+            {/* Line Items, checked against the subtotal when there is one */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Categoría
+                Artículos
               </label>
-              <select
-                value={formData.category}
-                onChange={(e) => handleInputChange('category', e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-              >
-                <option value="Food">Comida</option>
-                <option value="Transportation">Transporte</option>
-                <option value="Entertainment">Entretenimiento</option>
-                <option value="Shopping">Compras</option>
-                <option value="Bills">Facturas</option>
-                <option value="Healthcare">Salud</option>
-                <option value="Other">Otro</option>
-              </select>
+              <LineItemsEditor
+                rows={lineItemRows}
+                onChange={setLineItemRows}
+                total={
+                  breakdown.subtotal
+                    ? parseFloat(breakdown.subtotal)
+                    : formData.amount
+                      ? parseFloat(formData.amount)
+                      : null
+                }
+                currency={formData.currency}
+                onUseSum={(sum) =>
+                  breakdown.subtotal
+                    ? setBreakdown((prev) => ({ ...prev, subtotal: sum.toFixed(2) }))
+                    : handleInputChange('amount', sum.toFixed(2))
+                }
+              />
+            </div>
+
+            {/* Tags */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Etiquetas
+              </label>
+              <TagInput
+                value={tags}
+                onChange={setTags}
+                placeholder="reembolsable, regalo..."
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+              />
             </div>
           </div>
 
+          {/* Fields to check before saving */}
+          {flaggedFields.length > 0 && (
+            <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl">
+              <p className="text-yellow-700 dark:text-yellow-400 text-sm">
+                Revisa {flaggedFields.map(([, label]) => label.toLowerCase()).join(', ')}:
+                la confianza de extracción es baja.
+              </p>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl">
@@ -220,25 +481,25 @@ export default function ReceiptConfirmationModal({
               <div className="grid grid-cols-2 gap-3 text-xs">
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">Monto:</span>
-                  <span className={`font-medium ${extracted.confidence.amount > 0.7 ? 'text-green-600' : 'text-yellow-600'}`}>
+                  <span className={`font-medium ${extracted.confidence.amount < LOW_CONFIDENCE ? 'text-yellow-600' : 'text-green-600'}`}>
                     {Math.round(extracted.confidence.amount * 100)}%
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">Fecha:</span>
-                  <span className={`font-medium ${extracted.confidence.date > 0.7 ? 'text-green-600' : 'text-yellow-600'}`}>
+                  <span className={`font-medium ${extracted.confidence.date < LOW_CONFIDENCE ? 'text-yellow-600' : 'text-green-600'}`}>
                     {Math.round(extracted.confidence.date * 100)}%
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">Proveedor:</span>
-                  <span className={`font-medium ${extracted.confidence.provider > 0.7 ? 'text-green-600' : 'text-yellow-600'}`}>
+                  <span className={`font-medium ${extracted.confidence.provider < LOW_CONFIDENCE ? 'text-yellow-600' : 'text-green-600'}`}>
                     {Math.round(extracted.confidence.provider * 100)}%
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">Descripción:</span>
-                  <span className={`font-medium ${extracted.confidence.description > 0.7 ? 'text-green-600' : 'text-yellow-600'}`}>
+                  <span className={`font-medium ${extracted.confidence.description < LOW_CONFIDENCE ? 'text-yellow-600' : 'text-green-600'}`}>
                     {Math.round(extracted.confidence.description * 100)}%
                   </span>
                 </div>
@@ -0,0 +1,136 @@
+'use client';
+import { useState } from 'react';
+import { OcrWord } from '@/lib/receiptLayout';
+import {
+  ReceiptImageField,
+  locateReceiptFields,
+  pickFieldValue,
+} from '@/lib/receiptImageFields';
+
+const FIELD_STYLES: {
+  [field in ReceiptImageField]: { label: string; box: string; dot: string };
+} = {
+  amount: {
+    label: 'Monto',
+    box: 'border-emerald-500 bg-emerald-500/20',
+    dot: 'bg-emerald-500',
+  },
+  date: {
+    label: 'Fecha',
+    box: 'border-blue-500 bg-blue-500/20',
+    dot: 'bg-blue-500',
+  },
+  provider: {
+    label: 'Proveedor',
+    box: 'border-purple-500 bg-purple-500/20',
+    dot: 'bg-purple-500',
+  },
+  description: {
+    label: 'Descripción',
+    box: 'border-gray-500 bg-gray-500/20',
+    dot: 'bg-gray-500',
+  },
+};
+
+// The image OCR read, with boxes around the words the amount, date and
+// provider were taken from. Clicking a word fills the active field with it
+const ReceiptImageFields = ({
+  imageUrl,
+  words,
+  values,
+  activeField,
+  onPick,
+}: {
+  imageUrl: string;
+  words: OcrWord[];
+  values: { amount: string; date: string; provider: string; currency: string };
+  activeField: ReceiptImageField | null;
+  onPick: (field: ReceiptImageField, value: string) => void;
+}) => {
+  // Word boxes are in the image's own pixels, so they're placed as a share
+  // of its natural size and scale with it
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
+  const located = locateReceiptFields(words, values);
+
+  const toStyle = ({ bbox }: OcrWord) =>
+    size
+      ? {
+          left: `${(bbox.x0 / size.width) * 100}%`,
+          top: `${(bbox.y0 / size.height) * 100}%`,
+          width: `${((bbox.x1 - bbox.x0) / size.width) * 100}%`,
+          height: `${((bbox.y1 - bbox.y0) / size.height) * 100}%`,
+        }
+      : undefined;
+
+  return (
+    <div>
+      <div className='flex flex-wrap items-center gap-x-4 gap-y-1 mb-2 text-xs text-gray-600 dark:text-gray-400'>
+        {(['amount', 'date', 'provider'] as const).map((field) => (
+          <span key={field} className='flex items-center gap-1.5'>
+            <span className={`w-2.5 h-2.5 rounded-sm ${FIELD_STYLES[field].dot}`} />
+            {FIELD_STYLES[field].label}
+            {!located.some((item) => item.field === field) && ' (no encontrado)'}
+          </span>
+        ))}
+      </div>
+      <p className='mb-2 text-xs text-gray-500 dark:text-gray-400'>
+        {activeField
+          ? `Haz clic en una palabra del recibo para usarla como ${FIELD_STYLES[activeField].label.toLowerCase()}`
+          : 'Selecciona un campo y haz clic en una palabra del recibo para asignarla'}
+      </p>
+
+      <div className='max-h-96 overflow-y-auto rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-700'>
+        <div className='relative'>
+          <img
+            src={imageUrl}
+            alt='Recibo'
+            className='w-full h-auto block'
+            onLoad={(e) =>
+              setSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })
+            }
+          />
+          {size &&
+            located.flatMap(({ field, words: fieldWords }) =>
+              fieldWords.map((word, index) => (
+                <div
+                  key={`${field}-${index}`}
+                  className={`absolute border-2 rounded-sm pointer-events-none ${FIELD_STYLES[field].box}`}
+                  style={toStyle(word)}
+                />
+              ))
+            )}
+          {size &&
+            activeField &&
+            words
+              .filter((word) => word.text.trim())
+              .map((word, index) => (
+                <button
+                  key={index}
+                  type='button'
+                  title={word.text}
+                  aria-label={word.text}
+                  onClick={() => {
+                    // Dates like 03/04/2025 and amounts like 1.234 are read
+                    // in the browser's locale and the form's currency
+                    const value = pickFieldValue(activeField, word, words, {
+                      locale: navigator.language,
+                      currency: values.currency,
+                    });
+                    if (value) onPick(activeField, value);
+                  }}
+                  className='absolute rounded-sm hover:bg-yellow-400/40 hover:ring-2 hover:ring-yellow-500'
+                  style={toStyle(word)}
+                />
+              ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptImageFields;
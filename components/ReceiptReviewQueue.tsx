@@ -0,0 +1,354 @@
+'use client';
+
+import { useState } from 'react';
+import addExpenseRecord from '@/app/actions/addExpenseRecord';
+import discardReceipts from '@/app/actions/discardReceipts';
+import ReceiptAttachment from '@/components/ReceiptAttachment';
+import ReceiptConfirmationModal from '@/components/ReceiptConfirmationModal';
+import { useCategories } from '@/contexts/CategoryContext';
+import { ReceiptCandidate } from '@/lib/heuristicExtraction';
+import { normalizeCurrencyCode, SUPPORTED_CURRENCIES } from '@/lib/currency';
+
+// The fields that can be corrected straight from the queue
+interface ReceiptDraft {
+  description: string;
+  amount: string;
+  currency: string;
+  date: string;
+  category: string;
+}
+
+const inputClassName =
+  'h-8 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100';
+
+const toDraft = (
+  receipt: ReceiptCandidate,
+  baseCurrency: string
+): ReceiptDraft => ({
+  description: receipt.extracted.description || '',
+  amount: receipt.extracted.amount?.toString() || '',
+  currency: normalizeCurrencyCode(receipt.extracted.currency, baseCurrency),
+  date: receipt.extracted.date || new Date().toISOString().split('T')[0],
+  category: receipt.category,
+});
+
+const ReceiptReviewQueue = ({
+  receipts,
+  baseCurrency,
+  onChanged,
+}: {
+  receipts: ReceiptCandidate[];
+  baseCurrency: string;
+  onChanged: () => void;
+}) => {
+  const { leafCategories, getLabel } = useCategories();
+  const [drafts, setDrafts] = useState<{ [uploadId: string]: ReceiptDraft }>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rowErrors, setRowErrors] = useState<{ [uploadId: string]: string }>({});
+  const [editing, setEditing] = useState<ReceiptCandidate | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (receipts.length === 0) return null;
+
+  const getDraft = (receipt: ReceiptCandidate) =>
+    drafts[receipt.uploadId] || toDraft(receipt, baseCurrency);
+
+  const updateDraft = (
+    receipt: ReceiptCandidate,
+    field: keyof ReceiptDraft,
+    value: string
+  ) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [receipt.uploadId]: { ...getDraft(receipt), [field]: value },
+    }));
+    setRowErrors((prev) => ({ ...prev, [receipt.uploadId]: '' }));
+  };
+
+  const toggleSelected = (uploadId: string) => {
+    setSelected((prev) =>
+      prev.includes(uploadId)
+        ? prev.filter((id) => id !== uploadId)
+        : [...prev, uploadId]
+    );
+  };
+
+  const allSelected = selected.length === receipts.length;
+
+  // Save one receipt as an expense with the values shown in its row
+  const confirmReceipt = async (receipt: ReceiptCandidate) => {
+    const draft = getDraft(receipt);
+    const formData = new FormData();
+    formData.set('text', draft.description);
+    formData.set('amount', draft.amount);
+    formData.set('currency', draft.currency);
+    formData.set('category', draft.category);
+    formData.set('date', draft.date);
+    Object.entries(receipt.extracted.breakdown || {}).forEach(
+      ([field, value]) => {
+        if (value !== null) formData.set(field, value.toString());
+      }
+    );
+    formData.set('uploadId', receipt.uploadId);
+    return addExpenseRecord(formData);
+  };
+
+  const finish = (text: string) => {
+    setMessage(text);
+    setSelected([]);
+    setIsWorking(false);
+    onChanged();
+  };
+
+  const handleConfirm = async (uploadIds: string[]) => {
+    setIsWorking(true);
+    setMessage(null);
+    const errors: { [uploadId: string]: string } = {};
+    let saved = 0;
+
+    // One at a time, so each receipt's error stays on its own row
+    for (const receipt of receipts.filter((item) =>
+      uploadIds.includes(item.uploadId)
+    )) {
+      const result = await confirmReceipt(receipt);
+      if (result.error) {
+        errors[receipt.uploadId] = result.error;
+      } else {
+        saved++;
+      }
+    }
+
+    setRowErrors(errors);
+    if (saved > 0) {
+      window.dispatchEvent(new CustomEvent('recordAdded'));
+    }
+    finish(
+      `${saved} expense${saved === 1 ? '' : 's'} saved` +
+        (Object.keys(errors).length > 0
+          ? `, ${Object.keys(errors).length} need attention`
+          : '')
+    );
+  };
+
+  const handleDiscard = async (uploadIds: string[]) => {
+    setIsWorking(true);
+    setMessage(null);
+    const result = await discardReceipts(uploadIds);
+    finish(result.error ? `Error: ${result.error}` : result.message || '');
+  };
+
+  return (
+    <div className='mt-6 space-y-3'>
+      <div className='flex flex-wrap items-center justify-between gap-2'>
+        <div>
+          <h4 className='text-sm font-semibold text-gray-900 dark:text-gray-100'>
+            Review Queue ({receipts.length})
+          </h4>
+          <p className='text-xs text-gray-500 dark:text-gray-400'>
+            Check the values read from each receipt, then confirm or discard
+            them
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <label className='flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400'>
+            <input
+              type='checkbox'
+              checked={allSelected}
+              onChange={() =>
+                setSelected(
+                  allSelected ? [] : receipts.map((receipt) => receipt.uploadId)
+                )
+              }
+            />
+            All
+          </label>
+          <button
+            type='button'
+            onClick={() => handleConfirm(selected)}
+            disabled={isWorking || selected.length === 0}
+            className='h-8 px-3 bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 disabled:from-gray-300 disabled:to-gray-300 text-white rounded-md text-xs font-medium'
+          >
+            Confirm ({selected.length})
+          </button>
+          <button
+            type='button'
+            onClick={() => handleDiscard(selected)}
+            disabled={isWorking || selected.length === 0}
+            className='h-8 px-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 rounded-md text-xs font-medium'
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className='text-xs text-gray-600 dark:text-gray-400'>{message}</p>
+      )}
+
+      <ul className='space-y-2'>
+        {receipts.map((receipt) => {
+          const draft = getDraft(receipt);
+          return (
+            <li
+              key={receipt.uploadId}
+              className='p-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white/60 dark:bg-gray-700/40 space-y-2'
+            >
+              <div className='flex items-center gap-2'>
+                <input
+                  type='checkbox'
+                  checked={selected.includes(receipt.uploadId)}
+                  onChange={() => toggleSelected(receipt.uploadId)}
+                  aria-label={`Select ${receipt.fileName}`}
+                />
+                {receipt.attachment && (
+                  <ReceiptAttachment attachment={receipt.attachment} size='sm' />
+                )}
+                <div className='flex-1 min-w-0'>
+                  <p className='text-xs font-medium text-gray-900 dark:text-gray-100 truncate'>
+                    {receipt.fileName}
+                    {receipt.pageNumber !== null && (
+                      <span className='text-gray-500 dark:text-gray-400'>
+                        {' '}
+                        · page {receipt.pageNumber}
+                      </span>
+                    )}
+                  </p>
+                  {receipt.extracted.provider && (
+                    <p className='text-[11px] text-gray-500 dark:text-gray-400 truncate'>
+                      {receipt.extracted.provider}
+                    </p>
+                  )}
+                </div>
+                <button
+                  type='button'
+                  onClick={() => handleConfirm([receipt.uploadId])}
+                  disabled={isWorking}
+                  className='text-xs text-emerald-600 dark:text-emerald-400 hover:underline'
+                >
+                  Confirm
+                </button>
+                <button
+                  type='button'
+                  onClick={() =>
+                    setEditing({
+                      ...receipt,
+                      extracted: {
+                        ...receipt.extracted,
+                        description: draft.description,
+                        amount: parseFloat(draft.amount) || null,
+                        currency: draft.currency,
+                        date: draft.date,
+                      },
+                      category: draft.category,
+                    })
+                  }
+                  disabled={isWorking}
+                  className='text-xs text-blue-600 dark:text-blue-400 hover:underline'
+                >
+                  Edit
+                </button>
+                <button
+                  type='button'
+                  onClick={() => handleDiscard([receipt.uploadId])}
+                  disabled={isWorking}
+                  className='text-xs text-red-600 dark:text-red-400 hover:underline'
+                >
+                  Discard
+                </button>
+              </div>
+
+              <div className='grid grid-cols-2 sm:grid-cols-5 gap-2'>
+                <input
+                  type='text'
+                  value={draft.description}
+                  onChange={(e) =>
+                    updateDraft(receipt, 'description', e.target.value)
+                  }
+                  placeholder='Description'
+                  aria-label='Description'
+                  className={`${inputClassName} col-span-2`}
+                />
+                <div className='flex gap-1'>
+                  <input
+                    type='number'
+                    min='0'
+                    step='0.01'
+                    value={draft.amount}
+                    onChange={(e) =>
+                      updateDraft(receipt, 'amount', e.target.value)
+                    }
+                    placeholder='Amount'
+                    aria-label='Amount'
+                    className={`${inputClassName} w-full min-w-0`}
+                  />
+                  <select
+                    value={draft.currency}
+                    onChange={(e) =>
+                      updateDraft(receipt, 'currency', e.target.value)
+                    }
+                    aria-label='Currency'
+                    className={inputClassName}
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <input
+                  type='date'
+                  value={draft.date}
+                  onChange={(e) => updateDraft(receipt, 'date', e.target.value)}
+                  aria-label='Date'
+                  className={inputClassName}
+                />
+                <select
+                  value={draft.category}
+                  onChange={(e) =>
+                    updateDraft(receipt, 'category', e.target.value)
+                  }
+                  aria-label='Category'
+                  className={inputClassName}
+                >
+                  {!leafCategories.some(
+                    (category) => category.name === draft.category
+                  ) && <option value={draft.category}>{draft.category}</option>}
+                  {leafCategories.map((category) => (
+                    <option key={category.id} value={category.name}>
+                      {category.icon} {getLabel(category.name)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {rowErrors[receipt.uploadId] && (
+                <p className='text-xs text-red-600 dark:text-red-400'>
+                  {rowErrors[receipt.uploadId]}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {editing && (
+        <ReceiptConfirmationModal
+          isOpen={true}
+          onClose={() => setEditing(null)}
+          extracted={editing.extracted}
+          category={editing.category}
+          uploadId={editing.uploadId}
+          baseCurrency={baseCurrency}
+          onSuccess={() => {
+            window.dispatchEvent(new CustomEvent('recordAdded'));
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReceiptReviewQueue;
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import getReceiptSettings from '@/app/actions/getReceiptSettings';
+import updateReceiptExtraction from '@/app/actions/updateReceiptExtraction';
+import updateOcrLanguages from '@/app/actions/updateOcrLanguages';
+import { RECEIPT_EXTRACTION_MODES } from '@/lib/heuristicExtraction';
+import {
+  DEFAULT_OCR_LANGUAGES,
+  MAX_OCR_LANGUAGES,
+  OcrLanguage,
+} from '@/lib/ocrLanguages';
+import { ReceiptExtractionMode } from '@/types/Receipt';
+
+const ReceiptSettings = () => {
+  const [extractionMode, setExtractionMode] =
+    useState<ReceiptExtractionMode>('auto');
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>(
+    DEFAULT_OCR_LANGUAGES
+  );
+  const [ocrAutoDetect, setOcrAutoDetect] = useState(false);
+  const [availableLanguages, setAvailableLanguages] = useState<OcrLanguage[]>(
+    []
+  );
+  const [installedLanguages, setInstalledLanguages] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<'success' | 'error' | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getReceiptSettings();
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setExtractionMode(result.extractionMode || 'auto');
+      setOcrLanguages(result.ocrLanguages || DEFAULT_OCR_LANGUAGES);
+      setOcrAutoDetect(result.ocrAutoDetect || false);
+      setAvailableLanguages(result.availableOcrLanguages || []);
+      setInstalledLanguages(result.installedOcrLanguages || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const showResult = (result: { message?: string; error?: string }) => {
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setAlertMessage(result.message || 'Saved');
+      setAlertType('success');
+    }
+  };
+
+  const handleModeChange = async (mode: ReceiptExtractionMode) => {
+    setExtractionMode(mode);
+    showResult(await updateReceiptExtraction(mode));
+  };
+
+  const saveOcrLanguages = async (
+    selected: string[],
+    autoDetect: boolean
+  ) => {
+    // Languages chosen before they had to be installed are dropped on save
+    const languages = selected.filter((code) =>
+      installedLanguages.includes(code)
+    );
+    const result = await updateOcrLanguages(languages, autoDetect);
+    if (!result.error) {
+      setOcrLanguages(languages);
+      setOcrAutoDetect(autoDetect);
+    }
+    showResult(result);
+  };
+
+  const toggleLanguage = (code: string) => {
+    saveOcrLanguages(
+      ocrLanguages.includes(code)
+        ? ocrLanguages.filter((language) => language !== code)
+        : [...ocrLanguages, code],
+      ocrAutoDetect
+    );
+  };
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+        <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+          <span className='text-white text-sm sm:text-lg'>🧾</span>
+        </div>
+        <div>
+          <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight'>
+            Receipt Scanning
+          </h3>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+            How scanned receipts are turned into expenses
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+          <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+          Loading receipt settings...
+        </div>
+      ) : (
+        <div className='space-y-5'>
+          <div className='space-y-1.5'>
+            <label
+              htmlFor='extractionMode'
+              className='flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide'
+            >
+              <span className='w-1.5 h-1.5 bg-emerald-500 rounded-full'></span>
+              Extraction
+            </label>
+            <select
+              id='extractionMode'
+              value={extractionMode}
+              onChange={(e) =>
+                handleModeChange(e.target.value as ReceiptExtractionMode)
+              }
+              className='w-full sm:w-64 px-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-400 text-gray-900 dark:text-gray-100 cursor-pointer text-sm'
+            >
+              {RECEIPT_EXTRACTION_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+            <p className='text-xs text-gray-500 dark:text-gray-400'>
+              Receipts are read on the server first. In automatic mode, the AI
+              model is only asked when the amount, date or store is unclear.
+              Choose heuristics only if this server can&apos;t reach the AI
+              service.
+            </p>
+          </div>
+
+          <div className='space-y-1.5'>
+            <p className='flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide'>
+              <span className='w-1.5 h-1.5 bg-emerald-500 rounded-full'></span>
+              Receipt Languages
+            </p>
+            <div className='flex flex-wrap gap-2'>
+              {availableLanguages.map((language) => {
+                const isSelected = ocrLanguages.includes(language.code);
+                const isInstalled = installedLanguages.includes(language.code);
+                return (
+                  <label
+                    key={language.code}
+                    title={
+                      isInstalled
+                        ? undefined
+                        : `Not installed: add ${language.code}.traineddata to the server's language folder`
+                    }
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border-2 text-sm ${
+                      isInstalled ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'
+                    } ${
+                      isSelected
+                        ? 'border-emerald-400 bg-emerald-50/80 dark:bg-emerald-900/20 text-emerald-800 dark:text-emerald-200'
+                        : 'border-gray-200/80 dark:border-gray-600/80 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    <input
+                      type='checkbox'
+                      checked={isSelected}
+                      disabled={
+                        !isSelected &&
+                        (!isInstalled ||
+                          ocrLanguages.length >= MAX_OCR_LANGUAGES)
+                      }
+                      onChange={() => toggleLanguage(language.code)}
+                    />
+                    {language.label}
+                  </label>
+                );
+              })}
+            </div>
+            <label className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer'>
+              <input
+                type='checkbox'
+                checked={ocrAutoDetect}
+                disabled={ocrLanguages.length < 2}
+                onChange={(e) => saveOcrLanguages(ocrLanguages, e.target.checked)}
+              />
+              Detect each receipt&apos;s language automatically
+            </label>
+            <p className='text-xs text-gray-500 dark:text-gray-400'>
+              Text is read with every selected language (up to{' '}
+              {MAX_OCR_LANGUAGES}). With detection on, a quick first read picks
+              the language of each receipt, which is more accurate when you scan
+              receipts from several countries. Greyed-out languages aren&apos;t
+              installed on the server and can&apos;t be chosen.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {alertMessage && (
+        <div
+          className={`mt-4 p-3 rounded-xl border-l-4 text-sm font-medium ${
+            alertType === 'success'
+              ? 'bg-green-50/80 dark:bg-green-900/20 border-l-green-500 text-green-800 dark:text-green-200'
+              : 'bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {alertMessage}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptSettings;
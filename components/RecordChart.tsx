@@ -2,7 +2,7 @@ import getRecords from '@/app/actions/getRecords';
 import BarChart from './BarChart'; // Ensure BarChart.tsx or BarChart.jsx exists in the same directory
 
 const RecordChart = async () => {
-  const { records, error } = await getRecords();
+  const { records, baseCurrency, error } = await getRecords();
 
   if (error) {
     return (
@@ -84,10 +84,25 @@ const RecordChart = async () => {
       </div>
       <div className='overflow-x-auto'>
         <BarChart
-          records={records.map((record) => ({
-            ...record,
-            date: String(record.date),
-          }))}
+          records={records
+            // Expenses without an exchange rate can't be charted with the rest
+            .filter((record) => record.baseAmount !== null)
+            .map((record) => {
+              // Chart totals in the base currency, split lines included
+              const rate = record.amount
+                ? (record.baseAmount ?? record.amount) / record.amount
+                : 1;
+              return {
+                ...record,
+                amount: record.baseAmount ?? record.amount,
+                splits: record.splits?.map((split) => ({
+                  ...split,
+                  amount: split.amount * rate,
+                })),
+                date: String(record.date),
+              };
+            })}
+          currency={baseCurrency || 'USD'}
         />
       </div>
     </div>
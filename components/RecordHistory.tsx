@@ -3,6 +3,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import getFilteredRecords from '@/app/actions/getFilteredRecords';
 import deleteRecord from '@/app/actions/deleteRecord';
+import EditRecordModal from '@/components/EditRecordModal';
+import TagChips from '@/components/TagChips';
+import ReceiptAttachment from '@/components/ReceiptAttachment';
 import { Record } from '@/types/Record';
 import {
   Table,
@@ -22,15 +25,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { FilterIcon, X, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
-
-// Currency formatter for Bolivianos
-const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat("es-BO", { 
-    style: "currency", 
-    currency: "BOB" 
-  }).format(amount);
-};
+import { FilterIcon, X, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, Download } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import { FilterOptions, toFilterParams } from "@/lib/recordFilters";
+import { useCategories } from "@/contexts/CategoryContext";
+import { categoryBadgeStyle, flattenCategoryTree } from "@/lib/categories";
+import { parseTagList } from "@/lib/tags";
+import { getCategoryShares } from "@/lib/splits";
 
 // Date formatter
 const formatDate = (date: string | number | Date): string => {
@@ -45,6 +46,8 @@ const formatDate = (date: string | number | Date): string => {
 // Filter interface
 interface FilterState {
   category: string;
+  tags: string; // Comma-separated
+  tagMatch: string; // '' for any of the tags, 'all' for all of them
   minAmount: string;
   maxAmount: string;
   startDate: string;
@@ -57,6 +60,19 @@ interface SortState {
   direction: 'asc' | 'desc';
 }
 
+// Convert the table's filter and sort state into server filter options
+const toFilterOptions = (filterState: FilterState, sortState: SortState): FilterOptions => ({
+  category: filterState.category !== 'all' ? filterState.category : undefined,
+  tags: parseTagList(filterState.tags).length > 0 ? parseTagList(filterState.tags) : undefined,
+  tagMatch: filterState.tagMatch === 'all' ? 'all' : undefined,
+  minAmount: filterState.minAmount ? parseFloat(filterState.minAmount) : undefined,
+  maxAmount: filterState.maxAmount ? parseFloat(filterState.maxAmount) : undefined,
+  startDate: filterState.startDate || undefined,
+  endDate: filterState.endDate || undefined,
+  sortField: sortState.field || 'date',
+  sortDirection: sortState.direction || 'desc',
+});
+
 // Delete action component
 const DeleteButton = ({ recordId, onDelete }: { recordId: string; onDelete: () => void }) => {
   const handleDelete = async () => {
@@ -84,25 +100,46 @@ const DeleteButton = ({ recordId, onDelete }: { recordId: string; onDelete: () =
   );
 };
 
+// Edit action component
+const EditButton = ({ record }: { record: Record }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        onClick={() => setIsOpen(true)}
+        variant="outline"
+        size="sm"
+        className="h-8 px-2 text-xs"
+      >
+        Edit
+      </Button>
+      {isOpen && (
+        <EditRecordModal
+          record={record}
+          onClose={() => setIsOpen(false)}
+        />
+      )}
+    </>
+  );
+};
+
 // Filter component
 const FilterHeader = ({ 
   filters, 
+  exportHref,
   onFilterChange, 
   onClearFilters 
 }: { 
   filters: FilterState;
+  exportHref: string;
   onFilterChange: (key: keyof FilterState, value: string) => void;
   onClearFilters: () => void;
 }) => {
-  const categories = [
-    'Food',
-    'Transportation', 
-    'Entertainment',
-    'Shopping',
-    'Bills',
-    'Healthcare',
-    'Other'
-  ];
+  // Archived categories stay listed so older records can still be found.
+  // Picking a parent category also shows its subcategories' records.
+  const { categories } = useCategories();
+  const categoryOptions = flattenCategoryTree(categories);
 
   const hasActiveFilters = Object.values(filters).some(value => value !== '');
 
@@ -115,19 +152,43 @@ const FilterHeader = ({
       
       {/* Category Filter */}
       <Select value={filters.category} onValueChange={(value) => onFilterChange('category', value)}>
-        <SelectTrigger className="w-[140px] h-8">
+        <SelectTrigger className="w-[160px] h-8">
           <SelectValue placeholder="Category" />
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Categories</SelectItem>
-          {categories.map((category) => (
-            <SelectItem key={category} value={category}>
-              {category}
+          {categoryOptions.map(({ category, depth }) => (
+            <SelectItem key={category.id} value={category.name}>
+              <span style={{ paddingLeft: `${depth * 0.75}rem` }}>
+                {category.icon} {category.name}
+              </span>
             </SelectItem>
           ))}
         </SelectContent>
       </Select>
 
+      {/* Tag Filter */}
+      <div className="flex items-center gap-1">
+        <Input
+          type="text"
+          placeholder="Tags, comma-separated"
+          value={filters.tags}
+          onChange={(e) => onFilterChange('tags', e.target.value)}
+          className="w-44 h-8 text-xs"
+        />
+        {parseTagList(filters.tags).length > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onFilterChange('tagMatch', filters.tagMatch === 'all' ? '' : 'all')}
+            className="h-8 px-2 text-xs"
+            title="Match expenses with any or all of the tags"
+          >
+            {filters.tagMatch === 'all' ? 'All tags' : 'Any tag'}
+          </Button>
+        )}
+      </div>
+
       {/* Amount Range Filter */}
       <div className="flex items-center gap-1">
         <Input
@@ -145,7 +206,6 @@ const FilterHeader = ({
           onChange={(e) => onFilterChange('maxAmount', e.target.value)}
           className="w-20 h-8 text-xs"
         />
-        <span className="text-xs text-gray-500">Bs</span>
       </div>
 
       {/* Date Range Filter */}
@@ -177,16 +237,32 @@ const FilterHeader = ({
           Clear
         </Button>
       )}
+
+      {/* Export Button */}
+      <Button
+        asChild
+        variant="outline"
+        size="sm"
+        className="h-8 px-2 text-xs ml-auto"
+      >
+        <a href={exportHref} download>
+          <Download className="h-3 w-3 mr-1" />
+          Export
+        </a>
+      </Button>
     </div>
   );
 };
 
 const RecordHistory = () => {
+  const { getCategory } = useCategories();
   const [records, setRecords] = useState<Record[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<FilterState>({
     category: 'all',
+    tags: '',
+    tagMatch: '',
     minAmount: '',
     maxAmount: '',
     startDate: '',
@@ -200,15 +276,7 @@ const RecordHistory = () => {
   const loadRecords = useCallback(async (filterState: FilterState = filters, sortState: SortState = sort) => {
     setLoading(true);
     try {
-      const filterOptions = {
-        category: filterState.category !== 'all' ? filterState.category : undefined,
-        minAmount: filterState.minAmount ? parseFloat(filterState.minAmount) : undefined,
-        maxAmount: filterState.maxAmount ? parseFloat(filterState.maxAmount) : undefined,
-        startDate: filterState.startDate || undefined,
-        endDate: filterState.endDate || undefined,
-        sortField: sortState.field || 'date',
-        sortDirection: sortState.direction || 'desc',
-      };
+      const filterOptions = toFilterOptions(filterState, sortState);
 
       const { records: fetchedRecords, error: fetchError } = await getFilteredRecords(filterOptions);
       
@@ -252,6 +320,8 @@ const RecordHistory = () => {
   const handleClearFilters = () => {
     const clearedFilters = {
       category: 'all',
+      tags: '',
+      tagMatch: '',
       minAmount: '',
       maxAmount: '',
       startDate: '',
@@ -371,6 +441,7 @@ const RecordHistory = () => {
       {/* Filter Header */}
       <FilterHeader 
         filters={filters}
+        exportHref={`/api/records/export?${toFilterParams(toFilterOptions(filters, sort))}`}
         onFilterChange={handleFilterChange}
         onClearFilters={handleClearFilters}
       />
@@ -408,18 +479,51 @@ const RecordHistory = () => {
                     {formatDate(record.date)}
                   </TableCell>
                   <TableCell className="text-gray-700 dark:text-gray-300">
-                    {record.text}
+                    <div className="flex items-start gap-2">
+                      {record.attachment && (
+                        <ReceiptAttachment attachment={record.attachment} size="sm" />
+                      )}
+                      <div className="space-y-1">
+                        <div>{record.text}</div>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {record.uploadId && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">
+                              🧾 Created from receipt
+                            </span>
+                          )}
+                          <TagChips tags={record.tags || []} />
+                        </div>
+                      </div>
+                    </div>
                   </TableCell>
                   <TableCell>
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                      {record.category}
-                    </span>
+                    {/* A split expense shows a badge per line */}
+                    <div className="flex flex-wrap gap-1">
+                      {getCategoryShares(record).map((share) => (
+                        <span
+                          key={share.category}
+                          className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium"
+                          style={categoryBadgeStyle(getCategory(share.category)?.color)}
+                          title={formatCurrency(share.amount, record.currency)}
+                        >
+                          {getCategory(share.category)?.icon} {share.category}
+                          {record.splits && record.splits.length > 0 && (
+                            <span className="opacity-75">
+                              {formatCurrency(share.amount, record.currency)}
+                            </span>
+                          )}
+                        </span>
+                      ))}
+                    </div>
                   </TableCell>
                   <TableCell className="text-right font-semibold text-gray-900 dark:text-gray-100">
-                    {formatCurrency(record.amount)}
+                    {formatCurrency(record.amount, record.currency)}
                   </TableCell>
                   <TableCell className="text-center">
-                    <DeleteButton recordId={record.id} onDelete={() => loadRecords()} />
+                    <div className="flex items-center justify-center gap-2">
+                      <EditButton record={record} />
+                      <DeleteButton recordId={record.id} onDelete={() => loadRecords()} />
+                    </div>
                   </TableCell>
                 </TableRow>
               ))
@@ -2,29 +2,16 @@
 import { useState } from 'react';
 import { Record } from '@/types/Record';
 import deleteRecord from '@/app/actions/deleteRecord';
-
-// Helper function to get category emoji
-const getCategoryEmoji = (category: string) => {
-  switch (category) {
-    case 'Food':
-      return '🍔';
-    case 'Transportation':
-      return '🚗';
-    case 'Shopping':
-      return '🛒';
-    case 'Entertainment':
-      return '🎬';
-    case 'Bills':
-      return '💡';
-    case 'Healthcare':
-      return '🏥';
-    default:
-      return '📦';
-  }
-};
+import EditRecordModal from '@/components/EditRecordModal';
+import TagChips from '@/components/TagChips';
+import ReceiptAttachment from '@/components/ReceiptAttachment';
+import { useCategories } from '@/contexts/CategoryContext';
+import { formatCurrency } from '@/lib/currency';
 
 const RecordItem = ({ record }: { record: Record }) => {
   const [isLoading, setIsLoading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const { getCategory } = useCategories();
 
   const handleDeleteRecord = async (recordId: string) => {
     setIsLoading(true); // Show loading spinner
@@ -83,24 +70,42 @@ const RecordItem = ({ record }: { record: Record }) => {
               {new Date(record?.date).toLocaleDateString()}
             </span>
             <span className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
-              ${record?.amount.toFixed(2)}
+              {formatCurrency(record?.amount, record?.currency)}
             </span>
           </div>
 
-          <div className='flex items-center gap-2'>
-            <span className='text-base sm:text-lg'>
-              {getCategoryEmoji(record?.category)}
-            </span>
-            <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
-              {record?.category}
-            </span>
+          <div className='flex items-center justify-between gap-2'>
+            <div className='flex items-center gap-2'>
+              <span className='text-base sm:text-lg'>
+                {getCategory(record?.category)?.icon || '📦'}
+              </span>
+              <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+                {record?.category}
+              </span>
+            </div>
+            {record?.attachment && (
+              <ReceiptAttachment attachment={record.attachment} />
+            )}
           </div>
+
+          <TagChips tags={record?.tags || []} />
         </div>
 
-        <div className='text-xs sm:text-sm text-gray-600 dark:text-gray-400 mt-2'>
+        <div className='flex items-end justify-between gap-2 text-xs sm:text-sm text-gray-600 dark:text-gray-400 mt-2'>
           <p className='truncate break-words line-clamp-2'>{record?.text}</p>
+          <button
+            onClick={() => setIsEditing(true)}
+            className='text-xs text-blue-600 dark:text-blue-400 hover:underline shrink-0'
+            title='Edit expense record'
+          >
+            Edit
+          </button>
         </div>
       </div>
+
+      {isEditing && (
+        <EditRecordModal record={record} onClose={() => setIsEditing(false)} />
+      )}
     </li>
   );
 };
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import createRecurringExpense from '@/app/actions/createRecurringExpense';
+import getRecurringExpenses from '@/app/actions/getRecurringExpenses';
+import setRecurringExpensePaused from '@/app/actions/setRecurringExpensePaused';
+import skipRecurringOccurrence from '@/app/actions/skipRecurringOccurrence';
+import deleteRecurringExpense from '@/app/actions/deleteRecurringExpense';
+import { RecurringExpense } from '@/types/RecurringExpense';
+import { SUPPORTED_CURRENCIES, formatCurrency } from '@/lib/currency';
+import { useCategories } from '@/contexts/CategoryContext';
+
+const formatDate = (date: string | Date): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    timeZone: 'UTC',
+  });
+
+const describeSchedule = (expense: RecurringExpense): string => {
+  switch (expense.frequency) {
+    case 'daily':
+      return 'Every day';
+    case 'weekly':
+      return 'Every week';
+    case 'monthly':
+      return 'Every month';
+    case 'yearly':
+      return 'Every year';
+    default:
+      return `Every ${expense.intervalDays} days`;
+  }
+};
+
+const inputClassName =
+  'w-full px-3 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl focus:ring-2 focus:ring-emerald-500/30 focus:border-emerald-400 dark:focus:border-emerald-400 text-gray-900 dark:text-gray-100 text-sm shadow-sm';
+
+const labelClassName =
+  'flex items-center gap-2 text-xs font-semibold text-gray-700 dark:text-gray-300 tracking-wide';
+
+const RecurringExpenses = ({ baseCurrency = 'USD' }: { baseCurrency?: string }) => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const { leafCategories, getLabel } = useCategories();
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [frequency, setFrequency] = useState('monthly');
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<'success' | 'error' | null>(null);
+
+  const showResult = (result: { message?: string; error?: string }) => {
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setAlertMessage(result.message || 'Saved');
+      setAlertType('success');
+    }
+  };
+
+  const loadRecurringExpenses = useCallback(async () => {
+    const result = await getRecurringExpenses();
+    if (result.error) {
+      setAlertMessage(`Error: ${result.error}`);
+      setAlertType('error');
+    } else {
+      setRecurringExpenses(result.recurringExpenses || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadRecurringExpenses();
+  }, [loadRecurringExpenses]);
+
+  const handleCreate = async (formData: FormData) => {
+    const result = await createRecurringExpense(formData);
+    showResult(result);
+    if (!result.error) {
+      formRef.current?.reset();
+      setFrequency('monthly');
+      loadRecurringExpenses();
+    }
+  };
+
+  const handleTogglePause = async (expense: RecurringExpense) => {
+    showResult(await setRecurringExpensePaused(expense.id, !expense.paused));
+    loadRecurringExpenses();
+  };
+
+  const handleToggleSkip = async (
+    expense: RecurringExpense,
+    date: string,
+    skip: boolean
+  ) => {
+    showResult(await skipRecurringOccurrence(expense.id, date, skip));
+    loadRecurringExpenses();
+  };
+
+  const handleDelete = async (expense: RecurringExpense) => {
+    showResult(await deleteRecurringExpense(expense.id));
+    loadRecurringExpenses();
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch('/api/recurring/generate', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Generation failed');
+      }
+      setAlertMessage(
+        data.generated > 0
+          ? `Added ${data.generated} due expense${data.generated === 1 ? '' : 's'}`
+          : 'Everything is up to date'
+      );
+      setAlertType('success');
+      window.dispatchEvent(new CustomEvent('recordAdded'));
+    } catch (error) {
+      setAlertMessage(
+        `Error: ${error instanceof Error ? error.message : 'Generation failed'}`
+      );
+      setAlertType('error');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className='space-y-4 sm:space-y-6'>
+      {/* New recurring expense */}
+      <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+        <div className='flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+          <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+            <span className='text-white text-sm sm:text-lg'>🔁</span>
+          </div>
+          <div>
+            <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight'>
+              New Recurring Expense
+            </h3>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+              Rent, subscriptions and utilities are added automatically
+            </p>
+          </div>
+        </div>
+        <form
+          ref={formRef}
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate(new FormData(formRef.current!));
+          }}
+          className='grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4'
+        >
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-text' className={labelClassName}>
+              Description
+            </label>
+            <input
+              id='recurring-text'
+              name='text'
+              type='text'
+              placeholder='Rent, Netflix, electricity...'
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-category' className={labelClassName}>
+              Category
+            </label>
+            <select
+              id='recurring-category'
+              name='category'
+              defaultValue='Bills'
+              className={inputClassName}
+            >
+              {leafCategories.map((category) => (
+                <option key={category.id} value={category.name}>
+                  {category.icon} {getLabel(category.name)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-amount' className={labelClassName}>
+              Amount
+            </label>
+            <div className='flex gap-2'>
+              <select
+                name='currency'
+                aria-label='Currency'
+                defaultValue={baseCurrency}
+                className='px-2 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl text-gray-900 dark:text-gray-100 text-sm'
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+              <input
+                id='recurring-amount'
+                name='amount'
+                type='number'
+                min='0'
+                step='0.01'
+                placeholder='0.00'
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-frequency' className={labelClassName}>
+              Repeats
+            </label>
+            <div className='flex gap-2'>
+              <select
+                id='recurring-frequency'
+                name='frequency'
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value)}
+                className={inputClassName}
+              >
+                <option value='daily'>Daily</option>
+                <option value='weekly'>Weekly</option>
+                <option value='monthly'>Monthly</option>
+                <option value='yearly'>Yearly</option>
+                <option value='interval'>Every N days</option>
+              </select>
+              {frequency === 'interval' && (
+                <input
+                  name='intervalDays'
+                  type='number'
+                  min='1'
+                  placeholder='Days'
+                  aria-label='Days between occurrences'
+                  className='w-24 px-2 py-2.5 bg-white/70 dark:bg-gray-800/70 border-2 border-gray-200/80 dark:border-gray-600/80 rounded-xl text-gray-900 dark:text-gray-100 text-sm'
+                  required
+                />
+              )}
+            </div>
+          </div>
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-start' className={labelClassName}>
+              Start Date
+            </label>
+            <input
+              id='recurring-start'
+              name='startDate'
+              type='date'
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div className='space-y-1.5'>
+            <label htmlFor='recurring-end' className={labelClassName}>
+              End Date <span className='font-normal text-gray-400'>(optional)</span>
+            </label>
+            <input
+              id='recurring-end'
+              name='endDate'
+              type='date'
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type='submit'
+            className='md:col-span-2 w-full bg-gradient-to-r from-emerald-600 via-green-500 to-teal-500 hover:from-emerald-700 hover:via-green-600 hover:to-teal-600 text-white px-4 py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transition-all duration-300 text-sm'
+          >
+            Add Recurring Expense
+          </button>
+        </form>
+
+        {/* Alert Message */}
+        {alertMessage && (
+          <div
+            className={`mt-4 p-3 rounded-xl border-l-4 text-sm font-medium ${
+              alertType === 'success'
+                ? 'bg-green-50/80 dark:bg-green-900/20 border-l-green-500 text-green-800 dark:text-green-200'
+                : 'bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200'
+            }`}
+          >
+            {alertMessage}
+          </div>
+        )}
+      </div>
+
+      {/* Schedules and upcoming occurrences */}
+      <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+        <div className='flex items-center justify-between mb-4 sm:mb-6'>
+          <div>
+            <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
+              Upcoming
+            </h3>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+              Skip a single occurrence or pause the whole schedule
+            </p>
+          </div>
+          <button
+            type='button'
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className='h-8 px-3 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50'
+          >
+            {isGenerating ? 'Generating...' : 'Add Due Expenses Now'}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+            <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+            Loading recurring expenses...
+          </div>
+        ) : recurringExpenses.length === 0 ? (
+          <p className='text-sm text-gray-500 dark:text-gray-400'>
+            No recurring expenses yet.
+          </p>
+        ) : (
+          <ul className='space-y-4'>
+            {recurringExpenses.map((expense) => (
+              <li
+                key={expense.id}
+                className={`p-4 rounded-xl border border-gray-200 dark:border-gray-700 ${
+                  expense.paused ? 'opacity-60' : ''
+                }`}
+              >
+                <div className='flex flex-wrap items-center justify-between gap-2'>
+                  <div>
+                    <p className='font-semibold text-gray-900 dark:text-gray-100'>
+                      {expense.text}{' '}
+                      <span className='text-sm font-normal text-gray-500 dark:text-gray-400'>
+                        · {expense.category}
+                      </span>
+                    </p>
+                    <p className='text-xs text-gray-500 dark:text-gray-400'>
+                      {formatCurrency(expense.amount, expense.currency)} ·{' '}
+                      {describeSchedule(expense)} from{' '}
+                      {formatDate(expense.startDate)}
+                      {expense.endDate && ` until ${formatDate(expense.endDate)}`}
+                      {expense.paused && ' · Paused'}
+                    </p>
+                  </div>
+                  <div className='flex items-center gap-3'>
+                    <button
+                      type='button'
+                      onClick={() => handleTogglePause(expense)}
+                      className='text-xs text-blue-600 dark:text-blue-400 hover:underline'
+                    >
+                      {expense.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      type='button'
+                      onClick={() => handleDelete(expense)}
+                      className='text-xs text-red-600 dark:text-red-400 hover:underline'
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {expense.upcoming.length > 0 ? (
+                  <div className='flex flex-wrap gap-2 mt-3'>
+                    {expense.upcoming.map((occurrence) => (
+                      <button
+                        key={occurrence.date}
+                        type='button'
+                        onClick={() =>
+                          handleToggleSkip(
+                            expense,
+                            occurrence.date,
+                            !occurrence.skipped
+                          )
+                        }
+                        title={occurrence.skipped ? 'Restore' : 'Skip'}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                          occurrence.skipped
+                            ? 'bg-gray-100 text-gray-400 line-through dark:bg-gray-700 dark:text-gray-500'
+                            : 'bg-emerald-100 text-emerald-800 hover:bg-emerald-200 dark:bg-emerald-900/40 dark:text-emerald-200'
+                        }`}
+                      >
+                        {formatDate(occurrence.date)}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className='text-xs text-gray-400 dark:text-gray-500 mt-3'>
+                    No upcoming occurrences
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurringExpenses;
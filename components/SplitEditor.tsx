@@ -0,0 +1,127 @@
+'use client';
+
+import { useCategories } from '@/contexts/CategoryContext';
+import { formatCurrency } from '@/lib/currency';
+
+// A split line while it's being edited; amounts stay strings until saved
+export interface SplitLine {
+  category: string;
+  amount: string;
+}
+
+// Convert edited lines into the JSON the record actions expect
+export const toSplitsJson = (lines: SplitLine[]) =>
+  JSON.stringify(
+    lines.map((line) => ({
+      category: line.category,
+      amount: parseFloat(line.amount) || 0,
+    }))
+  );
+
+// Lines of a split expense, each with its own category and amount, plus
+// how much of the total is still unassigned
+const SplitEditor = ({
+  lines,
+  onChange,
+  total,
+  currency,
+  inputClassName,
+}: {
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  total: number;
+  currency: string;
+  inputClassName: string;
+}) => {
+  const { leafCategories, getLabel } = useCategories();
+
+  const assigned = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.amount) || 0),
+    0
+  );
+  const remaining = Math.round((total - assigned) * 100) / 100;
+
+  const updateLine = (index: number, field: keyof SplitLine, value: string) =>
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, [field]: value } : line))
+    );
+
+  return (
+    <div className='space-y-2'>
+      {lines.map((line, index) => (
+        <div key={index} className='flex gap-2 items-center'>
+          <select
+            value={line.category}
+            onChange={(e) => updateLine(index, 'category', e.target.value)}
+            aria-label={`Split ${index + 1} category`}
+            className={`${inputClassName} flex-1 min-w-0`}
+          >
+            <option value='' disabled>
+              Select category...
+            </option>
+            {leafCategories
+              // Each category can only be used on one line
+              .filter(
+                (option) =>
+                  option.name === line.category ||
+                  !lines.some((other) => other.category === option.name)
+              )
+              .map((option) => (
+                <option key={option.id} value={option.name}>
+                  {option.icon} {getLabel(option.name)}
+                </option>
+              ))}
+          </select>
+          <input
+            type='number'
+            step='0.01'
+            min='0'
+            value={line.amount}
+            onChange={(e) => updateLine(index, 'amount', e.target.value)}
+            aria-label={`Split ${index + 1} amount`}
+            className={`${inputClassName} w-28`}
+          />
+          <button
+            type='button'
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            disabled={lines.length <= 2}
+            aria-label={`Remove split ${index + 1}`}
+            className='text-gray-400 hover:text-red-500 disabled:opacity-30 text-lg px-1'
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className='flex items-center justify-between text-xs'>
+        <button
+          type='button'
+          onClick={() =>
+            onChange([
+              ...lines,
+              { category: '', amount: remaining > 0 ? remaining.toFixed(2) : '' },
+            ])
+          }
+          className='text-emerald-600 dark:text-emerald-400 hover:underline'
+        >
+          + Add line
+        </button>
+        <span
+          className={
+            remaining === 0
+              ? 'text-green-600 dark:text-green-400'
+              : 'text-red-600 dark:text-red-400'
+          }
+        >
+          {remaining === 0
+            ? 'Fully assigned'
+            : remaining > 0
+              ? `${formatCurrency(remaining, currency)} left to assign`
+              : `${formatCurrency(-remaining, currency)} over the total`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -0,0 +1,34 @@
+const TagChips = ({
+  tags,
+  onRemove,
+}: {
+  tags: string[];
+  onRemove?: (tag: string) => void;
+}) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <span className='inline-flex flex-wrap gap-1'>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className='inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600'
+        >
+          #{tag}
+          {onRemove && (
+            <button
+              type='button'
+              onClick={() => onRemove(tag)}
+              aria-label={`Remove tag ${tag}`}
+              className='text-gray-400 hover:text-red-500'
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default TagChips;
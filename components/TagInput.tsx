@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import getTags from '@/app/actions/getTags';
+import TagChips from '@/components/TagChips';
+import { MAX_TAGS_PER_RECORD, parseTagList } from '@/lib/tags';
+
+// Chips for the current tags plus a text box that adds a tag on Enter or
+// comma, suggesting the user's existing tags
+const TagInput = ({
+  value,
+  onChange,
+  className = '',
+  placeholder = 'reimbursable, gift...',
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+  placeholder?: string;
+}) => {
+  const listId = useId();
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    getTags().then((result) => setSuggestions(result.tags || []));
+  }, []);
+
+  const addDraft = (text: string) => {
+    const added = parseTagList(text).filter((tag) => !value.includes(tag));
+    if (added.length > 0) {
+      onChange([...value, ...added].slice(0, MAX_TAGS_PER_RECORD));
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className='space-y-1.5'>
+      <TagChips
+        tags={value}
+        onRemove={(tag) => onChange(value.filter((other) => other !== tag))}
+      />
+      <input
+        type='text'
+        list={listId}
+        value={draft}
+        onChange={(e) => {
+          // Picking a suggestion or typing a comma completes the tag
+          if (e.target.value.includes(',') || suggestions.includes(e.target.value)) {
+            addDraft(e.target.value);
+          } else {
+            setDraft(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && draft.trim()) {
+            e.preventDefault();
+            addDraft(draft);
+          } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={() => draft.trim() && addDraft(draft)}
+        disabled={value.length >= MAX_TAGS_PER_RECORD}
+        placeholder={placeholder}
+        aria-label='Tags'
+        className={className}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((tag) => !value.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
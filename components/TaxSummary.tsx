@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import getTaxSummary from '@/app/actions/getTaxSummary';
+import { formatCurrency } from '@/lib/currency';
+import { TaxPeriod, TaxSummaryRow } from '@/types/TaxSummary';
+
+const selectClassName =
+  'h-8 px-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-gray-900 dark:text-gray-100';
+
+const TaxSummary = () => {
+  const currentYear = new Date().getUTCFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [period, setPeriod] = useState<TaxPeriod>('month');
+  const [rows, setRows] = useState<TaxSummaryRow[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [missingRates, setMissingRates] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSummary = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getTaxSummary(year, period);
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setRows(result.rows || []);
+      setCurrency(result.currency || 'USD');
+      setMissingRates(result.missingRates || []);
+      setError(null);
+    }
+    setIsLoading(false);
+  }, [year, period]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // Refresh when an expense is added or edited
+  useEffect(() => {
+    window.addEventListener('recordAdded', loadSummary);
+    return () => window.removeEventListener('recordAdded', loadSummary);
+  }, [loadSummary]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      subtotal: sum.subtotal + row.subtotal,
+      taxAmount: sum.taxAmount + row.taxAmount,
+      tip: sum.tip + row.tip,
+      discount: sum.discount + row.discount,
+      total: sum.total + row.total,
+    }),
+    { subtotal: 0, taxAmount: 0, tip: 0, discount: 0, total: 0 }
+  );
+
+  return (
+    <div className='bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-xl border border-gray-100/50 dark:border-gray-700/50 hover:shadow-2xl'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-6'>
+        <div className='flex items-center gap-2 sm:gap-3'>
+          <div className='w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 rounded-xl flex items-center justify-center shadow-lg'>
+            <span className='text-white text-sm sm:text-lg'>🧾</span>
+          </div>
+          <div>
+            <h3 className='text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100'>
+              Tax Summary
+            </h3>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+              Expenses with a tax, tip or discount breakdown, in {currency}
+            </p>
+          </div>
+        </div>
+        <div className='flex items-center gap-2'>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as TaxPeriod)}
+            aria-label='Period'
+            className={selectClassName}
+          >
+            <option value='month'>Monthly</option>
+            <option value='quarter'>Quarterly</option>
+            <option value='year'>Yearly</option>
+          </select>
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value))}
+            aria-label='Year'
+            className={selectClassName}
+          >
+            {Array.from({ length: 5 }, (_, index) => currentYear - index).map(
+              (option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className='mb-4 p-3 rounded-xl border-l-4 bg-red-50/80 dark:bg-red-900/20 border-l-red-500 text-red-800 dark:text-red-200 text-sm'>
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className='flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400'>
+          <div className='w-4 h-4 border-2 border-gray-300 border-t-emerald-600 rounded-full animate-spin'></div>
+          Loading summary...
+        </div>
+      ) : rows.length === 0 ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>
+          No expenses with a tax breakdown in {year}. Scanned receipts fill it
+          in automatically.
+        </p>
+      ) : (
+        <div className='overflow-x-auto'>
+          <table className='w-full text-sm'>
+            <thead>
+              <tr className='text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700'>
+                <th className='py-2 pr-3 font-medium'>Period</th>
+                <th className='py-2 pr-3 font-medium text-right'>Expenses</th>
+                <th className='py-2 pr-3 font-medium text-right'>Subtotal</th>
+                <th className='py-2 pr-3 font-medium text-right'>Tax</th>
+                <th className='py-2 pr-3 font-medium text-right'>Tips</th>
+                <th className='py-2 pr-3 font-medium text-right'>Discounts</th>
+                <th className='py-2 font-medium text-right'>Total</th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-100 dark:divide-gray-700'>
+              {rows.map((row) => (
+                <tr key={row.period} className='text-gray-800 dark:text-gray-200'>
+                  <td className='py-2 pr-3 font-medium'>{row.period}</td>
+                  <td className='py-2 pr-3 text-right'>{row.count}</td>
+                  <td className='py-2 pr-3 text-right'>
+                    {formatCurrency(row.subtotal, currency)}
+                  </td>
+                  <td className='py-2 pr-3 text-right'>
+                    {formatCurrency(row.taxAmount, currency)}
+                    {row.byRate.length > 0 && (
+                      <div className='text-[11px] text-gray-500 dark:text-gray-400'>
+                        {row.byRate
+                          .map(
+                            (item) =>
+                              `${item.rate !== null ? `${item.rate}%` : 'No rate'}: ${formatCurrency(
+                                item.taxAmount,
+                                currency
+                              )}`
+                          )
+                          .join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className='py-2 pr-3 text-right'>
+                    {formatCurrency(row.tip, currency)}
+                  </td>
+                  <td className='py-2 pr-3 text-right'>
+                    {formatCurrency(row.discount, currency)}
+                  </td>
+                  <td className='py-2 text-right font-semibold'>
+                    {formatCurrency(row.total, currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className='border-t-2 border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-gray-100'>
+                <td className='py-2 pr-3'>{year}</td>
+                <td className='py-2 pr-3 text-right'>
+                  {rows.reduce((sum, row) => sum + row.count, 0)}
+                </td>
+                <td className='py-2 pr-3 text-right'>
+                  {formatCurrency(totals.subtotal, currency)}
+                </td>
+                <td className='py-2 pr-3 text-right'>
+                  {formatCurrency(totals.taxAmount, currency)}
+                </td>
+                <td className='py-2 pr-3 text-right'>
+                  {formatCurrency(totals.tip, currency)}
+                </td>
+                <td className='py-2 pr-3 text-right'>
+                  {formatCurrency(totals.discount, currency)}
+                </td>
+                <td className='py-2 text-right'>
+                  {formatCurrency(totals.total, currency)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {/* Currencies without an exchange rate are left out of totals */}
+      {!isLoading && missingRates.length > 0 && (
+        <p className='mt-3 text-xs text-yellow-700 dark:text-yellow-300 bg-yellow-50/80 dark:bg-yellow-900/20 p-2 rounded-lg'>
+          No exchange rate for {missingRates.join(', ')}, so those expenses are
+          left out of totals. Add one in Settings to convert them to {currency}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TaxSummary;
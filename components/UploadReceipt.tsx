@@ -1,27 +1,31 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import ReceiptConfirmationModal from './ReceiptConfirmationModal';
-import { ExtractedData } from '@/lib/heuristicExtraction';
+import ReceiptReviewQueue from './ReceiptReviewQueue';
+import getPendingReceipts from '@/app/actions/getPendingReceipts';
+import { ExtractedData, ReceiptCandidate } from '@/lib/heuristicExtraction';
 
 interface UploadState {
   isUploading: boolean;
   success: boolean;
   error: string | null;
+  progress?: { current: number; total: number }; // While a batch is processed
 }
 
 interface UploadResponse {
   success: boolean;
-  uploadId: string;
-  extracted: ExtractedData;
-  category: string;
+  receipts: ReceiptCandidate[]; // One per receipt found in the file
   ocrConfidence: number;
-  heuristicConfidence: number;
   error?: string;
 }
 
-export default function UploadReceipt() {
+export default function UploadReceipt({
+  baseCurrency = 'USD',
+}: {
+  baseCurrency?: string;
+}) {
   const [uploadState, setUploadState] = useState<UploadState>({
     isUploading: false,
     success: false,
@@ -38,98 +42,118 @@ export default function UploadReceipt() {
     category: '',
     uploadId: '',
   });
+  const [pendingReceipts, setPendingReceipts] = useState<ReceiptCandidate[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
-  const processFile = async (file: File) => {
-    // Validate file type
-    const fileType = file.type;
-    const isPDF = fileType === 'application/pdf';
-    const isImage = fileType.startsWith('image/');
+  // Receipts scanned earlier and not yet confirmed or discarded
+  const loadPendingReceipts = useCallback(async () => {
+    const result = await getPendingReceipts();
+    if (result.receipts) {
+      setPendingReceipts(result.receipts);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPendingReceipts();
+  }, [loadPendingReceipts]);
 
+  // Check a file before sending it; returns an error message if it's refused
+  const validateFile = (file: File): string | null => {
+    const isPDF = file.type === 'application/pdf';
+    const isImage = file.type.startsWith('image/');
     if (!isPDF && !isImage) {
-      setUploadState({
-        isUploading: false,
-        success: false,
-        error: 'Please select a PDF or image file',
-      });
-      return;
+      return 'Please select a PDF or image file';
     }
-
     // Validate file size (max 10MB)
     const maxSize = 10 * 1024 * 1024; // 10MB
     if (file.size > maxSize) {
-      setUploadState({
-        isUploading: false,
-        success: false,
-        error: 'File size must be less than 10MB',
-      });
-      return;
+      return 'File size must be less than 10MB';
     }
+    return null;
+  };
 
-    setUploadState({
-      isUploading: true,
-      success: false,
-      error: null,
+  const uploadFile = async (file: File): Promise<ReceiptCandidate[]> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch('/api/upload-receipt', {
+      method: 'POST',
+      body: formData,
     });
 
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
+    const data: UploadResponse = await response.json();
 
-      const response = await fetch('/api/upload-receipt', {
-        method: 'POST',
-        body: formData,
-      });
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed');
+    }
 
-      const data: UploadResponse = await response.json();
+    return data.receipts;
+  };
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Upload failed');
-      }
+  // Files are sent one at a time; every receipt found lands in the review
+  // queue, and a single receipt opens straight in the confirmation modal
+  const processFiles = async (files: File[]) => {
+    if (files.length === 0) return;
 
+    const errors: string[] = [];
+    const receipts: ReceiptCandidate[] = [];
+
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
       setUploadState({
-        isUploading: false,
+        isUploading: true,
         success: false,
         error: null,
+        progress: { current: index + 1, total: files.length },
       });
 
-      // Show confirmation modal with extracted data
-      setModalData({
-        isOpen: true,
-        extracted: data.extracted,
-        category: data.category,
-        uploadId: data.uploadId,
-      });
+      const validationError = validateFile(file);
+      if (validationError) {
+        errors.push(files.length > 1 ? `${file.name}: ${validationError}` : validationError);
+        continue;
+      }
 
-      // Reset the file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      try {
+        receipts.push(...(await uploadFile(file)));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Upload failed';
+        errors.push(files.length > 1 ? `${file.name}: ${message}` : message);
       }
+    }
 
-    } catch (error) {
-      setUploadState({
-        isUploading: false,
-        success: false,
-        error: error instanceof Error ? error.message : 'Upload failed',
+    setUploadState({
+      isUploading: false,
+      success: false,
+      error: errors.length > 0 ? errors.join('; ') : null,
+    });
+
+    // Reset the file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    await loadPendingReceipts();
+
+    if (files.length === 1 && receipts.length === 1) {
+      // Show confirmation modal with extracted data
+      setModalData({
+        isOpen: true,
+        extracted: receipts[0].extracted,
+        category: receipts[0].category,
+        uploadId: receipts[0].uploadId,
       });
     }
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    await processFile(file);
+    await processFiles(Array.from(event.target.files || []));
   };
 
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
-    const files = event.dataTransfer.files;
-    if (files.length > 0) {
-      const file = files[0];
-      // Process the file directly instead of creating a synthetic event
-      processFile(file);
-    }
+    // Process the files directly instead of creating a synthetic event
+    processFiles(Array.from(event.dataTransfer.files));
   };
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -148,6 +172,8 @@ export default function UploadReceipt() {
   const handleModalSuccess = () => {
     // Refresh the page to show the new record
     router.refresh();
+    window.dispatchEvent(new CustomEvent('recordAdded'));
+    loadPendingReceipts();
     
     // Show success message
     setUploadState({
@@ -177,7 +203,7 @@ export default function UploadReceipt() {
             Upload Receipt
           </h3>
           <p className='text-sm text-gray-600 dark:text-gray-400'>
-            Upload PDF or image receipts to automatically extract expense data
+            Upload PDF or image receipts, one or many at a time, to automatically extract expense data
           </p>
         </div>
       </div>
@@ -195,6 +221,7 @@ export default function UploadReceipt() {
           ref={fileInputRef}
           type='file'
           accept='.pdf,image/*'
+          multiple
           onChange={handleFileUpload}
           className='absolute inset-0 w-full h-full opacity-0 cursor-pointer'
           disabled={uploadState.isUploading}
@@ -207,10 +234,12 @@ export default function UploadReceipt() {
             </div>
             <div>
               <p className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
-                Processing...
+                {uploadState.progress && uploadState.progress.total > 1
+                  ? `Processing ${uploadState.progress.current} of ${uploadState.progress.total}...`
+                  : 'Processing...'}
               </p>
               <p className='text-sm text-gray-600 dark:text-gray-400'>
-                Extracting text and analyzing your receipt
+                Extracting text and analyzing your receipts
               </p>
             </div>
           </div>
@@ -249,7 +278,7 @@ export default function UploadReceipt() {
             </div>
             <div>
               <p className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
-                Drop your receipt here
+                Drop your receipts here
               </p>
               <p className='text-sm text-gray-600 dark:text-gray-400 mb-4'>
                 or click to browse files
@@ -281,6 +310,12 @@ export default function UploadReceipt() {
         </div>
       )}
 
+      <ReceiptReviewQueue
+        receipts={pendingReceipts}
+        baseCurrency={baseCurrency}
+        onChanged={loadPendingReceipts}
+      />
+
       {/* Confirmation Modal */}
       {modalData.extracted && (
         <ReceiptConfirmationModal
@@ -289,6 +324,7 @@ export default function UploadReceipt() {
           extracted={modalData.extracted}
           category={modalData.category}
           uploadId={modalData.uploadId}
+          baseCurrency={baseCurrency}
           onSuccess={handleModalSuccess}
         />
       )}
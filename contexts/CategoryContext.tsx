@@ -0,0 +1,78 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import getCategories from '@/app/actions/getCategories';
+import {
+  DEFAULT_CATEGORIES,
+  getCategoryLabel,
+  getLeafCategories,
+} from '@/lib/categories';
+import { Category } from '@/types/Category';
+
+interface CategoryContextType {
+  categories: Category[]; // Including archived ones, for labelling old records
+  activeCategories: Category[]; // Not archived
+  leafCategories: Category[]; // Active categories without subcategories, offered in pickers
+  getCategory: (name: string) => Category | undefined;
+  getLabel: (name: string) => string; // "Parent › Child" path
+  reloadCategories: () => Promise<void>;
+}
+
+// Shown until the user's own categories have loaded
+const fallbackCategories: Category[] = DEFAULT_CATEGORIES.map((category) => ({
+  ...category,
+  id: category.name,
+  parentId: null,
+  archived: false,
+}));
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+export function CategoryProvider({ children }: { children: React.ReactNode }) {
+  const { isSignedIn, userId } = useAuth();
+  const [categories, setCategories] = useState<Category[]>(fallbackCategories);
+
+  const reloadCategories = useCallback(async () => {
+    const result = await getCategories();
+    if (result.categories) {
+      setCategories(result.categories);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn) {
+      reloadCategories();
+    } else {
+      setCategories(fallbackCategories);
+    }
+  }, [isSignedIn, userId, reloadCategories]);
+
+  const getCategory = useCallback(
+    (name: string) => categories.find((category) => category.name === name),
+    [categories]
+  );
+
+  return (
+    <CategoryContext.Provider
+      value={{
+        categories,
+        activeCategories: categories.filter((category) => !category.archived),
+        leafCategories: getLeafCategories(categories),
+        getCategory,
+        getLabel: (name: string) => getCategoryLabel(name, categories),
+        reloadCategories,
+      }}
+    >
+      {children}
+    </CategoryContext.Provider>
+  );
+}
+
+export function useCategories() {
+  const context = useContext(CategoryContext);
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoryProvider');
+  }
+  return context;
+}
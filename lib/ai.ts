@@ -1,4 +1,10 @@
 import OpenAI from 'openai';
+import { BudgetStatus } from '@/types/Budget';
+import {
+  DEFAULT_CATEGORY_NAMES,
+  getFallbackCategory,
+  matchCategoryName,
+} from './categories';
 
 interface RawInsight {
   type?: string;
@@ -35,7 +41,9 @@ export interface AIInsight {
 }
 
 export async function generateExpenseInsights(
-  expenses: ExpenseRecord[]
+  expenses: ExpenseRecord[],
+  currency: string = 'USD',
+  budgets?: BudgetStatus
 ): Promise<AIInsight[]> {
   try {
     // Prepare expense data for AI analysis
@@ -46,6 +54,36 @@ export async function generateExpenseInsights(
       date: expense.date,
     }));
 
+    // Only the fields the model needs to judge each limit
+    const budgetLines = budgets
+      ? [...(budgets.overall ? [budgets.overall] : []), ...budgets.categories]
+      : [];
+    const budgetSummary = budgets
+      ? {
+          month: budgets.month,
+          daysElapsed: budgets.daysElapsed,
+          daysInMonth: budgets.daysInMonth,
+          budgets: budgetLines.map((line) => ({
+            category: line.category || 'Overall',
+            limit: Number(line.limit.toFixed(2)),
+            spent: Number(line.spent.toFixed(2)),
+            projectedMonthEnd: Number(line.projected.toFixed(2)),
+            isOver: line.isOver,
+          })),
+        }
+      : null;
+
+    const budgetSection =
+      budgetSummary && budgetSummary.budgets.length > 0
+        ? `Budget Status for this month (all amounts in ${currency}):
+    ${JSON.stringify(budgetSummary, null, 2)}`
+        : 'The user has not set any budgets.';
+
+    const budgetFocus =
+      budgetSummary && budgetSummary.budgets.length > 0
+        ? 'Budget alerts (use the budget limits above: flag budgets that are over or projected to go over)'
+        : 'Budget alerts (high spending areas; suggest setting a budget)';
+
     const prompt = `Analyze the following expense data and provide 3-4 actionable financial insights. 
     Return a JSON array of insights with this structure:
     {
@@ -56,12 +94,14 @@ export async function generateExpenseInsights(
       "confidence": 0.8
     }
 
-    Expense Data:
+    Expense Data (all amounts in ${currency}):
     ${JSON.stringify(expensesSummary, null, 2)}
 
+    ${budgetSection}
+
     Focus on:
     1. Spending patterns (day of week, categories)
-    2. Budget alerts (high spending areas)
+    2. ${budgetFocus}
     3. Money-saving opportunities
     4. Positive reinforcement for good habits
 
@@ -135,15 +175,17 @@ export async function generateExpenseInsights(
   }
 }
 
-export async function categorizeExpense(description: string): Promise<string> {
+export async function categorizeExpense(
+  description: string,
+  categories: string[] = DEFAULT_CATEGORY_NAMES
+): Promise<string> {
   try {
     const completion = await openai.chat.completions.create({
       model: 'deepseek/deepseek-chat-v3-0324:free',
       messages: [
         {
           role: 'system',
-          content:
-            'You are an expense categorization AI. Categorize expenses into one of these categories: Food, Transportation, Entertainment, Shopping, Bills, Healthcare, Other. Respond with only the category name.',
+          content: `You are an expense categorization AI. Categorize expenses into one of these categories: ${categories.join(', ')}. Respond with only the category name.`,
         },
         {
           role: 'user',
@@ -156,29 +198,87 @@ export async function categorizeExpense(description: string): Promise<string> {
 
     const category = completion.choices[0].message.content?.trim();
 
-    const validCategories = [
-      'Food',
-      'Transportation',
-      'Entertainment',
-      'Shopping',
-      'Bills',
-      'Healthcare',
-      'Other',
-    ];
-
-    const finalCategory = validCategories.includes(category || '')
-      ? category!
-      : 'Other';
-    return finalCategory;
+    return (
+      matchCategoryName(category || '', categories) ||
+      getFallbackCategory(categories)
+    );
   } catch (error) {
     console.error('❌ Error categorizing expense:', error);
-    return 'Other';
+    return getFallbackCategory(categories);
+  }
+}
+
+// Descriptions sent to the model in one request, and requests in flight at
+// once, so a large import takes a few calls instead of one per row
+const CATEGORIZE_BATCH_SIZE = 50;
+const CATEGORIZE_CONCURRENCY = 3;
+
+async function categorizeBatch(
+  descriptions: string[],
+  categories: string[]
+): Promise<string[]> {
+  const fallback = getFallbackCategory(categories);
+  try {
+    const completion = await openai.chat.completions.create({
+      model: 'deepseek/deepseek-chat-v3-0324:free',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expense categorization AI. Categorize expenses into one of these categories: ${categories.join(', ')}. Respond with only a JSON array of category names, one per expense, in the same order.`,
+        },
+        {
+          role: 'user',
+          content: `Categorize these expenses:\n${descriptions
+            .map((description, index) => `${index + 1}. ${description}`)
+            .join('\n')}`,
+        },
+      ],
+      temperature: 0.1,
+      max_tokens: descriptions.length * 10 + 50,
+    });
+
+    const response = completion.choices[0].message.content || '';
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    const parsed: unknown = jsonMatch ? JSON.parse(jsonMatch[0]) : [];
+    const names = Array.isArray(parsed) ? parsed : [];
+
+    return descriptions.map(
+      (_, index) =>
+        matchCategoryName(String(names[index] || ''), categories) || fallback
+    );
+  } catch (error) {
+    console.error('❌ Error categorizing expenses:', error);
+    return descriptions.map(() => fallback);
+  }
+}
+
+// Categories for many descriptions at once, in the same order. Batches that
+// fail fall back to the default category
+export async function categorizeExpenses(
+  descriptions: string[],
+  categories: string[] = DEFAULT_CATEGORY_NAMES
+): Promise<string[]> {
+  const batches: string[][] = [];
+  for (let start = 0; start < descriptions.length; start += CATEGORIZE_BATCH_SIZE) {
+    batches.push(descriptions.slice(start, start + CATEGORIZE_BATCH_SIZE));
+  }
+
+  const results: string[][] = [];
+  for (let start = 0; start < batches.length; start += CATEGORIZE_CONCURRENCY) {
+    const group = batches.slice(start, start + CATEGORIZE_CONCURRENCY);
+    results.push(
+      ...(await Promise.all(
+        group.map((batch) => categorizeBatch(batch, categories))
+      ))
+    );
   }
+  return results.flat();
 }
 
 export async function generateAIAnswer(
   question: string,
-  context: ExpenseRecord[]
+  context: ExpenseRecord[],
+  currency: string = 'USD'
 ): Promise<string> {
   try {
     const expensesSummary = context.map((expense) => ({
@@ -190,7 +290,7 @@ export async function generateAIAnswer(
 
     const prompt = `Based on the following expense data, provide a detailed and actionable answer to this question: "${question}"
 
-    Expense Data:
+    Expense Data (all amounts in ${currency}):
     ${JSON.stringify(expensesSummary, null, 2)}
 
     Provide a comprehensive answer that:
@@ -0,0 +1,72 @@
+import { RecordAttachment } from '@/types/Record';
+
+// Select the stored receipt file behind a record, if any
+export const recordAttachmentInclude = {
+  upload: {
+    select: {
+      id: true,
+      fileName: true,
+      contentType: true,
+      storageKey: true,
+      thumbnailKey: true,
+    },
+  },
+};
+
+export function toRecordAttachment(
+  upload: {
+    id: string;
+    fileName: string;
+    contentType: string | null;
+    storageKey: string | null;
+    thumbnailKey: string | null;
+  } | null
+): RecordAttachment | null {
+  // Uploads from before files were kept only have their OCR text
+  if (!upload || !upload.storageKey) {
+    return null;
+  }
+  return {
+    uploadId: upload.id,
+    fileName: upload.fileName,
+    contentType: upload.contentType,
+    hasThumbnail: !!upload.thumbnailKey,
+  };
+}
+
+// File types safe to show in the browser. The stored type is whatever the
+// client sent, so anything else (an SVG can run script) is downloaded
+const INLINE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'image/tiff',
+  'image/bmp',
+  'application/pdf',
+];
+
+export function isInlineContentType(contentType: string | null): boolean {
+  return !!contentType && INLINE_CONTENT_TYPES.includes(contentType.toLowerCase());
+}
+
+// Content-Disposition for a stored file. Older clients only read the quoted
+// filename, so it's kept to printable ASCII; the full name goes in filename*
+export function getContentDisposition(
+  fileName: string,
+  inline: boolean
+): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${inline ? 'inline' : 'attachment'}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export function getAttachmentUrl(uploadId: string, thumbnail = false): string {
+  return `/api/uploads/${uploadId}/file${thumbnail ? '?thumbnail=1' : ''}`;
+}
+
+// The image OCR read from a photo, which its word boxes refer to
+export function getOcrImageUrl(uploadId: string): string {
+  return `/api/uploads/${uploadId}/file?ocr=1`;
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getBudgetStatus } from './budgets';
+
+const db = vi.hoisted(() => ({
+  budget: { findMany: vi.fn() },
+  record: { findMany: vi.fn() },
+}));
+
+vi.mock('./db', () => ({ db }));
+
+// Euros at 2 dollars, and no rate for pesos
+vi.mock('./exchangeRates', () => ({
+  getCurrencyConverter: async () => {
+    const missingRates = new Set<string>();
+    return {
+      baseCurrency: 'USD',
+      missingRates,
+      toBase: (amount: number, currency: string) => {
+        if (currency === 'USD') return amount;
+        if (currency === 'EUR') return amount * 2;
+        missingRates.add(currency);
+        return null;
+      },
+    };
+  },
+}));
+
+vi.mock('./userCategories', () => ({
+  getUserCategories: async () => [
+    { id: 'food', name: 'Food', icon: '', color: '#000000', parentId: null, archived: false },
+    { id: 'groceries', name: 'Groceries', icon: '', color: '#000000', parentId: 'food', archived: false },
+  ],
+}));
+
+const record = (
+  amount: number,
+  category: string,
+  currency = 'USD',
+  splits: { category: string; amount: number }[] = []
+) => ({ amount, currency, category, date: new Date('2025-04-05T12:00:00Z'), splits });
+
+const budget = (id: string, category: string | null, amount: number) => ({
+  id,
+  userId: 'user-1',
+  category,
+  amount,
+});
+
+describe('getBudgetStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads the current UTC month and projects spending to its end', async () => {
+    db.budget.findMany.mockResolvedValue([budget('all', null, 300)]);
+    db.record.findMany.mockResolvedValue([record(100, 'Travel')]);
+
+    const status = await getBudgetStatus('user-1', new Date('2025-04-10T08:00:00Z'));
+
+    expect(db.record.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          date: {
+            gte: new Date('2025-04-01T00:00:00Z'),
+            lt: new Date('2025-05-01T00:00:00Z'),
+          },
+        },
+      })
+    );
+    expect(status).toMatchObject({
+      month: '2025-04',
+      daysElapsed: 10,
+      daysInMonth: 30,
+      overall: { spent: 100, projected: 300, isOver: false, isProjectedOver: false },
+    });
+  });
+
+  it('counts subcategories and split lines towards a parent budget', async () => {
+    db.budget.findMany.mockResolvedValue([
+      budget('food', 'Food', 100),
+      budget('groceries', 'Groceries', 50),
+    ]);
+    db.record.findMany.mockResolvedValue([
+      record(30, 'Food'),
+      record(40, 'Groceries'),
+      record(50, 'Travel', 'USD', [
+        { category: 'Travel', amount: 20 },
+        { category: 'Groceries', amount: 30 },
+      ]),
+    ]);
+
+    const status = await getBudgetStatus('user-1', new Date('2025-04-30T12:00:00Z'));
+
+    expect(status.overall).toBeNull();
+    expect(
+      status.categories.map(({ category, spent, isOver }) => ({ category, spent, isOver }))
+    ).toEqual([
+      { category: 'Groceries', spent: 70, isOver: true },
+      { category: 'Food', spent: 100, isOver: false },
+    ]);
+  });
+
+  it('converts to the base currency and leaves out expenses without a rate', async () => {
+    db.budget.findMany.mockResolvedValue([
+      budget('all', null, 1000),
+      budget('food', 'Food', 1000),
+    ]);
+    db.record.findMany.mockResolvedValue([
+      record(10, 'Food', 'EUR'),
+      record(500, 'Food', 'MXN'),
+    ]);
+
+    const status = await getBudgetStatus('user-1', new Date('2025-04-30T12:00:00Z'));
+
+    expect(status.overall?.spent).toBe(20);
+    expect(status.categories[0].spent).toBe(20);
+    expect(status.missingRates).toEqual(['MXN']);
+  });
+});
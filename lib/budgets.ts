@@ -0,0 +1,89 @@
+import { db } from './db';
+import { getCurrencyConverter } from './exchangeRates';
+import { getDescendantNames } from './categories';
+import { getUserCategories } from './userCategories';
+import { getCategoryShares } from './splits';
+import { BudgetLine, BudgetStatus } from '@/types/Budget';
+
+// Compare this month's spending against the user's budgets. Months are
+// calendar months in UTC, matching how expense dates are stored.
+export async function getBudgetStatus(
+  userId: string,
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const monthStart = new Date(Date.UTC(year, month, 1));
+  const nextMonthStart = new Date(Date.UTC(year, month + 1, 1));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const daysElapsed = now.getUTCDate();
+
+  const [budgets, records, converter, categories] = await Promise.all([
+    db.budget.findMany({ where: { userId } }),
+    db.record.findMany({
+      where: { userId, date: { gte: monthStart, lt: nextMonthStart } },
+      select: {
+        amount: true,
+        currency: true,
+        category: true,
+        date: true,
+        splits: { select: { category: true, amount: true } },
+      },
+    }),
+    getCurrencyConverter(userId),
+    getUserCategories(userId),
+  ]);
+
+  let totalSpent = 0;
+  const spentByCategory = new Map<string, number>();
+  records.forEach((record) => {
+    // Expenses without an exchange rate are left out
+    const amount = converter.toBase(record.amount, record.currency, record.date);
+    if (amount === null) return;
+    totalSpent += amount;
+    getCategoryShares(record).forEach((share) => {
+      spentByCategory.set(
+        share.category,
+        (spentByCategory.get(share.category) || 0) +
+          (converter.toBase(share.amount, record.currency, record.date) ?? 0)
+      );
+    });
+  });
+
+  const toLine = (budget: (typeof budgets)[number], spent: number): BudgetLine => {
+    const projected = (spent / daysElapsed) * daysInMonth;
+    return {
+      id: budget.id,
+      category: budget.category,
+      limit: budget.amount,
+      spent,
+      projected,
+      isOver: spent > budget.amount,
+      isProjectedOver: projected > budget.amount,
+    };
+  };
+
+  const overallBudget = budgets.find((budget) => budget.category === null);
+
+  return {
+    currency: converter.baseCurrency,
+    missingRates: Array.from(converter.missingRates),
+    month: `${year}-${String(month + 1).padStart(2, '0')}`,
+    daysElapsed,
+    daysInMonth,
+    overall: overallBudget ? toLine(overallBudget, totalSpent) : null,
+    categories: budgets
+      .filter((budget) => budget.category !== null)
+      .map((budget) =>
+        toLine(
+          budget,
+          // A parent category's budget covers its subcategories too
+          getDescendantNames(budget.category!, categories).reduce(
+            (sum, name) => sum + (spentByCategory.get(name) || 0),
+            0
+          )
+        )
+      )
+      .sort((a, b) => b.spent / b.limit - a.spent / a.limit), // Closest to the limit first
+  };
+}
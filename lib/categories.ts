@@ -0,0 +1,209 @@
+import { Category, CategoryTotal } from '@/types/Category';
+
+export const DEFAULT_CATEGORY = 'Other';
+
+// Seeded for every user; they can rename, recolour, archive or merge them
+export const DEFAULT_CATEGORIES: Omit<Category, 'id' | 'parentId' | 'archived'>[] = [
+  { name: 'Food', icon: '🍔', color: '#f97316' },
+  { name: 'Transportation', icon: '🚗', color: '#3b82f6' },
+  { name: 'Entertainment', icon: '🎬', color: '#a855f7' },
+  { name: 'Shopping', icon: '🛒', color: '#ec4899' },
+  { name: 'Bills', icon: '💡', color: '#eab308' },
+  { name: 'Healthcare', icon: '🏥', color: '#ef4444' },
+  { name: 'Other', icon: '📦', color: '#6b7280' },
+];
+
+export const DEFAULT_CATEGORY_NAMES = DEFAULT_CATEGORIES.map(
+  (category) => category.name
+);
+
+// Find a category name in a list, ignoring case and surrounding spaces
+export function matchCategoryName(
+  value: string,
+  names: string[]
+): string | null {
+  const normalized = value.trim().toLowerCase();
+  return names.find((name) => name.toLowerCase() === normalized) || null;
+}
+
+// Categories in tree order (each parent followed by its children) with
+// their depth, for indented lists
+export function flattenCategoryTree(
+  categories: Category[]
+): { category: Category; depth: number }[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const result: { category: Category; depth: number }[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter((category) =>
+        parentId === null
+          ? !category.parentId || !ids.has(category.parentId) // Orphans show at the top
+          : category.parentId === parentId
+      )
+      .forEach((category) => {
+        result.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  return result;
+}
+
+// Names of a category and all of its descendants
+export function getDescendantNames(
+  name: string,
+  categories: Category[]
+): string[] {
+  const root = categories.find((category) => category.name === name);
+  if (!root) return [name];
+
+  const names = [root.name];
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    categories
+      .filter((category) => category.parentId === parentId)
+      .forEach((category) => {
+        names.push(category.name);
+        queue.push(category.id);
+      });
+  }
+  return names;
+}
+
+// Ancestors of a category from the top level down, ending with itself
+export function getCategoryPath(
+  name: string,
+  categories: Category[]
+): Category[] {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.name === name);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = categories.find((category) => category.id === parentId);
+  }
+  return path;
+}
+
+// "Food › Coffee" style label for a category
+export function getCategoryLabel(name: string, categories: Category[]): string {
+  const path = getCategoryPath(name, categories);
+  return path.length > 0
+    ? path.map((category) => category.name).join(' › ')
+    : name;
+}
+
+// Categories records can be assigned to: active ones with no active children
+export function getLeafCategories(categories: Category[]): Category[] {
+  const active = categories.filter((category) => !category.archived);
+  return active.filter(
+    (category) => !active.some((child) => child.parentId === category.id)
+  );
+}
+
+// Roll per-category spending up the tree. Spending on names that aren't in
+// the list (e.g. a category that was deleted) is reported at the top level.
+export function rollUpCategoryTotals(
+  spentByCategory: Map<string, number>,
+  categories: Category[]
+): CategoryTotal[] {
+  const build = (category: Category): CategoryTotal => {
+    const children = categories
+      .filter((child) => child.parentId === category.id)
+      .map(build)
+      .filter((child) => child.total > 0)
+      .sort((a, b) => b.total - a.total);
+    const own = spentByCategory.get(category.name) || 0;
+    return {
+      name: category.name,
+      icon: category.icon,
+      color: category.color,
+      own,
+      total: own + children.reduce((sum, child) => sum + child.total, 0),
+      children,
+    };
+  };
+
+  const ids = new Set(categories.map((category) => category.id));
+  const known = new Set(categories.map((category) => category.name));
+  const roots = categories
+    .filter((category) => !category.parentId || !ids.has(category.parentId))
+    .map(build);
+
+  spentByCategory.forEach((amount, name) => {
+    if (!known.has(name)) {
+      roots.push({
+        name,
+        icon: '📦',
+        color: '#6b7280',
+        own: amount,
+        total: amount,
+        children: [],
+      });
+    }
+  });
+
+  return roots
+    .filter((root) => root.total > 0)
+    .sort((a, b) => b.total - a.total);
+}
+
+// Category used when nothing better matches: "Other" unless the user has
+// renamed or merged it away
+export function getFallbackCategory(names: string[]): string {
+  return names.includes(DEFAULT_CATEGORY) || names.length === 0
+    ? DEFAULT_CATEGORY
+    : names[names.length - 1];
+}
+
+// Inline style for a badge tinted with the category's colour
+export function categoryBadgeStyle(color: string = '#6b7280') {
+  return {
+    backgroundColor: `${color}26`, // About 15% opacity
+    color,
+  };
+}
+
+export function isValidCategoryColor(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value);
+}
+
+// Validated fields of the category form shared by the create and update
+// actions; fields that weren't sent are left undefined
+export function parseCategoryFormData(formData: FormData): {
+  input?: {
+    name?: string;
+    icon?: string;
+    color?: string;
+    parentId?: string | null; // Null to make it a top-level category
+  };
+  error?: string;
+} {
+  const nameValue = formData.get('name');
+  const iconValue = formData.get('icon');
+  const colorValue = formData.get('color');
+  const parentValue = formData.get('parentId');
+
+  const name = nameValue !== null ? nameValue.toString().trim() : undefined;
+  if (name !== undefined && (name === '' || name.length > 40)) {
+    return { error: 'Category name must be between 1 and 40 characters' };
+  }
+
+  const icon = iconValue ? iconValue.toString().trim() : undefined;
+  if (icon !== undefined && Array.from(icon).length > 4) {
+    return { error: 'Category icon must be a single emoji' };
+  }
+
+  const color = colorValue ? colorValue.toString() : undefined;
+  if (color !== undefined && !isValidCategoryColor(color)) {
+    return { error: 'Category colour must be a hex colour like #3b82f6' };
+  }
+
+  const parentId =
+    parentValue !== null ? parentValue.toString() || null : undefined;
+
+  return { input: { name, icon, color, parentId } };
+}
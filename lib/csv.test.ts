@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsvField, toCsvRow } from './csv';
+
+describe('toCsvField', () => {
+  it.each([
+    ['Coffee', 'Coffee'],
+    [12.5, '12.5'],
+    [-3, '-3'],
+    ['=SUM(A1:A2)', "'=SUM(A1:A2)"],
+    ['+1 555', "'+1 555"],
+    ['-5 discount', "'-5 discount"],
+    ['@cmd', "'@cmd"],
+    ['\tTab', "'\tTab"],
+    ['Bread, milk', '"Bread, milk"'],
+    ['12" pizza', '"12"" pizza"'],
+    ['=HYPERLINK("x")', `"'=HYPERLINK(""x"")"`],
+    ['Two\nlines', '"Two\nlines"'],
+  ])('writes %j as %j', (value, expected) => {
+    expect(toCsvField(value)).toBe(expected);
+  });
+
+  it('ends rows with CRLF', () => {
+    expect(toCsvRow(['a', 1, '=b'])).toBe("a,1,'=b\r\n");
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('text,amount\r\n"Bread, milk",3\r\n"12"" pizza","Two\nlines"\r\n')).toEqual([
+      ['text', 'amount'],
+      ['Bread, milk', '3'],
+      ['12" pizza', 'Two\nlines'],
+    ]);
+  });
+
+  it.each([
+    ['date;amount\n2025-01-02;12,50', ';'],
+    ['date\tamount\n2025-01-02\t12.50', '\t'],
+    ['date,amount\n2025-01-02,12.50', ','],
+  ])('detects the delimiter of %j', (text, delimiter) => {
+    expect(parseCsv(text)[1]).toEqual(text.split('\n')[1].split(delimiter));
+  });
+
+  it('strips a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n,\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('reads back what toCsvRow writes', () => {
+    const values = ['Bread, "fresh"', 'Two\nlines', 'plain'];
+    expect(parseCsv(toCsvRow(values))).toEqual([values]);
+  });
+});
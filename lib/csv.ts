@@ -0,0 +1,77 @@
+// Quote a CSV field when needed (RFC 4180). Text starting with a formula
+// character is prefixed with an apostrophe so spreadsheets don't evaluate it.
+export function toCsvField(value: string | number): string {
+  let field = String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+
+  if (/[",\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+
+  return field;
+}
+
+export function toCsvRow(values: (string | number)[]): string {
+  return values.map(toCsvField).join(',') + '\r\n';
+}
+
+// Parse CSV text into rows of fields. Handles quoted fields with embedded
+// delimiters, quotes and line breaks. The delimiter is detected from the
+// first line (comma, semicolon or tab) unless given.
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, ''); // Strip a byte order mark
+  const separator = delimiter || detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map((candidate) => ({
+    candidate,
+    count: firstLine.split(candidate).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].candidate : ',';
+}
@@ -0,0 +1,189 @@
+// Currency helpers shared by the server actions and the UI
+
+export interface CurrencyInfo {
+  code: string; // ISO 4217 code
+  symbol: string;
+  label: string;
+  locale: string; // Locale used to format amounts in this currency
+  decimalSeparator: '.' | ','; // As printed on receipts; the other one groups thousands
+  decimals: number; // Digits after the decimal separator, 0 when prices are whole
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', symbol: '$', label: 'US Dollar', locale: 'en-US', decimalSeparator: '.', decimals: 2 },
+  { code: 'EUR', symbol: '€', label: 'Euro', locale: 'es-ES', decimalSeparator: ',', decimals: 2 },
+  { code: 'BOB', symbol: 'Bs', label: 'Boliviano', locale: 'es-BO', decimalSeparator: ',', decimals: 2 },
+  { code: 'VES', symbol: 'Bs.', label: 'Bolívar', locale: 'es-VE', decimalSeparator: ',', decimals: 2 },
+  { code: 'ARS', symbol: 'AR$', label: 'Argentine Peso', locale: 'es-AR', decimalSeparator: ',', decimals: 2 },
+  { code: 'MXN', symbol: 'MX$', label: 'Mexican Peso', locale: 'es-MX', decimalSeparator: '.', decimals: 2 },
+  { code: 'COP', symbol: 'COL$', label: 'Colombian Peso', locale: 'es-CO', decimalSeparator: ',', decimals: 0 },
+  { code: 'CLP', symbol: 'CLP$', label: 'Chilean Peso', locale: 'es-CL', decimalSeparator: ',', decimals: 0 },
+  { code: 'GBP', symbol: '£', label: 'Pound Sterling', locale: 'en-GB', decimalSeparator: '.', decimals: 2 },
+  { code: 'JPY', symbol: '¥', label: 'Japanese Yen', locale: 'ja-JP', decimalSeparator: '.', decimals: 0 },
+  { code: 'INR', symbol: '₹', label: 'Indian Rupee', locale: 'en-IN', decimalSeparator: '.', decimals: 2 },
+];
+
+// Symbols and spellings seen on receipts, mapped to ISO codes.
+// "Bs" defaults to the boliviano, which is what the app has always displayed.
+const CURRENCY_ALIASES: { [alias: string]: string } = {
+  $: 'USD',
+  US$: 'USD',
+  U$S: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '円': 'JPY',
+  '₹': 'INR',
+  RS: 'INR',
+  'RS.': 'INR',
+  BS: 'BOB',
+  'BS.': 'BOB',
+  'BS.S': 'VES',
+  'BS.F': 'VES',
+  'BS.D': 'VES',
+  BSS: 'VES',
+  BSF: 'VES',
+  VEF: 'VES',
+  AR$: 'ARS',
+  MX$: 'MXN',
+  MEX$: 'MXN',
+  COL$: 'COP',
+  CLP$: 'CLP',
+  CH$: 'CLP',
+};
+
+// Currencies written with a bare "$" on receipts
+const DOLLAR_SIGN_CURRENCIES = ['USD', 'ARS', 'MXN', 'COP', 'CLP'];
+
+// The currency's code or tax ID name, which give away which country a "$"
+// receipt is from
+const DOLLAR_COUNTRY_HINTS: { pattern: RegExp; currency: string }[] = [
+  { pattern: /\bMXN\b|\bR\.?F\.?C\b/, currency: 'MXN' },
+  { pattern: /\bARS\b|\bCUI[TL]\b/i, currency: 'ARS' },
+  { pattern: /\bCLP\b|\bR\.?U\.?T\b/, currency: 'CLP' },
+  { pattern: /\bCOP\b|\bN\.?I\.?T\b/, currency: 'COP' },
+];
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every symbol and code that can mark an amount's currency, as a regular
+// expression alternation. Longest first, so "Bs.S" wins over "Bs" and
+// "US$" over "$"; match it case-insensitively
+export const CURRENCY_TOKEN_PATTERN = Array.from(
+  new Set([
+    ...SUPPORTED_CURRENCIES.flatMap((currency) => [currency.code, currency.symbol]),
+    ...Object.keys(CURRENCY_ALIASES),
+  ])
+)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+// A currency symbol or code standing on its own, not inside a word
+const CURRENCY_TOKEN = new RegExp(
+  `(?:^|[^A-Za-zÀ-ÿ])(${CURRENCY_TOKEN_PATTERN})(?![A-Za-zÀ-ÿ])`,
+  'gi'
+);
+
+export function isSupportedCurrency(code: string): boolean {
+  return SUPPORTED_CURRENCIES.some((currency) => currency.code === code);
+}
+
+export function getCurrencyInfo(code: string): CurrencyInfo | undefined {
+  return SUPPORTED_CURRENCIES.find((currency) => currency.code === code);
+}
+
+// Turn a symbol or code as extracted from a receipt into a supported ISO code
+export function normalizeCurrencyCode(
+  value: string | null | undefined,
+  fallback: string = DEFAULT_CURRENCY
+): string {
+  if (!value) return fallback;
+
+  const cleaned = value.trim().toUpperCase();
+  if (isSupportedCurrency(cleaned)) return cleaned;
+
+  return CURRENCY_ALIASES[cleaned] || fallback;
+}
+
+export function formatCurrency(amount: number, currency: string): string {
+  const info = getCurrencyInfo(currency);
+
+  try {
+    return new Intl.NumberFormat(info?.locale || 'en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown ISO code - fall back to a plain number with the code appended
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// The ISO code of a currency symbol or code found on a receipt. A bare "$"
+// is shared by several currencies: tax ID names on the receipt tell which,
+// then the user's own currency if it's written with "$", then US dollars
+export function resolveCurrencyToken(
+  token: string,
+  text: string = '',
+  baseCurrency?: string | null
+): string | null {
+  const code = normalizeCurrencyCode(token, '');
+  if (!code) return null;
+  if (token.trim() !== '$') return code;
+
+  const hint = DOLLAR_COUNTRY_HINTS.find(({ pattern }) => pattern.test(text));
+  if (hint) return hint.currency;
+  return baseCurrency && DOLLAR_SIGN_CURRENCIES.includes(baseCurrency)
+    ? baseCurrency
+    : 'USD';
+}
+
+// The currency a receipt is in: the one its symbols and codes point to most
+// often. Null when none is printed
+export function detectReceiptCurrency(
+  text: string,
+  baseCurrency?: string | null
+): string | null {
+  const counts = new Map<string, number>();
+  for (const match of Array.from(text.matchAll(CURRENCY_TOKEN))) {
+    const code = resolveCurrencyToken(match[1], text, baseCurrency);
+    if (code) counts.set(code, (counts.get(code) || 0) + 1);
+  }
+  const [best] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return best ? best[0] : null;
+}
+
+// The decimal separator a locale writes, e.g. "," for "es-ES"
+export function getLocaleDecimalSeparator(locale: string): '.' | ',' | null {
+  try {
+    const separator = new Intl.NumberFormat(locale)
+      .formatToParts(1.5)
+      .find((part) => part.type === 'decimal')?.value;
+    return separator === '.' || separator === ',' ? separator : null;
+  } catch {
+    return null; // Not a valid locale
+  }
+}
+
+// Prices as printed, as a regular expression alternation: with cents
+// ("12,50", "1.234,56") or, in currencies without cents, whole ("25.900",
+// "¥1,200", "500"). When the currency isn't known, amounts grouped in
+// thousands count too, since whole numbers are more often quantities
+export function getPricePattern(currency?: string | null): string {
+  const withCents = '\\d{1,3}(?:[.,]\\d{3})+[.,]\\d{2}|\\d+[.,]\\d{2}';
+  const grouped = '\\d{1,3}(?:[.,]\\d{3})+';
+  const info = currency ? getCurrencyInfo(currency) : undefined;
+  if (!info) return `${withCents}|${grouped}`;
+  return info.decimals === 0 ? `${grouped}|\\d+` : withCents;
+}
+
+// Whether text has a price in it, not part of a longer number or a date
+export function containsPrice(text: string, currency?: string | null): boolean {
+  return new RegExp(
+    `(?:^|[^\\d.,])(?:${getPricePattern(currency)})(?![.,]?\\d)`
+  ).test(text);
+}
@@ -0,0 +1,79 @@
+import { db } from './db';
+import { DEFAULT_CURRENCY } from './currency';
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  // Null when there's no rate, so totals leave the amount out rather than
+  // add it at face value
+  toBase: (amount: number, currency: string, date?: Date) => number | null;
+  missingRates: Set<string>; // Currencies that could not be converted
+}
+
+interface RateEntry {
+  rate: number; // Units of the currency per one USD
+  effectiveDate: Date;
+}
+
+// Build a converter into the user's base currency from their stored rates
+export async function getCurrencyConverter(
+  userId: string
+): Promise<CurrencyConverter> {
+  const [user, rates] = await Promise.all([
+    db.user.findUnique({
+      where: { clerkUserId: userId },
+      select: { baseCurrency: true },
+    }),
+    db.exchangeRate.findMany({
+      where: { userId },
+      orderBy: { effectiveDate: 'asc' },
+    }),
+  ]);
+
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+
+  const ratesByCurrency = new Map<string, RateEntry[]>();
+  rates.forEach((rate) => {
+    const history = ratesByCurrency.get(rate.currency) || [];
+    history.push({ rate: rate.rate, effectiveDate: rate.effectiveDate });
+    ratesByCurrency.set(rate.currency, history);
+  });
+
+  const rateFor = (currency: string, date?: Date): number | null => {
+    if (currency === 'USD') return 1;
+
+    const history = ratesByCurrency.get(currency);
+    if (!history || history.length === 0) return null;
+    if (!date) return history[history.length - 1].rate;
+
+    // Use the rate in effect on the given date, or the oldest known rate for
+    // expenses that predate the table
+    let selected = history[0];
+    for (const entry of history) {
+      if (entry.effectiveDate.getTime() > date.getTime()) break;
+      selected = entry;
+    }
+    return selected.rate;
+  };
+
+  const missingRates = new Set<string>();
+
+  const toBase = (
+    amount: number,
+    currency: string,
+    date?: Date
+  ): number | null => {
+    if (currency === baseCurrency) return amount;
+
+    const fromRate = rateFor(currency, date);
+    const toRate = rateFor(baseCurrency, date);
+
+    if (!fromRate || !toRate) {
+      missingRates.add(fromRate ? baseCurrency : currency);
+      return null;
+    }
+
+    return (amount / fromRate) * toRate;
+  };
+
+  return { baseCurrency, toBase, missingRates };
+}
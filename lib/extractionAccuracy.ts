@@ -0,0 +1,151 @@
+import { normalizeCurrencyCode } from './currency';
+import {
+  ExtractionAccuracyRow,
+  ExtractionField,
+  FieldAccuracy,
+} from '@/types/ExtractionAccuracy';
+
+export const EXTRACTION_FIELDS: { field: ExtractionField; label: string }[] = [
+  { field: 'amount', label: 'Amount' },
+  { field: 'currency', label: 'Currency' },
+  { field: 'date', label: 'Date' },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Category' },
+];
+
+// Values as read from the receipt; null when nothing was found
+export interface ExtractedValues {
+  amount: number | null;
+  currency: string | null;
+  date: string | null; // YYYY-MM-DD
+  description: string | null;
+  category: string | null; // Suggested category
+}
+
+// Values of the record the user saved from the receipt
+export interface ConfirmedValues {
+  amount: number;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  category: string;
+}
+
+export interface FieldReview {
+  field: ExtractionField;
+  parsedValue: string | null;
+  confirmedValue: string;
+  corrected: boolean;
+}
+
+// Read the compared fields back from an upload's stored parse result
+export function toExtractedValues(
+  parsed: unknown,
+  suggestedCategory: string | null
+): ExtractedValues {
+  const data = (parsed && typeof parsed === 'object' ? parsed : {}) as {
+    [key: string]: unknown;
+  };
+  const asText = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value : null;
+
+  return {
+    amount:
+      typeof data.amount === 'number' && isFinite(data.amount)
+        ? data.amount
+        : null,
+    currency: asText(data.currency),
+    date: asText(data.date),
+    description: asText(data.description),
+    category: suggestedCategory,
+  };
+}
+
+const normalizeText = (value: string) =>
+  value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Compare each extracted field with the saved value. Missing values count
+// as corrected, and text is compared ignoring case and spacing
+export function reviewExtractedFields(
+  parsed: ExtractedValues,
+  confirmed: ConfirmedValues
+): FieldReview[] {
+  const parsedCurrency = parsed.currency
+    ? normalizeCurrencyCode(parsed.currency, parsed.currency)
+    : null;
+
+  return [
+    {
+      field: 'amount',
+      parsedValue: parsed.amount !== null ? parsed.amount.toString() : null,
+      confirmedValue: confirmed.amount.toString(),
+      corrected:
+        parsed.amount === null ||
+        Math.abs(parsed.amount - confirmed.amount) > 0.005,
+    },
+    {
+      field: 'currency',
+      parsedValue: parsedCurrency,
+      confirmedValue: confirmed.currency,
+      corrected: parsedCurrency !== confirmed.currency,
+    },
+    {
+      field: 'date',
+      parsedValue: parsed.date,
+      confirmedValue: confirmed.date,
+      corrected: parsed.date !== confirmed.date,
+    },
+    {
+      field: 'description',
+      parsedValue: parsed.description,
+      confirmedValue: confirmed.description,
+      corrected:
+        parsed.description === null ||
+        normalizeText(parsed.description) !==
+          normalizeText(confirmed.description),
+    },
+    {
+      field: 'category',
+      parsedValue: parsed.category,
+      confirmedValue: confirmed.category,
+      corrected: parsed.category !== confirmed.category,
+    },
+  ];
+}
+
+// Per-field accuracy over a set of reviews, in EXTRACTION_FIELDS order
+export function getFieldAccuracy(
+  reviews: { field: string; corrected: boolean }[]
+): FieldAccuracy[] {
+  return EXTRACTION_FIELDS.map(({ field }) => {
+    const fieldReviews = reviews.filter((review) => review.field === field);
+    const corrected = fieldReviews.filter((review) => review.corrected).length;
+    return {
+      field,
+      reviewed: fieldReviews.length,
+      corrected,
+      accuracy:
+        fieldReviews.length > 0
+          ? (fieldReviews.length - corrected) / fieldReviews.length
+          : 0,
+    };
+  });
+}
+
+// Per-field accuracy for each calendar month (UTC), newest first
+export function summarizeAccuracyByMonth(
+  reviews: { field: string; corrected: boolean; createdAt: Date }[]
+): ExtractionAccuracyRow[] {
+  const byMonth = new Map<string, typeof reviews>();
+  reviews.forEach((review) => {
+    const period = review.createdAt.toISOString().slice(0, 7);
+    byMonth.set(period, [...(byMonth.get(period) || []), review]);
+  });
+
+  return Array.from(byMonth.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([period, monthReviews]) => ({
+      period,
+      fields: getFieldAccuracy(monthReviews),
+    }));
+}
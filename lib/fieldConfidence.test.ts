@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromConfidenceColumns,
+  scoreAiFields,
+  toConfidenceColumns,
+} from './fieldConfidence';
+import { ExtractedData } from './heuristicExtraction';
+
+const extracted = (fields: Partial<ExtractedData> = {}): ExtractedData => ({
+  description: null,
+  provider: null,
+  amount: null,
+  currency: 'BOB',
+  date: null,
+  lineItems: [],
+  breakdown: { subtotal: null, taxAmount: null, taxRate: null, tip: null, discount: null },
+  confidence: { amount: 0, date: 0, provider: 0, description: 0 },
+  ...fields,
+});
+
+const text = 'FARMACIA CHAVEZ\nFecha: 14/03/2025\nParacetamol 12,50\nIVA 1,63\nTOTAL 12,50';
+
+describe('scoreAiFields', () => {
+  it('scores values agreeing with the heuristics highest', () => {
+    const data = extracted({
+      amount: 12.5,
+      date: '2025-03-14',
+      provider: 'Farmacia Chávez',
+      description: 'Medicamentos',
+    });
+    const heuristic = extracted({
+      amount: 12.5,
+      date: '2025-03-14',
+      provider: 'FARMACIA CHÁVEZ',
+    });
+    expect(scoreAiFields(data, text, heuristic)).toEqual({
+      amount: 0.95,
+      date: 0.9,
+      provider: 0.9,
+      description: 0.7,
+    });
+  });
+
+  it('scores values printed on the receipt above values found nowhere', () => {
+    const heuristic = extracted({ amount: 12.5, date: '2025-03-01' });
+    expect(
+      scoreAiFields(
+        extracted({ amount: 1.63, date: '2025-03-14', provider: 'Farmacia Chavez' }),
+        text,
+        heuristic
+      )
+    ).toMatchObject({ amount: 0.85, date: 0.8, provider: 0.8 });
+    expect(
+      scoreAiFields(
+        extracted({ amount: 99, date: '2025-04-02', provider: 'Hipermaxi' }),
+        text,
+        heuristic
+      )
+    ).toMatchObject({ amount: 0.4, date: 0.4, provider: 0.4 });
+  });
+
+  it('scores missing fields and the fallback description lowest', () => {
+    expect(
+      scoreAiFields(extracted({ description: 'Compra general' }), text, extracted())
+    ).toEqual({ amount: 0, date: 0, provider: 0, description: 0.3 });
+  });
+
+  it('lets a reported score lower a field but never raise it', () => {
+    const data = extracted({ amount: 12.5, provider: 'Hipermaxi' });
+    expect(
+      scoreAiFields(data, text, extracted({ amount: 12.5 }), {
+        amount: 0.6,
+        provider: 0.99,
+        date: '0.5',
+        description: 7,
+      })
+    ).toEqual({ amount: 0.6, date: 0, provider: 0.4, description: 0 });
+  });
+});
+
+describe('confidence columns', () => {
+  it('round-trips through the upload columns', () => {
+    const confidence = { amount: 0.9, date: 0.8, provider: 0.7, description: 0.3 };
+    expect(fromConfidenceColumns(toConfidenceColumns(confidence))).toEqual(confidence);
+  });
+
+  it('reads uploads scanned before per-field scores as unknown', () => {
+    expect(
+      fromConfidenceColumns({
+        amountConfidence: 0.9,
+        dateConfidence: null,
+        providerConfidence: 0.7,
+        descriptionConfidence: 0.3,
+      })
+    ).toBeNull();
+  });
+});
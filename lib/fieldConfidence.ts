@@ -0,0 +1,131 @@
+import { ExtractedData, normalizeAmount } from './heuristicExtraction';
+import { extractDate } from './receiptDates';
+import { matchesDate } from './receiptImageFields';
+
+export type FieldConfidence = ExtractedData['confidence'];
+export type ConfidenceField = keyof FieldConfidence;
+
+// Fields scored below this are flagged for checking before saving
+export const LOW_CONFIDENCE = 0.7;
+
+// Per-field confidence as stored on an upload, one column per field
+export interface ConfidenceColumns {
+  amountConfidence: number | null;
+  dateConfidence: number | null;
+  providerConfidence: number | null;
+  descriptionConfidence: number | null;
+}
+
+export function toConfidenceColumns(
+  confidence: FieldConfidence
+): ConfidenceColumns {
+  return {
+    amountConfidence: confidence.amount,
+    dateConfidence: confidence.date,
+    providerConfidence: confidence.provider,
+    descriptionConfidence: confidence.description,
+  };
+}
+
+// Null for uploads scanned before confidence was stored per field
+export function fromConfidenceColumns(
+  columns: ConfidenceColumns
+): FieldConfidence | null {
+  const {
+    amountConfidence,
+    dateConfidence,
+    providerConfidence,
+    descriptionConfidence,
+  } = columns;
+  if (
+    amountConfidence === null ||
+    dateConfidence === null ||
+    providerConfidence === null ||
+    descriptionConfidence === null
+  ) {
+    return null;
+  }
+  return {
+    amount: amountConfidence,
+    date: dateConfidence,
+    provider: providerConfidence,
+    description: descriptionConfidence,
+  };
+}
+
+// A 0-1 score the model reported for a field, if it gave a usable one
+function readReported(reported: unknown, field: ConfidenceField) {
+  const value =
+    reported && typeof reported === 'object'
+      ? (reported as { [key: string]: unknown })[field]
+      : undefined;
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && number >= 0 && number <= 1
+    ? number
+    : null;
+}
+
+const simplify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9à-ÿ]/g, '');
+
+// Confidence in each field the AI model read, checked against the receipt
+// text: values printed on the receipt, or agreeing with the heuristics,
+// score higher than values found nowhere in it. A score the model reports
+// itself can lower a field's confidence but never raise it
+export function scoreAiFields(
+  data: ExtractedData,
+  text: string,
+  heuristic: ExtractedData,
+  reported?: unknown
+): FieldConfidence {
+  const printedAmounts = (text.match(/\d[\d.,]*\d/g) || []).map((amount) =>
+    normalizeAmount(amount, { currency: data.currency })
+  );
+  const printedDates = text.match(/\d{1,4}[\/.-]\d{1,2}[\/.-]\d{2,4}/g) || [];
+
+  const grounded: FieldConfidence = {
+    amount:
+      data.amount === null
+        ? 0
+        : heuristic.amount !== null &&
+            Math.abs(heuristic.amount - data.amount) < 0.005
+          ? 0.95
+          : printedAmounts.some(
+                (amount) =>
+                  amount !== null && Math.abs(amount - data.amount!) < 0.005
+              )
+            ? 0.85
+            : 0.4,
+    date: !data.date
+      ? 0
+      : data.date === heuristic.date
+        ? 0.9
+        : printedDates.some((date) => matchesDate(date, data.date!)) ||
+            extractDate(text).date === data.date
+          ? 0.8
+          : 0.4,
+    provider: !data.provider
+      ? 0
+      : heuristic.provider &&
+          simplify(heuristic.provider) === simplify(data.provider)
+        ? 0.9
+        : simplify(text).includes(simplify(data.provider))
+          ? 0.8
+          : 0.4,
+    // Descriptions are written by the model rather than printed
+    description: !data.description
+      ? 0
+      : data.description === 'Compra general'
+        ? 0.3
+        : 0.7,
+  };
+
+  const confidence = { ...grounded };
+  (Object.keys(grounded) as ConfidenceField[]).forEach((field) => {
+    const value = readReported(reported, field);
+    if (value !== null) {
+      confidence[field] = Math.min(grounded[field], value);
+    }
+  });
+  return confidence;
+}
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractAmount, normalizeAmount } from './heuristicExtraction';
+
+describe('normalizeAmount', () => {
+  it.each([
+    ['12.50', {}, 12.5],
+    ['12,5', {}, 12.5],
+    ['1.234,56', {}, 1234.56],
+    ['1,234.56', {}, 1234.56],
+    ['1.234.567', {}, 1234567],
+    ['1,23,456.00', {}, 123456],
+    ['0.1234', {}, 0.1234],
+    ['1.2345', {}, 1.2345],
+    ['0,500', {}, 0.5],
+    ['Bs 22,00', {}, 22],
+    // Three digits after one separator depend on the convention
+    ['1.234', {}, 1234],
+    ['1.234', { currency: 'EUR' }, 1234],
+    ['1,234', { currency: 'EUR' }, 1.234],
+    ['1,234', { currency: 'USD' }, 1234],
+    ['1.234', { currency: 'USD' }, 1.234],
+    ['1,234', { locale: 'es-ES' }, 1.234],
+    ['25.900', { currency: 'CLP' }, 25900],
+    ['1,200', { currency: 'JPY' }, 1200],
+  ])('reads %s with %o as %s', (input, convention, expected) => {
+    expect(normalizeAmount(input, convention)).toBe(expected);
+  });
+
+  it('returns null without digits', () => {
+    expect(normalizeAmount('')).toBeNull();
+    expect(normalizeAmount('Bs.')).toBeNull();
+  });
+});
+
+describe('extractAmount', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it.each([
+    ['Bs 1.234,56', {}, 1234.56, 'BOB'],
+    ['$1,234.56', {}, 1234.56, 'USD'],
+    ['TOTAL Bs 22,00', {}, 22, 'BOB'],
+    ['Bs.S 45,00', {}, 45, 'VES'],
+    ['CLP $25.900', {}, 25900, 'CLP'],
+    ['RFC ABC123\nTOTAL $ 1,250.00', {}, 1250, 'MXN'],
+    ['$ 50', { baseCurrency: 'MXN' }, 50, 'MXN'],
+    ['Rs. 1,23,456.00', {}, 123456, 'INR'],
+    ['TOTAL 99.99', {}, 99.99, null],
+  ])('reads case %#', (text, context, amount, currency) => {
+    expect(extractAmount(text, context)).toMatchObject({ amount, currency });
+  });
+
+  it('does not take the "s" of a word for a currency', () => {
+    expect(extractAmount('Gracias 12,50').currency).toBeNull();
+  });
+});
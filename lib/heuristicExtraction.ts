@@ -1,9 +1,29 @@
+import {
+  AmountBreakdown,
+  ExtractionMethod,
+  LineItem,
+  ReceiptExtractionMode,
+} from '@/types/Receipt';
+import { RecordAttachment } from '@/types/Record';
+import { extractLineItems } from './lineItems';
+import {
+  CURRENCY_TOKEN_PATTERN,
+  detectReceiptCurrency,
+  getCurrencyInfo,
+  getLocaleDecimalSeparator,
+  resolveCurrencyToken,
+} from './currency';
+import { DateContext, extractDate } from './receiptDates';
+
 export interface ExtractedData {
   description: string | null;
   provider: string | null;
   amount: number | null;
   currency: string | null;
   date: string | null; // ISO date format YYYY-MM-DD
+  dateExplanation?: string | null; // Why this date was picked, when it wasn't obvious
+  lineItems: LineItem[]; // Individual items, empty if none were found
+  breakdown: AmountBreakdown; // Subtotal, tax, tip and discount when printed
   confidence: {
     amount: number;
     date: number;
@@ -18,113 +38,146 @@ export interface ExtractionResult {
   overallConfidence: number;
 }
 
-// Currency symbols and codes
-const CURRENCY_SYMBOLS = ['$', '€', '£', '¥', '₹', 'Bs', 'USD', 'EUR', 'GBP', 'JPY', 'INR', 'BOB'];
+// A receipt read from an uploaded file, waiting in the review queue until
+// the user confirms or discards it
+export interface ReceiptCandidate {
+  uploadId: string;
+  fileName: string;
+  pageNumber: number | null; // PDF page the receipt starts on
+  extracted: ExtractedData;
+  category: string; // Suggested category
+  confidence: number | null;
+  extractionMethod: ExtractionMethod | null;
+  attachment: RecordAttachment | null;
+}
+
+export const RECEIPT_EXTRACTION_MODES: {
+  value: ReceiptExtractionMode;
+  label: string;
+}[] = [
+  { value: 'auto', label: 'Heuristics first, AI when unsure' },
+  { value: 'heuristic', label: 'Heuristics only (no network)' },
+];
+
+export function isReceiptExtractionMode(
+  value: string
+): value is ReceiptExtractionMode {
+  return RECEIPT_EXTRACTION_MODES.some((mode) => mode.value === value);
+}
 
-// Month names in Spanish and English
-const MONTH_NAMES = {
-  en: ['january', 'february', 'march', 'april', 'may', 'june', 
-       'july', 'august', 'september', 'october', 'november', 'december'],
-  es: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
-       'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre']
-};
+// What an extraction is read against: the user's locale for dates like
+// 03/04/2025, and their base currency for amounts marked only with "$"
+export interface ExtractionContext extends DateContext {
+  baseCurrency?: string | null;
+}
 
-// Amount regex patterns - much more comprehensive
-const AMOUNT_PATTERNS = [
+// How amounts are written: the currency's separators, or the locale's when
+// the currency isn't known
+export interface AmountConvention {
+  currency?: string | null;
+  locale?: string | null;
+}
+
+// A currency symbol or code, not part of a longer word: "Bs" but not the
+// "s" of "Gracias"
+const CURRENCY = `(${CURRENCY_TOKEN_PATTERN})(?![A-Za-zÀ-ÿ])`;
+// Amounts with thousands grouped ("1.234,56", "1,234.56", "25.900"), in
+// Indian lakhs ("1,23,456.00") or not grouped
+const AMOUNT =
+  '(\\d{1,2}(?:,\\d{2})+,\\d{3}(?:\\.\\d{1,2})?|\\d{1,3}(?:[.,]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)(?!\\d)';
+
+// Amount regex patterns, with the capture groups holding the amount and the
+// currency
+const AMOUNT_PATTERNS: Array<{
+  pattern: RegExp;
+  amountGroup: number;
+  currencyGroup?: number;
+  confidence: number;
+  description: string;
+}> = [
   // Pattern 1: Currency symbol + amount (highest confidence)
   {
-    pattern: /([$€£¥₹Bs])\s*([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)/gi,
+    pattern: new RegExp(`(?:^|[^A-Za-zÀ-ÿ\\d])${CURRENCY}\\s*${AMOUNT}`, 'gi'),
+    currencyGroup: 1,
+    amountGroup: 2,
     confidence: 0.98,
     description: "Currency symbol + amount"
   },
   // Pattern 2: Total/Suma patterns (very high confidence)
   {
-    pattern: /(?:total|suma|subtotal|monto|importe|precio|valor|total\s*:|suma\s*:)\s*([$€£¥₹Bs]?)\s*([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)/gi,
+    pattern: new RegExp(`(?:total|suma|subtotal|monto|importe|precio|valor)\\s*:?\\s*(?:${CURRENCY}\\s*)?${AMOUNT}`, 'gi'),
+    currencyGroup: 1,
+    amountGroup: 2,
     confidence: 0.95,
     description: "Total/Suma pattern"
   },
   // Pattern 3: Amount + currency symbol (high confidence)
   {
-    pattern: /([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)\s*([$€£¥₹Bs])/gi,
+    pattern: new RegExp(`\\b${AMOUNT}\\s*${CURRENCY}`, 'gi'),
+    amountGroup: 1,
+    currencyGroup: 2,
     confidence: 0.9,
     description: "Amount + currency"
   },
-  // Pattern 4: Decimal amounts with currency (high confidence)
+  // Pattern 4: Decimal amounts (high confidence)
   {
-    pattern: /([0-9]+[.,][0-9]{2})\s*([$€£¥₹Bs]?)/gi,
+    pattern: /\b([0-9]+[.,][0-9]{2})(?!\d)/g,
+    amountGroup: 1,
     confidence: 0.85,
     description: "Decimal amount"
   },
   // Pattern 5: Large numbers that look like totals (medium-high confidence)
   {
     pattern: /\b([0-9]{2,4}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)\b/g,
+    amountGroup: 1,
     confidence: 0.7,
     description: "Large number"
   },
   // Pattern 6: Any number with decimal places (medium confidence)
   {
     pattern: /\b([0-9]+[.,][0-9]{2})\b/g,
+    amountGroup: 1,
     confidence: 0.6,
     description: "Decimal number"
   },
   // Pattern 7: Simple amounts (fallback)
   {
     pattern: /\b([0-9]{1,3}(?:[.,][0-9]{3})*(?:[.,][0-9]{2})?)\b/g,
+    amountGroup: 1,
     confidence: 0.4,
     description: "Simple amount"
   }
 ];
 
-// Date regex patterns
-const DATE_PATTERNS = [
-  // DD/MM/YYYY, MM/DD/YYYY
-  /\b(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})\b/g,
-  // YYYY-MM-DD
-  /\b(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})\b/g,
-  // DD Month YYYY, Month DD YYYY
-  /\b(\d{1,2})\s+(enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre|january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{4})\b/gi,
-];
-
-export function extractAmount(text: string): { amount: number | null; currency: string | null; confidence: number } {
-  const candidates: Array<{ amount: number; currency: string; confidence: number; position: number; pattern: string }> = [];
+// The receipt total and its currency as an ISO code. Amounts without a
+// symbol next to them take the currency printed elsewhere on the receipt,
+// and null when there's none, so the user's own currency is used
+export function extractAmount(
+  text: string,
+  context: ExtractionContext = {}
+): { amount: number | null; currency: string | null; confidence: number } {
+  const candidates: Array<{ amount: number; currency: string | null; confidence: number; position: number; pattern: string }> = [];
+  const receiptCurrency = detectReceiptCurrency(text, context.baseCurrency);
 
   // Process each pattern with its specific confidence level
   AMOUNT_PATTERNS.forEach((patternConfig) => {
     const matches = Array.from(text.matchAll(patternConfig.pattern));
     
     matches.forEach((match) => {
-      let amountStr = '';
-      let currency = '';
-      
-      // Extract amount and currency based on pattern structure
-      if (patternConfig.pattern.source.includes('\\$€£¥₹Bs.*\\d')) {
-        // Currency symbol first pattern
-        currency = match[1] || '';
-        amountStr = match[2] || '';
-      } else if (patternConfig.pattern.source.includes('\\d.*\\$€£¥₹Bs')) {
-        // Amount first pattern
-        amountStr = match[1] || '';
-        currency = match[2] || '';
-      } else {
-        // Other patterns
-        amountStr = match[1] || match[2] || '';
-        currency = match[1] || match[2] || '';
-        
-        // Check if currency is actually in the amount string
-        if (CURRENCY_SYMBOLS.some(symbol => amountStr.includes(symbol))) {
-          const currencyMatch = amountStr.match(new RegExp(`([${CURRENCY_SYMBOLS.join('')}]+)`, 'i'));
-          if (currencyMatch) {
-            currency = currencyMatch[1];
-            amountStr = amountStr.replace(currency, '').trim();
-          }
-        }
-      }
-
-      // Clean up amount string
-      amountStr = amountStr.trim();
-      currency = currency.trim();
-
-      const normalizedAmount = normalizeAmount(amountStr);
+      const amountStr = match[patternConfig.amountGroup] || '';
+      const symbol = patternConfig.currencyGroup
+        ? match[patternConfig.currencyGroup]
+        : undefined;
+      const currency = symbol
+        ? resolveCurrencyToken(symbol, text, context.baseCurrency)
+        : null;
+
+      // Separators are read the way the amount's currency writes them,
+      // or the user's locale when no currency is printed
+      const normalizedAmount = normalizeAmount(amountStr, {
+        currency: currency || receiptCurrency,
+        locale: context.locale,
+      });
       
       if (normalizedAmount && normalizedAmount > 0) {
         let confidence = patternConfig.confidence;
@@ -152,7 +205,7 @@ export function extractAmount(text: string): { amount: number | null; currency:
         
         candidates.push({
           amount: normalizedAmount,
-          currency: currency || 'USD',
+          currency: currency || receiptCurrency,
           confidence: Math.min(confidence, 1.0),
           position: match.index || 0,
           pattern: patternConfig.description
@@ -183,70 +236,69 @@ export function extractAmount(text: string): { amount: number | null; currency:
   };
 }
 
-export function extractDate(text: string): { date: string | null; confidence: number } {
-  for (const pattern of DATE_PATTERNS) {
-    const matches = Array.from(text.matchAll(pattern));
-    
-    for (const match of matches) {
-      try {
-        let day: number, month: number, year: number;
-        
-        if (pattern.source.includes('\\d{4}')) {
-          // YYYY-MM-DD format
-          year = parseInt(match[1]);
-          month = parseInt(match[2]);
-          day = parseInt(match[3]);
-        } else if (pattern.source.includes('enero|febrero')) {
-          // DD Month YYYY or Month DD YYYY
-          const monthName = match[2].toLowerCase();
-          const monthIndex = findMonthIndex(monthName);
-          
-          if (monthIndex !== -1) {
-            if (pattern.source.startsWith('\\b(\\d{1,2})')) {
-              // DD Month YYYY
-              day = parseInt(match[1]);
-              month = monthIndex + 1;
-              year = parseInt(match[3]);
-            } else {
-              // Month DD YYYY
-              month = monthIndex + 1;
-              day = parseInt(match[2]);
-              year = parseInt(match[3]);
-            }
-          } else {
-            continue;
-          }
-        } else {
-          // DD/MM/YYYY or MM/DD/YYYY
-          const first = parseInt(match[1]);
-          const second = parseInt(match[2]);
-          const third = parseInt(match[3]);
-          
-          // Heuristic: if first number > 12, it's probably DD/MM/YYYY
-          if (first > 12) {
-            day = first;
-            month = second;
-            year = third;
-          } else {
-            // Assume MM/DD/YYYY (US format)
-            month = first;
-            day = second;
-            year = third;
-          }
-        }
+// Labels of the receipt lines that make up the total. Subtotal is checked
+// first so "Subtotal" lines aren't read as anything else.
+const BREAKDOWN_LABELS: Array<{ field: Exclude<keyof AmountBreakdown, 'taxRate'>; pattern: RegExp }> = [
+  { field: 'subtotal', pattern: /\bsub\s*-?\s*total\b/i },
+  { field: 'discount', pattern: /\b(descuento|discount|dto\.?|rebaja)\b/i },
+  { field: 'tip', pattern: /\b(propina|tip|gratuity)\b/i },
+  { field: 'taxAmount', pattern: /\b(iva|vat|tax|impuesto|igv|gst)\b/i },
+];
 
-        // Validate date
-        if (isValidDate(year, month, day)) {
-          const isoDate = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-          return { date: isoDate, confidence: 0.9 };
-        }
-      } catch {
-        continue;
-      }
+// Amounts are read with the same convention as the receipt total
+export function extractAmountBreakdown(
+  text: string,
+  convention: AmountConvention = {}
+): AmountBreakdown {
+  const breakdown: AmountBreakdown = {
+    subtotal: null,
+    taxAmount: null,
+    taxRate: null,
+    tip: null,
+    discount: null,
+  };
+
+  for (const line of text.split('\n')) {
+    const label = BREAKDOWN_LABELS.find(({ pattern }) => pattern.test(line));
+    if (!label || breakdown[label.field] !== null) continue;
+
+    // A rate such as "IVA 13%" is read separately from the amount
+    const rateMatch = line.match(/(\d{1,2}(?:[.,]\d{1,2})?)\s*%/);
+    const withoutRate = rateMatch ? line.replace(rateMatch[0], '') : line;
+    const amounts = withoutRate.match(/\d{1,3}(?:[.,]\d{3})*(?:[.,]\d{2})|\d+/g);
+    const amount = amounts
+      ? normalizeAmount(amounts[amounts.length - 1], convention)
+      : null;
+
+    if (amount !== null) {
+      breakdown[label.field] = amount;
+    }
+    if (label.field === 'taxAmount' && rateMatch) {
+      breakdown.taxRate = parseFloat(rateMatch[1].replace(',', '.'));
     }
   }
 
-  return { date: null, confidence: 0 };
+  return breakdown;
+}
+
+// Clean a breakdown from the AI: non-negative numbers or null, with the
+// tax rate as a percentage
+export function normalizeAmountBreakdown(raw: unknown): AmountBreakdown {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const read = (key: string, max: number = Infinity) => {
+    const value = source[key];
+    if (value === null || value === undefined || value === '') return null;
+    const number = Math.abs(parseFloat(String(value)));
+    return isFinite(number) && number <= max ? Math.round(number * 100) / 100 : null;
+  };
+
+  return {
+    subtotal: read('subtotal'),
+    taxAmount: read('taxAmount'),
+    taxRate: read('taxRate', 100),
+    tip: read('tip'),
+    discount: read('discount'),
+  };
 }
 
 export function extractProvider(text: string): { provider: string | null; confidence: number } {
@@ -381,9 +433,16 @@ export function extractDescription(text: string, provider?: string | null): { de
   return { description: bestDescription, confidence: bestConfidence };
 }
 
-export function heuristicExtraction(text: string): ExtractionResult {
-  const amountResult = extractAmount(text);
-  const dateResult = extractDate(text);
+// Dates are read with the currency found on the receipt too
+export function heuristicExtraction(
+  text: string,
+  context: ExtractionContext = {}
+): ExtractionResult {
+  const amountResult = extractAmount(text, context);
+  const dateResult = extractDate(text, {
+    ...context,
+    currency: amountResult.currency || context.currency,
+  });
   const providerResult = extractProvider(text);
   const descriptionResult = extractDescription(text, providerResult.provider);
 
@@ -393,6 +452,12 @@ export function heuristicExtraction(text: string): ExtractionResult {
     amount: amountResult.amount,
     currency: amountResult.currency,
     date: dateResult.date,
+    dateExplanation: dateResult.explanation,
+    lineItems: extractLineItems(text),
+    breakdown: extractAmountBreakdown(text, {
+      currency: amountResult.currency,
+      locale: context.locale,
+    }),
     confidence: {
       amount: amountResult.confidence,
       date: dateResult.confidence,
@@ -401,6 +466,12 @@ export function heuristicExtraction(text: string): ExtractionResult {
     },
   };
 
+  return summarizeExtraction(data);
+}
+
+// Overall confidence of extracted fields, and whether they're too unsure to
+// use without the AI model
+export function summarizeExtraction(data: ExtractedData): ExtractionResult {
   // Calculate overall confidence with weighted importance
   const weights = {
     amount: 0.4,    // Most important
@@ -429,99 +500,57 @@ export function heuristicExtraction(text: string): ExtractionResult {
 }
 
 // Helper functions
-function normalizeAmount(amountStr: string): number | null {
-  try {
-    if (!amountStr || amountStr.trim().length === 0) return null;
-    
-    // Remove currency symbols and extra whitespace
-    let cleaned = amountStr.replace(/[$€£¥₹Bs]/g, '').trim();
-    
-    // Remove any non-numeric characters except dots and commas
-    cleaned = cleaned.replace(/[^\d.,]/g, '');
-    
-    if (cleaned.length === 0) return null;
-    
-    // Handle different decimal/thousands separator patterns
-    const parts = cleaned.split(/[.,]/);
-    
-    if (parts.length === 1) {
-      // No separators - just a whole number
-      const num = parseInt(cleaned, 10);
-      return isNaN(num) ? null : num;
-    } else if (parts.length === 2) {
-      // One separator - need to determine if it's decimal or thousands
-      const leftPart = parts[0];
-      const rightPart = parts[1];
-      
-      // If right part is 1-2 digits, likely decimal separator
-      if (rightPart.length <= 2) {
-        const integerPart = leftPart.replace(/[^\d]/g, '');
-        const decimalPart = rightPart;
-        const result = parseFloat(`${integerPart}.${decimalPart}`);
-        return isNaN(result) ? null : result;
-      } else {
-        // If right part is 3+ digits, likely thousands separator
-        const result = parseFloat(leftPart + rightPart);
-        return isNaN(result) ? null : result;
-      }
-    } else if (parts.length === 3) {
-      // Two separators - likely thousands.decimal format
-      const thousandsPart = parts[0];
-      const hundredsPart = parts[1];
-      const decimalPart = parts[2];
-      
-      if (decimalPart.length <= 2) {
-        // Last part is decimal
-        const integerPart = thousandsPart + hundredsPart;
-        const result = parseFloat(`${integerPart}.${decimalPart}`);
-        return isNaN(result) ? null : result;
-      } else {
-        // All parts are thousands
-        const result = parseFloat(thousandsPart + hundredsPart + decimalPart);
-        return isNaN(result) ? null : result;
-      }
-    } else {
-      // More than 2 separators - complex case
-      // Assume last part is decimal if it's 1-2 digits
-      const lastPart = parts[parts.length - 1];
-      
-      if (lastPart.length <= 2) {
-        // Last part is decimal
-        const integerParts = parts.slice(0, -1);
-        const integerPart = integerParts.join('');
-        const result = parseFloat(`${integerPart}.${lastPart}`);
-        return isNaN(result) ? null : result;
-      } else {
-        // No decimal part
-        const result = parseFloat(parts.join(''));
-        return isNaN(result) ? null : result;
-      }
-    }
-  } catch (error) {
-    console.error('Error normalizing amount:', amountStr, error);
-    return null;
-  }
-}
 
-function findMonthIndex(monthName: string): number {
-  const lowerMonth = monthName.toLowerCase();
-  
-  // Check Spanish months
-  const spanishIndex = MONTH_NAMES.es.findIndex(month => month.toLowerCase() === lowerMonth);
-  if (spanishIndex !== -1) return spanishIndex;
-  
-  // Check English months
-  const englishIndex = MONTH_NAMES.en.findIndex(month => month.toLowerCase() === lowerMonth);
-  return englishIndex;
+// The decimal separator amounts are written with under a convention: the
+// currency's, or else the locale's. Null when neither is known
+function getDecimalSeparator(convention: AmountConvention): '.' | ',' | null {
+  const info = convention.currency ? getCurrencyInfo(convention.currency) : undefined;
+  if (info) return info.decimalSeparator;
+  return convention.locale ? getLocaleDecimalSeparator(convention.locale) : null;
 }
 
-function isValidDate(year: number, month: number, day: number): boolean {
-  if (year < 1900 || year > 2100) return false;
-  if (month < 1 || month > 12) return false;
-  if (day < 1 || day > 31) return false;
-  
-  const date = new Date(year, month - 1, day);
-  return date.getFullYear() === year && 
-         date.getMonth() === month - 1 && 
-         date.getDate() === day;
+// An amount as printed, e.g. "Bs 1.234,56" or "$1,234.56". The separators
+// usually tell which one is decimal: with both, it's the last one, and a
+// single separator followed by anything but three digits is decimal. Only
+// "1.234" and "1,234" are ambiguous: a thousand in Spain and in the US, but
+// 1.234 where the separator is the decimal one, so the convention decides.
+// Currencies without cents and amounts with no convention read them as
+// thousands
+export function normalizeAmount(
+  amountStr: string,
+  convention: AmountConvention = {}
+): number | null {
+  if (!amountStr) return null;
+
+  const cleaned = amountStr.replace(/[^\d.,]/g, '').replace(/^[.,]+|[.,]+$/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const separators = cleaned.replace(/\d/g, '');
+  const last = separators.charAt(separators.length - 1);
+  const decimalIndex = cleaned.lastIndexOf(last);
+  const digitsAfter = cleaned.length - decimalIndex - 1;
+
+  let isDecimal: boolean;
+  if (!last) {
+    isDecimal = false;
+  } else if (separators.includes('.') && separators.includes(',')) {
+    isDecimal = true;
+  } else if (separators.length > 1) {
+    // "1.234.567" and "1,23,456" group digits; "1.234.56" keeps its cents
+    isDecimal = digitsAfter <= 2;
+  } else if (digitsAfter !== 3 || cleaned.substring(0, decimalIndex) === '0') {
+    // Only groups of three are thousands: "12,5", "0.1234" and "0,500"
+    isDecimal = true;
+  } else {
+    const info = convention.currency ? getCurrencyInfo(convention.currency) : undefined;
+    isDecimal =
+      info?.decimals !== 0 && getDecimalSeparator(convention) === last;
+  }
+
+  const result = isDecimal
+    ? parseFloat(
+        `${cleaned.substring(0, decimalIndex).replace(/[.,]/g, '')}.${cleaned.substring(decimalIndex + 1)}`
+      )
+    : parseFloat(cleaned.replace(/[.,]/g, ''));
+  return isNaN(result) ? null : result;
 }
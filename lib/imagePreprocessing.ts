@@ -20,7 +20,8 @@ export async function preprocessImage(
     sharpen = true,
   } = options;
 
-  let pipeline = sharp(buffer);
+  // Respect EXIF orientation from phone cameras, for every variant
+  let pipeline = sharp(buffer).rotate();
 
   // Resize image for better OCR
   pipeline = pipeline.resize(width, height, {
@@ -63,3 +64,334 @@ export async function preprocessImageForOCR(buffer: Buffer): Promise<Buffer> {
     sharpen: true,
   });
 }
+
+// Receipt photos are analysed at this size to find the paper and its angle
+const ANALYSIS_SIZE = 600;
+
+// Deskew only corrects tilts up to this many degrees
+const MAX_SKEW_ANGLE = 15;
+
+export interface PreprocessedVariant {
+  name: string;
+  buffer: Buffer;
+}
+
+// Grayscale level splitting ink from paper (Otsu's method)
+export function getOtsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  pixels.forEach((value) => histogram[value]++);
+
+  const total = pixels.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let bestThreshold = 128;
+  let bestVariance = 0;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance =
+      backgroundCount *
+      foregroundCount *
+      (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = value;
+    }
+  }
+
+  return bestThreshold;
+}
+
+// Longest run of indexes where the profile reaches half its peak, allowing
+// short gaps for dark lines of text
+function findLongestRun(profile: number[]): [number, number] {
+  const peak = Math.max(...profile);
+  const maxGap = Math.ceil(profile.length * 0.02);
+  let best: [number, number] = [0, profile.length - 1];
+  let bestLength = 0;
+  let start = -1;
+  let lastHit = -1;
+
+  profile.forEach((value, index) => {
+    if (value < peak / 2) return;
+    if (start === -1 || index - lastHit > maxGap) {
+      start = index;
+    }
+    lastHit = index;
+    if (lastHit - start + 1 > bestLength) {
+      bestLength = lastHit - start + 1;
+      best = [start, lastHit];
+    }
+  });
+
+  return best;
+}
+
+// Bounding box of the receipt paper: the bright region standing out from
+// a darker table or background. Null when the paper fills the image
+export function findReceiptBounds(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  threshold: number
+): { left: number; top: number; width: number; height: number } | null {
+  const columns = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] > threshold) columns[x]++;
+    }
+  }
+  const [left, right] = findLongestRun(columns);
+
+  const rows = new Array<number>(height).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = left; x <= right; x++) {
+      if (pixels[y * width + x] > threshold) rows[y]++;
+    }
+  }
+  const [top, bottom] = findLongestRun(rows);
+
+  const area = ((right - left + 1) * (bottom - top + 1)) / (width * height);
+  if (area > 0.9 || area < 0.1) return null;
+
+  // Keep a small margin so text at the paper's edge isn't cut
+  const marginX = Math.round(width * 0.02);
+  const marginY = Math.round(height * 0.02);
+  const cropLeft = Math.max(0, left - marginX);
+  const cropTop = Math.max(0, top - marginY);
+  return {
+    left: cropLeft,
+    top: cropTop,
+    width: Math.min(width, right + marginX + 1) - cropLeft,
+    height: Math.min(height, bottom + marginY + 1) - cropTop,
+  };
+}
+
+// Pixels clearly darker than their surroundings: ink on paper, but not a
+// dark table showing around the receipt
+function findInk(
+  pixels: Uint8Array,
+  width: number,
+  height: number
+): [number, number][] {
+  // Summed-area table for the mean brightness of any window
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += pixels[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] =
+        integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(Math.round(Math.min(width, height) / 30), 4);
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum =
+        integral[bottom * (width + 1) + right] -
+        integral[top * (width + 1) + right] -
+        integral[bottom * (width + 1) + left] +
+        integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      if (pixels[y * width + x] < mean * 0.75) points.push([x, y]);
+    }
+  }
+  return points;
+}
+
+// Tilt of the text lines in degrees (clockwise rotation that levels them),
+// and whether the text runs vertically. Lines of text make the row profile
+// of ink spiky, so the angle with the spikiest profile wins
+export function estimateSkew(
+  pixels: Uint8Array,
+  width: number,
+  height: number
+): { angle: number; sideways: boolean } {
+  const points = findInk(pixels, width, height);
+  if (points.length < 50) return { angle: 0, sideways: false };
+
+  // Peakiness of the profile, 1 for evenly spread ink
+  const scoreProfile = (angle: number, vertical: boolean) => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const size = width + height;
+    const bins = new Array<number>(size * 2).fill(0);
+    for (const [x, y] of points) {
+      const position = vertical ? x * cos - y * sin : x * sin + y * cos;
+      bins[Math.round(position) + size]++;
+    }
+    const used = vertical ? width : height;
+    return (
+      (bins.reduce((acc, count) => acc + count * count, 0) * used) /
+      (points.length * points.length)
+    );
+  };
+
+  // Coarse search in whole degrees, then refine around the best one
+  const findBest = (vertical: boolean) => {
+    let best = { angle: 0, score: scoreProfile(0, vertical) };
+    const search = (from: number, to: number, step: number) => {
+      for (let angle = from; angle <= to + 1e-9; angle += step) {
+        const score = scoreProfile(angle, vertical);
+        if (score > best.score) {
+          best = { angle: Math.round(angle * 100) / 100, score };
+        }
+      }
+    };
+    search(-MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 1);
+    search(best.angle - 1, best.angle + 1, 0.2);
+    return best;
+  };
+
+  const rows = findBest(false);
+  const columns = findBest(true);
+  return columns.score > rows.score * 1.5
+    ? { angle: columns.angle, sideways: true }
+    : { angle: rows.angle, sideways: false };
+}
+
+// Black text on white, deciding each pixel against the brightness around it
+// so shadows and faded thermal print don't wash out
+export async function binarizeAdaptive(buffer: Buffer): Promise<Buffer> {
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: info.width, height: info.height, channels: 1 as const };
+  const background = await sharp(data, { raw })
+    .blur(Math.max(info.width / 80, 3))
+    .raw()
+    .toBuffer();
+
+  const output = Buffer.alloc(data.length);
+  for (let i = 0; i < data.length; i++) {
+    output[i] = data[i] < background[i] * 0.88 ? 0 : 255;
+  }
+  return sharp(output, { raw }).png().toBuffer();
+}
+
+// Small grayscale copy of an image for analysis
+async function getAnalysisPixels(image: Buffer) {
+  const { data, info } = await sharp(image)
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    data: new Uint8Array(data.buffer, data.byteOffset, data.length),
+    width: info.width,
+    height: info.height,
+  };
+}
+
+// The image cut down to the receipt paper, or unchanged when no paper
+// stands out from the background
+async function cropToReceipt(image: Buffer): Promise<Buffer> {
+  const pixels = await getAnalysisPixels(image);
+  const bounds = findReceiptBounds(
+    pixels.data,
+    pixels.width,
+    pixels.height,
+    getOtsuThreshold(pixels.data)
+  );
+  if (!bounds) return image;
+
+  const { width = pixels.width, height = pixels.height } =
+    await sharp(image).metadata();
+  const scale = width / pixels.width;
+  const left = Math.floor(bounds.left * scale);
+  const top = Math.floor(bounds.top * scale);
+  return sharp(image)
+    .extract({
+      left,
+      top,
+      width: Math.min(Math.ceil(bounds.width * scale), width - left),
+      height: Math.min(Math.ceil(bounds.height * scale), height - top),
+    })
+    .png()
+    .toBuffer();
+}
+
+// Several versions of a receipt photo for OCR, most promising first:
+// cropped to the paper, levelled, then contrast-enhanced or binarized, and
+// finally the plain pipeline in case cropping or levelling went wrong
+export async function preprocessImageVariants(
+  buffer: Buffer
+): Promise<PreprocessedVariant[]> {
+  // Respect EXIF orientation from phone cameras
+  const upright = await sharp(buffer)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .png()
+    .toBuffer();
+
+  const cropped = await cropToReceipt(upright);
+  const paper = await getAnalysisPixels(cropped);
+  const skew = estimateSkew(paper.data, paper.width, paper.height);
+
+  // Sideways photos could be turned either way, so both are tried
+  const turns = skew.sideways ? [90, 270] : [0];
+  const levelled = await Promise.all(
+    turns.map((turn) =>
+      sharp(cropped)
+        .rotate(turn + skew.angle, { background: '#ffffff' })
+        .png()
+        .toBuffer()
+    )
+  );
+
+  const variants: PreprocessedVariant[] = [];
+  for (const [index, image] of levelled.entries()) {
+    variants.push({
+      name: turns[index] ? `enhanced-${turns[index]}` : 'enhanced',
+      buffer: await preprocessImageForOCR(image),
+    });
+  }
+  variants.push({
+    name: 'binarized',
+    buffer: await binarizeAdaptive(
+      await preprocessImage(levelled[0], { sharpen: false })
+    ),
+  });
+  // Only worth reading again when cropping or levelling changed something
+  if (cropped !== upright || skew.angle !== 0 || skew.sideways) {
+    variants.push({
+      name: 'original',
+      buffer: await preprocessImageForOCR(buffer),
+    });
+  }
+
+  return variants;
+}
+
+// Small preview of a receipt image for record lists
+export async function createThumbnail(buffer: Buffer): Promise<Buffer> {
+  return sharp(buffer)
+    .rotate() // Respect EXIF orientation from phone cameras
+    .resize(240, 240, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer();
+}
+
+// The image OCR read, kept at its own size so word boxes line up with it
+export async function createOcrPreview(buffer: Buffer): Promise<Buffer> {
+  return sharp(buffer).webp({ quality: 75 }).toBuffer();
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  inferDecimalSeparator,
+  parseImportAmount,
+  parseImportDate,
+} from './importRecords';
+
+describe('parseImportAmount', () => {
+  it.each([
+    ['12.50', '.', 12.5],
+    ['$ 45', '.', 45],
+    ['-1,234.56', '.', -1234.56],
+    ['1.234,56', ',', 1234.56],
+    ['1.234.567', '.', 1234567],
+    ['1.234', '.', 1.234],
+    ['1.234', ',', 1234],
+    ['-45.00', '.', -45],
+    ['(20.00)', '.', -20],
+    ['45.00-', '.', -45],
+  ] as const)('reads %s with %s decimals as %s', (value, separator, expected) => {
+    expect(parseImportAmount(value, separator)).toBe(expected);
+  });
+
+  it('returns null without digits', () => {
+    expect(parseImportAmount('n/a', '.')).toBeNull();
+  });
+});
+
+describe('inferDecimalSeparator', () => {
+  it.each([
+    [['12,50', '3,10', '1.234'], ','],
+    [['1,234.56', '1.234'], '.'],
+    [['1.234.567', '45'], ','],
+    [['1.234', '45'], '.'],
+  ])('infers %j as %s', (values, expected) => {
+    expect(inferDecimalSeparator(values)).toBe(expected);
+  });
+});
+
+describe('parseImportDate', () => {
+  it.each([
+    ['2024-03-05', 'YYYY-MM-DD', '2024-03-05T12:00:00.000Z'],
+    ['03/05/2024', 'MM/DD/YYYY', '2024-03-05T12:00:00.000Z'],
+    ['05.03.24', 'DD/MM/YYYY', '2024-03-05T12:00:00.000Z'],
+    ['2024-03-05T10:00:00', 'YYYY-MM-DD', '2024-03-05T12:00:00.000Z'],
+  ] as const)('reads %s as %s', (value, format, expected) => {
+    expect(parseImportDate(value, format)?.toISOString()).toBe(expected);
+  });
+
+  it('rejects out-of-range dates', () => {
+    expect(parseImportDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseImportDate('2024-13-01', 'YYYY-MM-DD')).toBeNull();
+  });
+});
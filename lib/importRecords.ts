@@ -0,0 +1,155 @@
+import { ImportDateFormat, ImportDecimalSeparator } from '@/types/Import';
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = [
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+];
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export const IMPORT_DECIMAL_SEPARATORS: {
+  value: ImportDecimalSeparator;
+  label: string;
+}[] = [
+  { value: 'auto', label: 'Detect from the file' },
+  { value: '.', label: 'Dot (1,234.56)' },
+  { value: ',', label: 'Comma (1.234,56)' },
+];
+
+// The decimal separator of an amount column, from the values that show it:
+// the last of two different separators, a separator repeated for grouping
+// (the other one is decimal), or a single one not followed by exactly three
+// digits. A lone "1.234" tells nothing. Dots win ties
+export function inferDecimalSeparator(values: string[]): '.' | ',' {
+  let dots = 0;
+  let commas = 0;
+  values.forEach((value) => {
+    const cleaned = value.replace(/[^\d.,]/g, '').replace(/^[.,]+|[.,]+$/g, '');
+    const separators = cleaned.replace(/\d/g, '');
+    const last = separators.charAt(separators.length - 1);
+    const digitsAfter = cleaned.length - cleaned.lastIndexOf(last) - 1;
+
+    let decimal = '';
+    if (separators.includes('.') && separators.includes(',')) {
+      decimal = last;
+    } else if (separators.length > 1) {
+      decimal = last === '.' ? ',' : '.';
+    } else if (last && digitsAfter !== 3) {
+      decimal = last;
+    }
+    if (decimal === '.') dots++;
+    if (decimal === ',') commas++;
+  });
+  return commas > dots ? ',' : '.';
+}
+
+// Parse amounts such as "12.50", "-1,234.56", "1.234,56", "$ 45",
+// "(20.00)" or "45.00-" with the file's decimal separator; the other one
+// groups thousands, and so does the decimal one when it's repeated
+// ("1.234.567"). Negative amounts keep their sign, since a file may hold
+// refunds and credits alongside its expenses.
+export function parseImportAmount(
+  value: string,
+  decimalSeparator: '.' | ','
+): number | null {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$|^[^\d]*-|-$/.test(trimmed);
+
+  let cleaned = trimmed.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const grouping = decimalSeparator === '.' ? ',' : '.';
+  cleaned = cleaned.split(grouping).join('');
+  cleaned =
+    cleaned.split(decimalSeparator).length > 2
+      ? cleaned.split(decimalSeparator).join('')
+      : cleaned.replace(decimalSeparator, '.');
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// Parse a date in the chosen format into noon UTC, matching how expense
+// dates are stored. Accepts "/", "-" or "." as separators, two-digit years
+// and trailing times ("2024-03-05T10:00:00").
+export function parseImportDate(
+  value: string,
+  format: ImportDateFormat
+): Date | null {
+  const parts = value.trim().split(/[T\s]/)[0].split(/[/.-]/);
+  if (parts.length !== 3) return null;
+
+  const [first, second, third] = parts.map((part) => parseInt(part, 10));
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = [first, second, third];
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = [first, second, third];
+      break;
+    case 'DD/MM/YYYY':
+      [day, month, year] = [first, second, third];
+      break;
+  }
+
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null; // Rejects out-of-range values such as 31/02
+  }
+  return date;
+}
+
+// Words of a description, ignoring case, punctuation and the reference
+// numbers banks append to transactions
+function descriptionWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z\u00c0-\u024f\d]+/)
+      .filter((word) => word.length > 1 && !/^\d+$/.test(word))
+  );
+}
+
+// Two descriptions are similar when one contains the other or at least
+// half of their words are shared
+export function isSimilarDescription(a: string, b: string): boolean {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  const joinedA = Array.from(wordsA).join(' ');
+  const joinedB = Array.from(wordsB).join(' ');
+  if (joinedA.includes(joinedB) || joinedB.includes(joinedA)) return true;
+
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length;
+  const total = new Set([...Array.from(wordsA), ...Array.from(wordsB)]).size;
+  return shared / total >= 0.5;
+}
+
+// Guess which CSV column holds each field from its header
+export function guessColumn(
+  headers: string[],
+  field: 'text' | 'amount' | 'category' | 'date'
+): number {
+  const patterns: { [key: string]: RegExp } = {
+    text: /desc|memo|detail|narrative|payee|merchant|concept|text|name/i,
+    amount: /amount|debit|value|monto|importe|total|sum/i,
+    category: /categor/i,
+    date: /date|fecha|posted|day/i,
+  };
+  return headers.findIndex((header) => patterns[field].test(header));
+}
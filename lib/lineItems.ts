@@ -0,0 +1,111 @@
+import { LineItem, LineItemReconciliation } from '@/types/Receipt';
+
+export const MAX_LINE_ITEMS = 100;
+
+// Receipt lines that carry amounts but aren't purchased items
+const NON_ITEM_WORDS =
+  /\b(sub\s*total|total|suma|iva|tax|impuesto|cambio|change|efectivo|cash|tarjeta|card|descuento|discount|propina|tip|saldo|balance|pago|payment)\b/i;
+
+const PRICE = '[$€£¥₹]?\\s*(\\d+[.,]\\d{2})';
+
+// "2 x Milk 1.50 3.00", "2 Milk 1.50 3.00"
+const QUANTITY_UNIT_TOTAL = new RegExp(
+  `^(\\d+(?:[.,]\\d+)?)\\s*[xX*]?\\s+(.+?)\\s+${PRICE}\\s+${PRICE}$`
+);
+// "2 x Milk 3.00"
+const QUANTITY_TOTAL = new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*[xX*]\\s*(.+?)\\s+${PRICE}$`);
+// "Milk 3.00"
+const NAME_TOTAL = new RegExp(`^(.+?)\\s+${PRICE}$`);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string) => parseFloat(value.replace(',', '.'));
+
+// Find item lines in OCR text. Each line of text is matched on its own, so
+// items split over two lines are missed; the AI pass covers those.
+export function extractLineItems(text: string): LineItem[] {
+  const items: LineItem[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line || NON_ITEM_WORDS.test(line)) continue;
+
+    let item: LineItem | null = null;
+    let match = line.match(QUANTITY_UNIT_TOTAL);
+    if (match) {
+      item = {
+        name: match[2],
+        quantity: toNumber(match[1]),
+        unitPrice: toNumber(match[3]),
+        total: toNumber(match[4]),
+      };
+    } else if ((match = line.match(QUANTITY_TOTAL))) {
+      const quantity = toNumber(match[1]);
+      const total = toNumber(match[3]);
+      item = { name: match[2], quantity, unitPrice: total / quantity, total };
+    } else if ((match = line.match(NAME_TOTAL))) {
+      item = {
+        name: match[1],
+        quantity: 1,
+        unitPrice: toNumber(match[2]),
+        total: toNumber(match[2]),
+      };
+    }
+
+    // Names need some letters; this skips dates, phone numbers and the like
+    if (item && /[a-záéíóúñ]{2,}/i.test(item.name)) {
+      items.push(item);
+    }
+  }
+
+  return normalizeLineItems(items);
+}
+
+// Clean line items from the AI or the confirmation form: drop unusable
+// entries, default the quantity to 1 and fill in whichever of unit price
+// and total is missing
+export function normalizeLineItems(raw: unknown): LineItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  const items: LineItem[] = [];
+  for (const entry of raw.slice(0, MAX_LINE_ITEMS)) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const quantityValue = Number(entry?.quantity);
+    const quantity = isFinite(quantityValue) && quantityValue > 0 ? quantityValue : 1;
+    const unitPriceValue =
+      entry?.unitPrice === null || entry?.unitPrice === undefined || entry?.unitPrice === ''
+        ? NaN
+        : Number(entry.unitPrice);
+    const totalValue =
+      entry?.total === null || entry?.total === undefined || entry?.total === ''
+        ? NaN
+        : Number(entry.total);
+
+    const total = isFinite(totalValue) ? totalValue : quantity * unitPriceValue;
+    if (!name || !isFinite(total)) continue;
+
+    items.push({
+      name: name.slice(0, 200),
+      quantity,
+      unitPrice: isFinite(unitPriceValue)
+        ? roundCents(unitPriceValue)
+        : roundCents(total / quantity),
+      total: roundCents(total),
+    });
+  }
+  return items;
+}
+
+// Compare the lines with the receipt total, allowing a cent of rounding
+export function reconcileLineItems(
+  items: LineItem[],
+  total: number | null
+): LineItemReconciliation {
+  const sum = roundCents(items.reduce((acc, item) => acc + item.total, 0));
+  const difference = total === null ? 0 : roundCents(total - sum);
+  return {
+    sum,
+    difference,
+    isReconciled: total !== null && Math.abs(difference) <= 0.01,
+  };
+}
@@ -1,4 +1,8 @@
 // OCR utility for image text extraction
+import { preprocessImageVariants } from './imagePreprocessing';
+import { getOcrWorkerPool, OcrBusyError } from './ocrWorkerPool';
+import { DEFAULT_OCR_LANGUAGES, detectReceiptLanguage } from './ocrLanguages';
+
 export interface OCRResult {
   text: string;
   confidence: number;
@@ -14,14 +18,27 @@ export interface OCRResult {
   }>;
 }
 
-export async function extractTextFromImage(buffer: Buffer): Promise<OCRResult> {
+// OCR of a receipt photo, with the preprocessed image it was read from. The
+// word boxes are in that image's pixels, not the original photo's
+export interface ReceiptOCRResult extends OCRResult {
+  variant: string;
+  languages: string[];
+  image: Buffer;
+}
+
+// The user's language preferences for OCR
+export interface OcrOptions {
+  languages: string[]; // Tesseract codes, e.g. ["spa", "eng"]
+  autoDetect: boolean; // Pick one of the languages per receipt
+}
+
+export async function extractTextFromImage(
+  buffer: Buffer,
+  languages: string[] = DEFAULT_OCR_LANGUAGES
+): Promise<OCRResult> {
   try {
-    // Dynamic import to avoid build issues
-    const Tesseract = (await import('tesseract.js')).default;
-    
-    const { data } = await Tesseract.recognize(buffer, 'spa+eng', {
-      logger: () => {}, // Disable logging
-    });
+    // Shared workers keep the engine and language data loaded
+    const data = await getOcrWorkerPool().recognize(buffer, languages.join('+'));
 
     return {
       text: data.text,
@@ -44,7 +61,65 @@ export async function extractTextFromImage(buffer: Buffer): Promise<OCRResult> {
       ),
     };
   } catch (error) {
+    if (error instanceof OcrBusyError) throw error;
     console.error('OCR processing error:', error);
     throw new Error('Failed to extract text from image');
   }
 }
+
+// A confidence this high is good enough to stop trying other variants
+const GOOD_ENOUGH_CONFIDENCE = 85;
+
+// OCR of a receipt photo, trying each preprocessing variant in turn and
+// keeping the one Tesseract is most confident about. With auto-detection, a
+// first read with every language decides which one the rest use
+export async function extractTextFromReceiptImage(
+  buffer: Buffer,
+  options: OcrOptions = { languages: DEFAULT_OCR_LANGUAGES, autoDetect: false }
+): Promise<ReceiptOCRResult> {
+  const variants = await preprocessImageVariants(buffer);
+  let languages = options.languages;
+  let best: ReceiptOCRResult | null = null;
+
+  if (options.autoDetect && languages.length > 1 && variants.length > 0) {
+    const rough = await extractTextFromImage(variants[0].buffer, languages);
+    best = {
+      ...rough,
+      variant: variants[0].name,
+      languages,
+      image: variants[0].buffer,
+    };
+
+    const detected = detectReceiptLanguage(rough.text, languages);
+    if (detected) {
+      // Receipts often mix in English, so keep it when the user reads it
+      languages =
+        detected !== 'eng' && languages.includes('eng')
+          ? [detected, 'eng']
+          : [detected];
+    }
+  }
+
+  for (const variant of variants) {
+    if (best && best.confidence >= GOOD_ENOUGH_CONFIDENCE) break;
+    // The rough read already covered this variant with these languages
+    if (best?.variant === variant.name && best.languages === languages) {
+      continue;
+    }
+
+    const result = await extractTextFromImage(variant.buffer, languages);
+    if (!best || result.confidence > best.confidence) {
+      best = {
+        ...result,
+        variant: variant.name,
+        languages,
+        image: variant.buffer,
+      };
+    }
+  }
+
+  if (!best) {
+    throw new Error('Failed to extract text from image');
+  }
+  return best;
+}
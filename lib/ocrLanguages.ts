@@ -0,0 +1,91 @@
+export interface OcrLanguage {
+  code: string; // Tesseract traineddata name, e.g. "spa"
+  label: string;
+}
+
+export const DEFAULT_OCR_LANGUAGES = ['spa', 'eng'];
+
+// More languages make every scan slower and use more memory
+export const MAX_OCR_LANGUAGES = 4;
+
+// Languages offered in settings. Other *.traineddata files placed in the
+// language folder are offered too, under their code
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'spa', label: 'Spanish' },
+  { code: 'eng', label: 'English' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'fra', label: 'French' },
+  { code: 'deu', label: 'German' },
+  { code: 'ita', label: 'Italian' },
+];
+
+export function isOcrLanguageCode(value: string): boolean {
+  return /^[a-z]{3}(_[a-z]+)?$/.test(value);
+}
+
+// Codes stored on the user as "spa+eng"
+export function parseOcrLanguages(value: string | null | undefined): string[] {
+  const codes = (value || '')
+    .split('+')
+    .map((code) => code.trim())
+    .filter(isOcrLanguageCode);
+  return codes.length > 0 ? codes : DEFAULT_OCR_LANGUAGES;
+}
+
+// Words and letters that give a receipt's language away. Words shared by
+// several languages (total, iva...) are left out
+const LANGUAGE_HINTS: {
+  [code: string]: { words: string[]; letters: string };
+} = {
+  spa: {
+    words: ['gracias', 'fecha', 'importe', 'efectivo', 'cantidad', 'tarjeta', 'vuelto', 'caja'],
+    letters: 'ñ¿¡',
+  },
+  eng: {
+    words: ['thank', 'you', 'subtotal', 'tax', 'change', 'cash', 'receipt', 'amount', 'qty', 'card'],
+    letters: '',
+  },
+  por: {
+    words: ['obrigado', 'obrigada', 'contribuinte', 'fatura', 'troco', 'quantidade', 'dinheiro', 'cartão'],
+    letters: 'çãõ',
+  },
+  fra: {
+    words: ['merci', 'tva', 'montant', 'ttc', 'espèces', 'rendu', 'facture', 'quantité', 'carte', 'reçu'],
+    letters: 'èêàùœ',
+  },
+  deu: {
+    words: ['summe', 'mwst', 'betrag', 'danke', 'rechnung', 'gesamt', 'rückgeld', 'zwischensumme', 'quittung'],
+    letters: 'ßäöü',
+  },
+  ita: {
+    words: ['grazie', 'totale', 'scontrino', 'contanti', 'resto', 'importo', 'quantità', 'commerciale'],
+    letters: 'ìò',
+  },
+};
+
+// The most likely language of a receipt among the candidates, from a first
+// rough read of its text. Null when nothing clearly stands out
+export function detectReceiptLanguage(
+  text: string,
+  candidates: string[]
+): string | null {
+  const lower = text.toLowerCase();
+  const words = new Set(lower.split(/[^a-zà-ÿœß]+/).filter(Boolean));
+
+  const scores = candidates
+    .filter((code) => LANGUAGE_HINTS[code])
+    .map((code) => {
+      const hints = LANGUAGE_HINTS[code];
+      const wordMatches = hints.words.filter((word) => words.has(word)).length;
+      const letterMatches = Array.from(lower).filter((letter) =>
+        hints.letters.includes(letter)
+      ).length;
+      // Accented letters are also OCR noise, so they count for less
+      return { code, score: wordMatches + Math.min(letterMatches, 6) / 3 };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  if (scores.length === 0 || scores[0].score < 2) return null;
+  if (scores.length > 1 && scores[0].score - scores[1].score < 1) return null;
+  return scores[0].code;
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOcrWorkerPool, OcrBusyError } from './ocrWorkerPool';
+
+const tesseract = vi.hoisted(() => ({ createWorker: vi.fn() }));
+
+vi.mock('tesseract.js', () => ({ default: tesseract }));
+
+interface FakeWorker {
+  languages: string;
+  recognize: ReturnType<typeof vi.fn>;
+  reinitialize: ReturnType<typeof vi.fn>;
+  terminate: ReturnType<typeof vi.fn>;
+}
+
+// Recognitions in progress, finished when a test says so
+let jobs: { languages: string; finish: () => void }[];
+let workers: FakeWorker[];
+
+const createFakeWorker = async (languages: string) => {
+  const worker: FakeWorker = {
+    languages,
+    recognize: vi.fn(
+      () =>
+        new Promise((resolve) => {
+          jobs.push({
+            languages: worker.languages,
+            finish: () => resolve({ data: { text: worker.languages } }),
+          });
+        })
+    ),
+    reinitialize: vi.fn(async (next: string) => {
+      worker.languages = next;
+    }),
+    terminate: vi.fn(async () => {}),
+  };
+  workers.push(worker);
+  return worker;
+};
+
+const image = Buffer.from('image');
+
+// Wait until this many recognitions have started. Workers start after the
+// pool imports Tesseract, which fake timers can't hurry along
+const waitForJobs = (count: number) =>
+  vi.waitFor(() => expect(jobs).toHaveLength(count));
+
+const createPool = (size = 1, maxQueue = 5) =>
+  createOcrWorkerPool({
+    size,
+    maxQueue,
+    timeoutMs: 1000,
+    idleTimeoutMs: 10000,
+    cachePath: '/tmp',
+  });
+
+describe('createOcrWorkerPool', () => {
+  beforeEach(() => {
+    // Only the pool's own timers, so module loading runs as usual
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    jobs = [];
+    workers = [];
+    tesseract.createWorker.mockReset();
+    tesseract.createWorker.mockImplementation(createFakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs up to the pool size at once and reuses workers', async () => {
+    const pool = createPool(2);
+    // Started one after another: two workers importing the mock at once can
+    // be handed the real module
+    const results = [pool.recognize(image, 'spa')];
+    await waitForJobs(1);
+    results.push(pool.recognize(image, 'spa'), pool.recognize(image, 'spa'));
+
+    await waitForJobs(2);
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(2);
+    jobs[0].finish();
+    await expect(results[0]).resolves.toEqual({ text: 'spa' });
+
+    await waitForJobs(3);
+    jobs[1].finish();
+    jobs[2].finish();
+    await Promise.all(results);
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses jobs when the queue is full', async () => {
+    const pool = createPool(1, 1);
+    const running = pool.recognize(image, 'spa');
+    const waiting = pool.recognize(image, 'spa');
+
+    await expect(pool.recognize(image, 'spa')).rejects.toBeInstanceOf(OcrBusyError);
+
+    await waitForJobs(1);
+    jobs[0].finish();
+    await running;
+    await waitForJobs(2);
+    jobs[1].finish();
+    await expect(waiting).resolves.toEqual({ text: 'spa' });
+  });
+
+  it('swaps the languages of an idle worker', async () => {
+    const pool = createPool();
+    const spanish = pool.recognize(image, 'spa');
+    await waitForJobs(1);
+    jobs[0].finish();
+    await spanish;
+
+    const english = pool.recognize(image, 'eng');
+    await waitForJobs(2);
+    jobs[1].finish();
+
+    await expect(english).resolves.toEqual({ text: 'eng' });
+    expect(workers[0].reinitialize).toHaveBeenCalledWith('eng');
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops a hung worker and starts a new one for the next job', async () => {
+    const pool = createPool();
+    const hung = expect(pool.recognize(image, 'spa')).rejects.toThrow(
+      'OCR timed out after 1000ms'
+    );
+    await waitForJobs(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await hung;
+    expect(workers[0].terminate).toHaveBeenCalled();
+
+    const next = pool.recognize(image, 'spa');
+    await waitForJobs(2);
+    jobs[1].finish();
+    await next;
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops a worker that finishes starting after its job timed out', async () => {
+    let started: (worker: FakeWorker) => void = () => {};
+    tesseract.createWorker.mockImplementationOnce(
+      () => new Promise((resolve) => (started = resolve))
+    );
+    const pool = createPool();
+
+    const slow = expect(pool.recognize(image, 'spa')).rejects.toThrow('OCR timed out');
+    await vi.waitFor(() => expect(tesseract.createWorker).toHaveBeenCalled());
+    await vi.advanceTimersByTimeAsync(1000);
+    await slow;
+
+    const worker = await createFakeWorker('spa');
+    started(worker);
+    await vi.waitFor(() => expect(worker.terminate).toHaveBeenCalled());
+    expect(worker.recognize).not.toHaveBeenCalled();
+  });
+
+  it('stops workers left idle', async () => {
+    const pool = createPool();
+    const result = pool.recognize(image, 'spa');
+    await waitForJobs(1);
+    jobs[0].finish();
+    await result;
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(workers[0].terminate).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(workers[0].terminate).toHaveBeenCalled();
+  });
+});
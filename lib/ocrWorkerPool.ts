@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import type Tesseract from 'tesseract.js';
+import { isOcrLanguageCode } from './ocrLanguages';
+
+export interface OcrWorkerPoolOptions {
+  size: number; // Workers running at once, each holds its language data
+  maxQueue: number; // Jobs allowed to wait before new ones are refused
+  timeoutMs: number; // For one recognition, including starting a worker
+  idleTimeoutMs: number; // Unused workers are stopped after this long
+  cachePath: string; // Directory with <lang>.traineddata files
+}
+
+export interface OcrWorkerPool {
+  // languages: Tesseract codes joined with "+", e.g. "spa+eng"
+  recognize(image: Buffer, languages: string): Promise<Tesseract.Page>;
+}
+
+// Thrown when the queue is full, so callers can ask the user to retry
+export class OcrBusyError extends Error {
+  constructor() {
+    super('OCR is busy with other receipts, please try again shortly');
+    this.name = 'OcrBusyError';
+  }
+}
+
+interface PooledWorker {
+  worker: Tesseract.Worker;
+  languages: string; // Language data currently loaded
+  idleTimer?: NodeJS.Timeout;
+}
+
+interface QueuedJob {
+  image: Buffer;
+  languages: string;
+  resolve: (page: Tesseract.Page) => void;
+  reject: (error: unknown) => void;
+}
+
+// Long-lived Tesseract workers shared by all requests. Starting a worker
+// loads the engine and language data, so they're kept between jobs; jobs
+// beyond the pool size wait in a bounded queue
+export function createOcrWorkerPool(
+  options: OcrWorkerPoolOptions
+): OcrWorkerPool {
+  const idle: PooledWorker[] = [];
+  const queue: QueuedJob[] = [];
+  let running = 0; // Jobs being recognized, including worker startup
+
+  const startWorker = async (languages: string): Promise<PooledWorker> => {
+    // Dynamic import to avoid build issues
+    const Tesseract = (await import('tesseract.js')).default;
+    // Language data is read from cachePath, and any language missing there
+    // is downloaded once and saved to it
+    const worker = await Tesseract.createWorker(languages, 1, {
+      cachePath: options.cachePath,
+      logger: () => {}, // Disable logging
+    });
+    return { worker, languages };
+  };
+
+  const retire = (pooled: PooledWorker) => {
+    pooled.worker.terminate().catch((error) => {
+      console.error('Error stopping OCR worker:', error);
+    });
+  };
+
+  const release = (pooled: PooledWorker) => {
+    pooled.idleTimer = setTimeout(() => {
+      idle.splice(idle.indexOf(pooled), 1);
+      retire(pooled);
+    }, options.idleTimeoutMs);
+    pooled.idleTimer.unref(); // Don't keep the process alive for it
+    idle.push(pooled);
+  };
+
+  // An idle worker for the job, preferring one with its languages loaded
+  const takeIdle = (languages: string) => {
+    const index = idle.findIndex((pooled) => pooled.languages === languages);
+    const [pooled] = idle.splice(index === -1 ? idle.length - 1 : index, 1);
+    if (pooled) {
+      clearTimeout(pooled.idleTimer);
+    }
+    return pooled || null;
+  };
+
+  const runJob = async (job: QueuedJob) => {
+    let pooled = takeIdle(job.languages);
+    let timer: NodeJS.Timeout | undefined;
+    let finished = false;
+
+    const work = (async () => {
+      if (!pooled) {
+        const started = await startWorker(job.languages);
+        // The job timed out while the worker was starting
+        if (finished) {
+          retire(started);
+          throw new Error('OCR job was abandoned');
+        }
+        pooled = started;
+      } else if (pooled.languages !== job.languages) {
+        // Swapping language data is quicker than starting a new worker
+        await pooled.worker.reinitialize(job.languages);
+        pooled.languages = job.languages;
+      }
+
+      // Blocks carry the word boxes, which aren't returned by default
+      return pooled.worker.recognize(
+        job.image,
+        {},
+        { text: true, blocks: true }
+      );
+    })();
+
+    try {
+      const { data } = await Promise.race([
+        work,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error(`OCR timed out after ${options.timeoutMs}ms`));
+          }, options.timeoutMs);
+        }),
+      ]);
+      finished = true;
+      if (pooled) {
+        release(pooled);
+      }
+      job.resolve(data);
+    } catch (error) {
+      finished = true;
+      // A worker that failed or hung can't be trusted with the next job
+      if (pooled) {
+        retire(pooled);
+      }
+      job.reject(error);
+    } finally {
+      clearTimeout(timer);
+      running--;
+      dispatch();
+    }
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0 && running < options.size) {
+      running++;
+      runJob(queue.shift() as QueuedJob);
+    }
+  };
+
+  return {
+    recognize(image, languages) {
+      if (queue.length >= options.maxQueue) {
+        return Promise.reject(new OcrBusyError());
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ image, languages, resolve, reject });
+        dispatch();
+      });
+    },
+  };
+}
+
+const readNumber = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '');
+  return value > 0 ? value : fallback;
+};
+
+declare global {
+  var ocrWorkerPool: OcrWorkerPool | undefined;
+}
+
+// Folder with the language data: OCR_LANG_PATH, or the project root where
+// spa.traineddata is kept
+export function getOcrLangPath(): string {
+  return process.env.OCR_LANG_PATH || process.cwd();
+}
+
+// Codes of the *.traineddata files in the language folder, leaving out
+// orientation data (osd), which can't read text
+export async function listLocalOcrLanguages(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getOcrLangPath());
+    return files
+      .filter((file) => file.endsWith('.traineddata'))
+      .map((file) => file.replace(/\.traineddata$/, ''))
+      .filter((code) => isOcrLanguageCode(code) && code !== 'osd')
+      .sort();
+  } catch (error) {
+    console.error('Error listing OCR languages:', error);
+    return [];
+  }
+}
+
+// The app's pool, sized by OCR_WORKERS, OCR_QUEUE_LIMIT and OCR_TIMEOUT_MS.
+// Kept on globalThis so hot reloads in development don't start a new set of
+// workers
+export function getOcrWorkerPool(): OcrWorkerPool {
+  if (!globalThis.ocrWorkerPool) {
+    globalThis.ocrWorkerPool = createOcrWorkerPool({
+      size: readNumber('OCR_WORKERS', 2),
+      maxQueue: readNumber('OCR_QUEUE_LIMIT', 20),
+      timeoutMs: readNumber('OCR_TIMEOUT_MS', 60000),
+      idleTimeoutMs: 5 * 60 * 1000,
+      cachePath: getOcrLangPath(),
+    });
+  }
+  return globalThis.ocrWorkerPool;
+}
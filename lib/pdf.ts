@@ -0,0 +1,125 @@
+import path from 'path';
+import { createCanvas } from '@napi-rs/canvas';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { extractTextFromReceiptImage, OcrOptions } from './ocr';
+
+// Pages with less text than this are treated as scanned images
+const MIN_TEXT_LENGTH = 20;
+
+// Scanned pages are slow to OCR, so only this many are read per file
+const MAX_OCR_PAGES = 20;
+
+// Scanned pages are rendered at this resolution for OCR, with the longest
+// side capped so a poster-sized page doesn't exhaust memory
+const RENDER_DPI = 200;
+const MAX_RENDER_SIDE = 4000;
+
+// Fonts and character maps pdf.js needs for PDFs that don't embed them
+const PDFJS_DIR = path.join(process.cwd(), 'node_modules', 'pdfjs-dist');
+
+export interface PdfText {
+  pages: string[]; // Text of each page, in order
+  confidence: number; // 0-1, weighted by how much text each page has
+  scannedPages: number; // Pages read with OCR
+}
+
+// Share of a text layer made of ordinary characters. PDFs with broken font
+// encodings extract as symbols and replacement characters, which scores low
+export function scoreTextLayer(text: string): number {
+  const characters = text.replace(/\s/g, '');
+  if (characters.length === 0) return 0;
+
+  const readable = characters.match(
+    /[A-Za-z0-9À-ÿ.,:;$€£¥₹%#\-\/()*+&@'"!?]/g
+  );
+  return Math.round(((readable?.length || 0) / characters.length) * 100) / 100;
+}
+
+// Text of a page, with a new line whenever the text moves vertically
+function toPageText(items: object[]): string {
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of items) {
+    if (!('str' in item)) continue; // Marked content, not text
+    const { str, transform } = item as { str: string; transform: number[] };
+    text += lastY === transform[5] || lastY === undefined ? str : `\n${str}`;
+    lastY = transform[5];
+  }
+  return text;
+}
+
+// The whole page rendered as PNG, scans and anything drawn over them alike
+async function renderPage(page: PDFPageProxy): Promise<Buffer> {
+  const size = page.getViewport({ scale: 1 });
+  const scale = Math.min(
+    RENDER_DPI / 72,
+    MAX_RENDER_SIDE / Math.max(size.width, size.height)
+  );
+  const viewport = page.getViewport({ scale });
+  const canvas = createCanvas(
+    Math.ceil(viewport.width),
+    Math.ceil(viewport.height)
+  );
+
+  await page.render({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    viewport,
+  }).promise;
+  return canvas.encode('png');
+}
+
+// Text of each page of a PDF. Pages without a text layer (scans saved as
+// PDF) are rendered and read with OCR
+export async function extractPdfText(
+  buffer: Buffer,
+  ocrOptions?: OcrOptions
+): Promise<PdfText> {
+  const doc = await getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+    cMapPacked: true,
+  }).promise;
+
+  const pages: string[] = [];
+  const scores: { score: number; weight: number }[] = [];
+  let scannedPages = 0;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      let text = toPageText((await page.getTextContent()).items);
+      let score = scoreTextLayer(text);
+
+      if (
+        text.replace(/\s/g, '').length < MIN_TEXT_LENGTH &&
+        scannedPages < MAX_OCR_PAGES
+      ) {
+        const ocrResult = await extractTextFromReceiptImage(
+          await renderPage(page),
+          ocrOptions
+        );
+        text = ocrResult.text;
+        score = ocrResult.confidence / 100; // Convert to 0-1 scale
+        scannedPages++;
+      }
+
+      pages.push(text);
+      scores.push({ score, weight: Math.max(text.trim().length, 1) });
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  const totalWeight = scores.reduce((sum, item) => sum + item.weight, 0);
+  return {
+    pages,
+    confidence:
+      totalWeight > 0
+        ? scores.reduce((sum, item) => sum + item.score * item.weight, 0) /
+          totalWeight
+        : 0,
+    scannedPages,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { extractDate, resolveDateOrder } from './receiptDates';
+
+describe('resolveDateOrder', () => {
+  it.each([
+    ['Total Bs 10,00', { currency: 'BOB' }, 'DMY'],
+    ['Total ¥1,200', { currency: 'JPY' }, 'YMD'],
+    ['Thank you for shopping\nTotal $10.00', { currency: 'USD' }, 'MDY'],
+    ['Gracias por su compra', {}, 'DMY'],
+    ['12345', { locale: 'en-US' }, 'MDY'],
+    ['12345', {}, 'DMY'],
+    ['Fecha 13/02/2025\nTotal $10.00', { currency: 'USD' }, 'DMY'],
+  ])('reads %j with %o as %s', (text, context, order) => {
+    expect(resolveDateOrder(text, context).order).toBe(order);
+  });
+});
+
+describe('extractDate', () => {
+  it.each([
+    ['Fecha: 03/04/2025', {}, '2025-04-03'],
+    ['Date: 03/04/2025\nThank you', { currency: 'USD' }, '2025-03-04'],
+    ['03/04/2025', { locale: 'en-US' }, '2025-03-04'],
+    ['2025-03-14', {}, '2025-03-14'],
+    ['14 de marzo de 2025', {}, '2025-03-14'],
+    ['Mar 14, 2025', {}, '2025-03-14'],
+    ['25/12/2024', { locale: 'en-US' }, '2024-12-25'],
+  ])('reads %j with %o as %s', (text, context, date) => {
+    expect(extractDate(text, context).date).toBe(date);
+  });
+
+  it('prefers the issue date over a due date', () => {
+    const result = extractDate(
+      'Vencimiento: 30/04/2025\nFecha de emisión: 01/04/2025'
+    );
+    expect(result.date).toBe('2025-04-01');
+  });
+
+  it('settles the day/month order from another date on the receipt', () => {
+    const result = extractDate(
+      'Due date: 02/15/2025 Invoice date 02/01/2025'
+    );
+    expect(result.date).toBe('2025-02-01');
+    expect(result.explanation).toContain('02/15/2025');
+  });
+
+  it('returns no date when none is printed', () => {
+    expect(extractDate('Gracias por su compra').date).toBeNull();
+  });
+});
@@ -0,0 +1,357 @@
+import { normalizeCurrencyCode } from './currency';
+import { OCR_LANGUAGES, detectReceiptLanguage } from './ocrLanguages';
+
+// Order of day, month and year in numeric dates such as 03/04/2025
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+// What's known about where a receipt comes from, used to read dates that
+// could be day/month or month/day
+export interface DateContext {
+  locale?: string | null; // The user's locale, e.g. "es-BO"
+  currency?: string | null; // Currency symbol or code found on the receipt
+}
+
+export interface DateResult {
+  date: string | null; // YYYY-MM-DD
+  confidence: number;
+  explanation: string | null; // Why this date and reading were chosen
+}
+
+// Month names and their usual abbreviations in the OCR languages
+const MONTHS: string[][] = [
+  ['enero', 'ene', 'january', 'jan', 'janeiro', 'janvier', 'janv', 'januar', 'jän', 'gennaio', 'gen'],
+  ['febrero', 'feb', 'february', 'fevereiro', 'fev', 'février', 'févr', 'februar', 'febbraio'],
+  ['marzo', 'mar', 'march', 'março', 'mars', 'märz', 'mär', 'mrz'],
+  ['abril', 'abr', 'april', 'apr', 'avril', 'avr', 'aprile'],
+  ['mayo', 'may', 'maio', 'mai', 'maggio', 'mag'],
+  ['junio', 'jun', 'june', 'junho', 'juin', 'juni', 'giugno', 'giu'],
+  ['julio', 'jul', 'july', 'julho', 'juillet', 'juil', 'juli', 'luglio', 'lug'],
+  ['agosto', 'ago', 'august', 'aug', 'août', 'aout'],
+  ['septiembre', 'setiembre', 'sep', 'sept', 'set', 'september', 'setembro', 'septembre', 'settembre'],
+  ['octubre', 'oct', 'october', 'outubro', 'out', 'octobre', 'oktober', 'okt', 'ottobre', 'ott'],
+  ['noviembre', 'nov', 'november', 'novembro', 'novembre'],
+  ['diciembre', 'dic', 'december', 'dec', 'dezembro', 'dez', 'décembre', 'déc', 'dezember', 'dicembre'],
+];
+
+// Longest names first, so "sept" isn't read as "sep" followed by a "t"
+const MONTH_PATTERN = MONTHS.flat()
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+const NUMERIC_DATE = /\b(\d{4}|\d{1,2})([\/.-])(\d{1,2})\2(\d{4}|\d{2})\b/g;
+// 14 de marzo de 2025, 14-ene-25, 14 Mar. 2025
+const DAY_MONTH_DATE = new RegExp(
+  `\\b(\\d{1,2})(?:\\s+de\\s+|[\\s./-]+)(${MONTH_PATTERN})\\.?(?:\\s+de(?:l)?\\s+|[\\s./,-]+)(\\d{4}|\\d{2})\\b`,
+  'gi'
+);
+// March 14, 2025, Jan 5 25
+const MONTH_DAY_DATE = new RegExp(
+  `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2}),?\\s+(\\d{4}|\\d{2})\\b`,
+  'gi'
+);
+
+// Labels of dates other than the purchase date. Checked first, since
+// "fecha de vencimiento" is also a "fecha"
+const OTHER_DATE_LABEL =
+  /(venc\w*|vence|due|v[aá]lid\w*|expir\w*|caduc\w*|l[ií]mite|pagar\s+antes|pay\s+by|entrega|deliver\w*|f[aä]llig\w*|scadenza|[ée]ch[ée]ance|desde|hasta|from|until|per[ií]odo|period)[^\d]*$/i;
+const ISSUE_DATE_LABEL =
+  /(fecha(\s+de\s+emisi[oó]n)?|emisi[oó]n|emitid[oa]|invoice\s+date|date|issued|datum|data)[^\d]*$/i;
+
+// Currencies used in a single country, or a region sharing a date order.
+// Dollars are used in too many places to tell anything on their own
+const CURRENCY_DATE_ORDER: { [code: string]: DateOrder } = {
+  EUR: 'DMY',
+  GBP: 'DMY',
+  BOB: 'DMY',
+  VES: 'DMY',
+  ARS: 'DMY',
+  MXN: 'DMY',
+  COP: 'DMY',
+  CLP: 'DMY',
+  PEN: 'DMY',
+  BRL: 'DMY',
+  INR: 'DMY',
+  JPY: 'YMD',
+};
+
+const ORDER_LABELS: { [order in DateOrder]: string } = {
+  DMY: 'day/month',
+  MDY: 'month/day',
+  YMD: 'year/month/day',
+};
+
+const DEFAULT_ORDER_REASON = 'by default';
+
+interface DateCandidate {
+  date: string;
+  text: string; // As printed
+  index: number; // Position in the text
+  readAs: DateOrder | null; // Order used when the date could be read several ways
+  label: 'issue' | 'other' | null;
+  labelText: string | null;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (year < 1900 || year > 2100) return false;
+  if (month < 1 || month > 12) return false;
+  if (day < 1 || day > 31) return false;
+
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+}
+
+// Two-digit years are taken as this century unless that's in the future
+function toFullYear(year: string): number {
+  const value = parseInt(year);
+  if (year.length === 4) return value;
+  const currentYear = new Date().getFullYear();
+  return 2000 + value <= currentYear + 1 ? 2000 + value : 1900 + value;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  return isValidDate(year, month, day)
+    ? `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
+    : null;
+}
+
+function findMonthIndex(name: string): number {
+  const lower = name.toLowerCase();
+  return MONTHS.findIndex((names) => names.includes(lower));
+}
+
+// More than a couple of days ahead can't be when the purchase was made
+const isFuture = (date: string) =>
+  new Date(`${date}T00:00:00`).getTime() > Date.now() + 2 * 24 * 60 * 60 * 1000;
+
+// How a locale writes numeric dates, e.g. "en-US" as month/day
+export function getLocaleDateOrder(locale: string): DateOrder | null {
+  try {
+    const order = new Intl.DateTimeFormat(locale)
+      .formatToParts(new Date(2025, 10, 22))
+      .filter((part) => ['day', 'month', 'year'].includes(part.type))
+      .map((part) => part.type[0].toUpperCase())
+      .join('');
+    return order === 'DMY' || order === 'MDY' || order === 'YMD'
+      ? order
+      : null;
+  } catch {
+    return null; // Not a valid locale
+  }
+}
+
+// The order a receipt's own dates settle, from a numeric date that can only
+// be read one way, such as 02/15/2025. Null when none does, or they disagree
+function findPrintedDateOrder(
+  text: string
+): { order: DateOrder; text: string } | null {
+  let found: { order: DateOrder; text: string } | null = null;
+  for (const match of Array.from(text.matchAll(NUMERIC_DATE))) {
+    const [printed, first, , second, third] = match;
+    if (first.length === 4) continue;
+
+    const year = toFullYear(third);
+    const dayFirst = toIsoDate(year, parseInt(second), parseInt(first));
+    const monthFirst = toIsoDate(year, parseInt(first), parseInt(second));
+    if (Boolean(dayFirst) === Boolean(monthFirst)) continue;
+
+    const order: DateOrder = dayFirst ? 'DMY' : 'MDY';
+    if (found && found.order !== order) return null;
+    found = found || { order, text: printed };
+  }
+  return found;
+}
+
+// The order to read ambiguous numeric dates in, and why: another date on
+// the same receipt that can only be read one way first, then the receipt's
+// currency, its language and the user's locale. Day/month is the default,
+// as on most of the receipts scanned here
+export function resolveDateOrder(
+  text: string,
+  context: DateContext = {}
+): { order: DateOrder; reason: string } {
+  const printed = findPrintedDateOrder(text);
+  if (printed) {
+    return {
+      order: printed.order,
+      reason: `since ${printed.text} on the same receipt can only be read that way`,
+    };
+  }
+
+  const currency = normalizeCurrencyCode(context.currency, '');
+  if (CURRENCY_DATE_ORDER[currency]) {
+    return {
+      order: CURRENCY_DATE_ORDER[currency],
+      reason: `from the currency (${currency})`,
+    };
+  }
+
+  const language = detectReceiptLanguage(
+    text,
+    OCR_LANGUAGES.map((option) => option.code)
+  );
+  if (language === 'eng' && currency === 'USD') {
+    return { order: 'MDY', reason: 'as an English receipt in dollars' };
+  }
+  if (language && language !== 'eng') {
+    return { order: 'DMY', reason: 'from the receipt language' };
+  }
+
+  const localeOrder = context.locale ? getLocaleDateOrder(context.locale) : null;
+  if (localeOrder) {
+    return {
+      order: localeOrder,
+      reason: `from your locale (${context.locale})`,
+    };
+  }
+
+  return { order: 'DMY', reason: DEFAULT_ORDER_REASON };
+}
+
+// Every date printed on a receipt, in order, with the label before it
+function findDateCandidates(
+  text: string,
+  order: DateOrder
+): DateCandidate[] {
+  const candidates: DateCandidate[] = [];
+
+  const add = (
+    match: RegExpMatchArray,
+    date: string | null,
+    readAs: DateOrder | null = null
+  ) => {
+    const index = match.index || 0;
+    if (!date || candidates.some((candidate) => candidate.index === index)) {
+      return;
+    }
+    const before = text
+      .slice(text.lastIndexOf('\n', index - 1) + 1, index)
+      .slice(-40);
+    const other = before.match(OTHER_DATE_LABEL);
+    const issue = other ? null : before.match(ISSUE_DATE_LABEL);
+    candidates.push({
+      date,
+      text: match[0],
+      index,
+      readAs,
+      label: other ? 'other' : issue ? 'issue' : null,
+      labelText: (other || issue)?.[1] || null,
+    });
+  };
+
+  for (const match of Array.from(text.matchAll(NUMERIC_DATE))) {
+    const [, first, , second, third] = match;
+    if (first.length === 4) {
+      add(match, toIsoDate(parseInt(first), parseInt(second), parseInt(third)));
+      continue;
+    }
+
+    const a = parseInt(first);
+    const b = parseInt(second);
+    const year = toFullYear(third);
+    if (order === 'YMD' && third.length === 2) {
+      add(match, toIsoDate(toFullYear(first), b, parseInt(third)), 'YMD');
+      continue;
+    }
+
+    const dayFirst = toIsoDate(year, b, a);
+    const monthFirst = toIsoDate(year, a, b);
+    if (!dayFirst || !monthFirst || a === b) {
+      // Only one reading is a real date
+      add(match, dayFirst || monthFirst);
+      continue;
+    }
+
+    const preferred = order === 'MDY' ? 'MDY' : 'DMY';
+    const alternative = order === 'MDY' ? 'DMY' : 'MDY';
+    const readings = { DMY: dayFirst, MDY: monthFirst };
+    // A purchase can't be dated in the future, so the other reading wins
+    const readAs =
+      isFuture(readings[preferred]) && !isFuture(readings[alternative])
+        ? alternative
+        : preferred;
+    add(match, readings[readAs], readAs);
+  }
+
+  for (const match of Array.from(text.matchAll(DAY_MONTH_DATE))) {
+    const month = findMonthIndex(match[2]);
+    if (month !== -1) {
+      add(match, toIsoDate(toFullYear(match[3]), month + 1, parseInt(match[1])));
+    }
+  }
+
+  for (const match of Array.from(text.matchAll(MONTH_DAY_DATE))) {
+    const month = findMonthIndex(match[1]);
+    if (month !== -1) {
+      add(match, toIsoDate(toFullYear(match[3]), month + 1, parseInt(match[2])));
+    }
+  }
+
+  return candidates.sort((a, b) => a.index - b.index);
+}
+
+// The purchase date on a receipt. Dates labelled as the issue date are
+// preferred, due dates and validity periods are passed over, and numeric
+// dates are read in the order the receipt's other dates, currency, language
+// or the user's locale suggest
+export function extractDate(
+  text: string,
+  context: DateContext = {}
+): DateResult {
+  const { order, reason } = resolveDateOrder(text, context);
+  const candidates = findDateCandidates(text, order);
+  if (candidates.length === 0) {
+    return { date: null, confidence: 0, explanation: null };
+  }
+
+  const issue = candidates.filter((candidate) => candidate.label === 'issue');
+  const plain = candidates.filter((candidate) => candidate.label === null);
+  const other = candidates.filter((candidate) => candidate.label === 'other');
+  const chosen = issue[0] || plain[0] || other[0];
+
+  const notes: string[] = [];
+  let confidence: number;
+  if (chosen.label === 'issue') {
+    confidence = 0.95;
+    if (candidates.length > 1) notes.push(`labelled "${chosen.labelText}"`);
+  } else if (chosen.label === null) {
+    confidence = plain.length > 1 ? 0.8 : 0.9;
+    if (candidates.length > 1) notes.push('first date on the receipt');
+  } else {
+    confidence = 0.5;
+    notes.push(`only dates labelled "${chosen.labelText}" were found`);
+  }
+
+  const skipped = other.filter((candidate) => candidate !== chosen);
+  if (skipped.length > 0) {
+    notes.push(
+      `skipped ${skipped
+        .map((candidate) => `${candidate.text} ("${candidate.labelText}")`)
+        .join(', ')}`
+    );
+  }
+
+  if (chosen.readAs) {
+    notes.push(
+      chosen.readAs === order
+        ? `${chosen.text} read as ${ORDER_LABELS[order]} ${reason}`
+        : `${chosen.text} read as ${ORDER_LABELS[chosen.readAs]}, since as ${ORDER_LABELS[order]} it would be in the future`
+    );
+    confidence = Math.min(
+      confidence,
+      reason === DEFAULT_ORDER_REASON ? 0.7 : 0.85
+    );
+  }
+
+  const explanation = notes.join('; ');
+  return {
+    date: chosen.date,
+    confidence,
+    explanation: explanation
+      ? explanation[0].toUpperCase() + explanation.slice(1)
+      : null,
+  };
+}
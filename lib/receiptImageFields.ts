@@ -0,0 +1,124 @@
+import { OcrWord, buildLayout } from './receiptLayout';
+import { normalizeAmount } from './heuristicExtraction';
+import { DateContext, extractDate } from './receiptDates';
+import { containsPrice } from './currency';
+
+// Fields of the confirmation form that can be filled from the receipt image
+export type ReceiptImageField = 'amount' | 'date' | 'provider' | 'description';
+
+export interface FieldBoxes {
+  field: ReceiptImageField;
+  words: OcrWord[];
+}
+
+const simplify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9à-ÿ]/g, '');
+
+// Whether printed text holds an ISO date, whichever order its day, month
+// and year are written in
+export function matchesDate(text: string, date: string): boolean {
+  if (/\d{1,4}[\/.-]\d{1,2}[\/.-]\d{2,4}/.test(text)) {
+    const [year, month, day] = date.split('-').map(Number);
+    const printed = (text.match(/\d+/g) || []).map(Number).sort((a, b) => a - b);
+    return [year, year % 100].some((printedYear) => {
+      const expected = [day, month, printedYear].sort((a, b) => a - b);
+      return (
+        printed.length === 3 &&
+        printed.every((number, index) => number === expected[index])
+      );
+    });
+  }
+  // Dates with the month written out
+  return extractDate(text).date === date;
+}
+
+// The shortest runs of words, one per line at most, whose text matches
+function findRuns(words: OcrWord[], matches: (text: string) => boolean) {
+  const layout = buildLayout(words);
+  if (!layout) return [];
+
+  const runs: OcrWord[][] = [];
+  for (const line of layout.lines) {
+    let best: OcrWord[] | null = null;
+    for (let start = 0; start < line.words.length; start++) {
+      for (let end = start; end < line.words.length; end++) {
+        if (best && end - start + 1 >= best.length) break;
+        const run = line.words.slice(start, end + 1);
+        if (matches(run.map((word) => word.text.trim()).join(' '))) {
+          best = run;
+          break;
+        }
+      }
+    }
+    if (best) runs.push(best);
+  }
+  return runs;
+}
+
+// Where the form's current amount, date and provider are printed on the
+// receipt. Every place a value appears is marked, since a total often
+// repeats as the subtotal or the amount paid
+export function locateReceiptFields(
+  words: OcrWord[],
+  values: { amount: string; date: string; provider: string; currency?: string }
+): FieldBoxes[] {
+  const located: FieldBoxes[] = [];
+  const add = (field: ReceiptImageField, runs: OcrWord[][]) => {
+    if (runs.length > 0) located.push({ field, words: runs.flat() });
+  };
+
+  const amount = parseFloat(values.amount);
+  if (amount > 0) {
+    add(
+      'amount',
+      findRuns(words, (text) => {
+        // Only printed prices, not quantities or codes that happen to match
+        if (!containsPrice(text, values.currency)) return false;
+        const value = normalizeAmount(text, { currency: values.currency });
+        return value !== null && Math.abs(value - amount) < 0.005;
+      })
+    );
+  }
+
+  if (values.date) {
+    add('date', findRuns(words, (text) => matchesDate(text, values.date)));
+  }
+
+  const provider = simplify(values.provider);
+  if (provider.length >= 3) {
+    add('provider', findRuns(words, (text) => simplify(text).includes(provider)));
+  }
+
+  return located;
+}
+
+// The value a clicked word gives a field: the amount or date it reads as,
+// or for names the whole printed line, since they span several words.
+// Amounts and dates are read in the form's currency and the user's locale.
+// Null when the word can't be read as that field
+export function pickFieldValue(
+  field: ReceiptImageField,
+  word: OcrWord,
+  words: OcrWord[],
+  context: DateContext = {}
+): string | null {
+  const line = buildLayout(words)?.lines.find((candidate) =>
+    candidate.words.includes(word)
+  );
+  const lineText = line?.text || word.text.trim();
+
+  if (field === 'amount') {
+    const amount = normalizeAmount(word.text, context);
+    return amount !== null && amount > 0 ? amount.toFixed(2) : null;
+  }
+  if (field === 'date') {
+    // Dates like "14 marzo 2025" are split into several words
+    return (
+      extractDate(word.text, context).date ||
+      extractDate(lineText, context).date
+    );
+  }
+
+  const name = lineText.replace(/^[^A-Za-zÀ-ÿ\d]+|[^A-Za-zÀ-ÿ\d.)]+$/g, '');
+  return name || null;
+}
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { heuristicExtraction } from './heuristicExtraction';
+import {
+  buildLayout,
+  findLayoutProvider,
+  findLayoutTotal,
+  layoutAwareExtraction,
+  OcrWord,
+} from './receiptLayout';
+
+// Words of one printed line at a height, each [text, left edge]
+const line = (
+  y: number,
+  words: [string, number][],
+  height = 20
+): OcrWord[] =>
+  words.map(([text, x]) => ({
+    text,
+    confidence: 90,
+    bbox: { x0: x, y0: y, x1: x + text.length * 10, y1: y + height },
+  }));
+
+const receipt = [
+  ...line(0, [['SUPER', 100], ['MERCADO', 160]], 40),
+  ...line(50, [['NIT', 100], ['123456789', 140]]),
+  ...line(80, [['Fecha', 0], ['12/03/2025', 60]]),
+  ...line(110, [['Pan', 0], ['5,00', 370]]),
+  ...line(140, [['Leche', 0], ['7,50', 370]]),
+  ...line(170, [['SUBTOTAL', 0], ['12,50', 360]]),
+  ...line(200, [['IVA', 0], ['1,63', 370]]),
+  ...line(230, [['TOTAL', 0], ['Bs', 300], ['12,50', 360]]),
+  ...line(260, [['Efectivo', 0], ['20,00', 360]]),
+  ...line(290, [['Cambio', 0], ['7,50', 370]]),
+];
+const text = buildLayout(receipt)!
+  .lines.map((printed) => printed.text)
+  .join('\n');
+
+describe('buildLayout', () => {
+  it('groups words into lines, left to right', () => {
+    const words = [
+      ...line(0, [['B', 50], ['A', 0]]),
+      ...line(4, [['C', 100]]), // Slightly lower, same line
+      ...line(30, [['D', 0]]),
+    ];
+    const layout = buildLayout(words)!;
+    expect(layout.lines.map((printed) => printed.text)).toEqual(['A B C', 'D']);
+    expect(layout).toMatchObject({ top: 0, bottom: 50, left: 0, right: 110, wordHeight: 20 });
+  });
+
+  it('needs at least three words', () => {
+    expect(buildLayout(line(0, [['TOTAL', 0], ['  ', 60], ['5,00', 100]]))).toBeNull();
+  });
+});
+
+describe('findLayoutTotal', () => {
+  it('reads the amount next to the total label, skipping subtotal and change', () => {
+    const total = findLayoutTotal(buildLayout(receipt)!);
+    expect(total).toMatchObject({ amount: 12.5, currency: 'BOB' });
+    expect(total!.confidence).toBeCloseTo(0.97);
+  });
+
+  it('reads an amount printed on the line below its label', () => {
+    const layout = buildLayout([
+      ...line(0, [['Tienda', 0]]),
+      ...line(100, [['TOTAL', 0], ['A', 60], ['PAGAR', 80]]),
+      ...line(130, [['25,00', 200]]),
+    ])!;
+    expect(findLayoutTotal(layout)?.amount).toBe(25);
+  });
+
+  it('falls back to the largest right-aligned amount lower down', () => {
+    const layout = buildLayout([
+      ...line(0, [['Tienda', 0], ['99,00', 200]]),
+      ...line(150, [['Pan', 0], ['5,00', 210]]),
+      ...line(200, [['Vino', 0], ['30,00', 200]]),
+      ...line(300, [['Gracias', 0]]),
+    ])!;
+    expect(findLayoutTotal(layout)).toEqual({ amount: 30, currency: null, confidence: 0.6 });
+  });
+});
+
+describe('findLayoutProvider', () => {
+  it('takes the largest print at the top, skipping numbers', () => {
+    expect(findLayoutProvider(buildLayout(receipt)!)).toEqual({
+      provider: 'SUPER MERCADO',
+      confidence: 0.8,
+    });
+  });
+});
+
+describe('layoutAwareExtraction', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('uses the positioned total and merchant name', () => {
+    const { data } = layoutAwareExtraction(text, receipt);
+    expect(data).toMatchObject({
+      amount: 12.5,
+      currency: 'BOB',
+      provider: 'SUPER MERCADO',
+      date: '2025-03-12',
+    });
+  });
+
+  it('falls back to the flat text without enough words', () => {
+    expect(layoutAwareExtraction(text, line(0, [['x', 0]]))).toEqual(
+      heuristicExtraction(text)
+    );
+  });
+});
@@ -0,0 +1,297 @@
+import type { OCRResult } from './ocr';
+import {
+  ExtractionContext,
+  ExtractionResult,
+  heuristicExtraction,
+  normalizeAmount,
+  summarizeExtraction,
+} from './heuristicExtraction';
+import {
+  CURRENCY_TOKEN_PATTERN,
+  detectReceiptCurrency,
+  getPricePattern,
+  resolveCurrencyToken,
+} from './currency';
+
+export type OcrWord = OCRResult['words'][number];
+
+// A printed line rebuilt from the words Tesseract found on it
+export interface LayoutLine {
+  text: string;
+  words: OcrWord[];
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface ReceiptLayout {
+  lines: LayoutLine[]; // Top to bottom
+  // Edges of the printed area, so positions can be compared across lines
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  wordHeight: number; // Median word height, to spot large print
+}
+
+// Positions as a share of the printed area
+const RIGHT_COLUMN = 0.12; // Within this of the right edge counts as right-aligned
+const HEADER_AREA = 0.3; // The merchant name is printed in the top part
+
+const CURRENCY_WORD = new RegExp(`^(${CURRENCY_TOKEN_PATTERN})$`, 'i');
+const TOTAL_LABEL =
+  /\b(total|importe|a\s+pagar|summe|gesamt|montant|totale|amount\s+due|balance\s+due)\b/i;
+// Lines that mention a total but hold something else
+const NOT_TOTAL_LABEL =
+  /\b(sub\s*-?\s*total|zwischensumme|total\s+(items?|art[ií]culos|unidades)|iva|tax|vat|tva|mwst|descuento|discount|cambio|change|vuelto|efectivo|cash|troco|rendu|r[uü]ckgeld)\b/i;
+const HEADER_SKIP =
+  /\b(total|subtotal|iva|fecha|hora|date|time|ticket|factura|receipt|recibo|nit|nif|rfc|cif|tel|telf|phone)\b/i;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const centerY = (word: OcrWord) => (word.bbox.y0 + word.bbox.y1) / 2;
+
+// Group words into lines by their vertical centres, then order each line
+// left to right. Null when there are too few words to tell anything
+export function buildLayout(words: OcrWord[]): ReceiptLayout | null {
+  const printed = words.filter((word) => word.text.trim());
+  if (printed.length < 3) return null;
+
+  const wordHeight = median(printed.map((word) => word.bbox.y1 - word.bbox.y0));
+  const lines: LayoutLine[] = [];
+
+  for (const word of [...printed].sort((a, b) => centerY(a) - centerY(b))) {
+    // Words on the same line share a centre, give or take half a line
+    const line = lines.find(
+      (candidate) =>
+        Math.abs((candidate.top + candidate.bottom) / 2 - centerY(word)) <
+        wordHeight / 2
+    );
+    if (line) {
+      line.words.push(word);
+      line.top = Math.min(line.top, word.bbox.y0);
+      line.bottom = Math.max(line.bottom, word.bbox.y1);
+      line.left = Math.min(line.left, word.bbox.x0);
+      line.right = Math.max(line.right, word.bbox.x1);
+    } else {
+      lines.push({
+        text: '',
+        words: [word],
+        top: word.bbox.y0,
+        bottom: word.bbox.y1,
+        left: word.bbox.x0,
+        right: word.bbox.x1,
+      });
+    }
+  }
+
+  lines.forEach((line) => {
+    line.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+    line.text = line.words.map((word) => word.text.trim()).join(' ');
+  });
+  lines.sort((a, b) => a.top - b.top);
+
+  return {
+    lines,
+    top: Math.min(...lines.map((line) => line.top)),
+    bottom: Math.max(...lines.map((line) => line.bottom)),
+    left: Math.min(...lines.map((line) => line.left)),
+    right: Math.max(...lines.map((line) => line.right)),
+    wordHeight,
+  };
+}
+
+// Amounts printed on a line, right-most last, read the way the currency
+// writes them
+function getLineAmounts(
+  line: LayoutLine,
+  currency: string | null,
+  locale?: string | null
+) {
+  const amountWord = new RegExp(
+    `^(?:${CURRENCY_TOKEN_PATTERN})?-?(?:${getPricePattern(currency)})(?:${CURRENCY_TOKEN_PATTERN})?$`,
+    'i'
+  );
+  return line.words
+    .filter((word) => amountWord.test(word.text.trim()))
+    .map((word) => ({
+      word,
+      amount: normalizeAmount(word.text.trim(), { currency, locale }),
+    }))
+    .filter(
+      (item): item is { word: OcrWord; amount: number } =>
+        item.amount !== null && item.amount > 0
+    );
+}
+
+// The ISO code of the currency printed on a line, on its own or next to an
+// amount as in "$12.50"
+function getLineCurrency(
+  line: LayoutLine,
+  text: string,
+  baseCurrency?: string | null
+): string | null {
+  for (const word of line.words) {
+    const symbol = word.text.trim().replace(/[-\d.,]+/g, '');
+    if (CURRENCY_WORD.test(symbol)) {
+      return resolveCurrencyToken(symbol, text, baseCurrency);
+    }
+  }
+  return null;
+}
+
+// The receipt total: the amount right-aligned next to a "total" label,
+// preferring labels lower on the receipt. Without a label, the largest
+// right-aligned amount in the lower part of the receipt
+export function findLayoutTotal(
+  layout: ReceiptLayout,
+  context: ExtractionContext = {}
+): { amount: number; currency: string | null; confidence: number } | null {
+  const text = layout.lines.map((line) => line.text).join('\n');
+  const receiptCurrency = detectReceiptCurrency(text, context.baseCurrency);
+  const currencyOf = (line: LayoutLine) =>
+    getLineCurrency(line, text, context.baseCurrency);
+  const amountsOf = (line: LayoutLine) =>
+    getLineAmounts(line, currencyOf(line) || receiptCurrency, context.locale);
+  const width = Math.max(layout.right - layout.left, 1);
+  const height = Math.max(layout.bottom - layout.top, 1);
+  const isRightAligned = (word: OcrWord) =>
+    (layout.right - word.bbox.x1) / width <= RIGHT_COLUMN;
+  const isLow = (line: LayoutLine) => (line.top - layout.top) / height >= 0.5;
+
+  const candidates: {
+    amount: number;
+    currency: string | null;
+    confidence: number;
+    top: number;
+  }[] = [];
+
+  layout.lines.forEach((line, index) => {
+    if (!TOTAL_LABEL.test(line.text) || NOT_TOTAL_LABEL.test(line.text)) {
+      return;
+    }
+    // The amount may be printed on the line below its label
+    const amountLine = [line, layout.lines[index + 1]].find(
+      (candidate) => candidate && amountsOf(candidate).length > 0
+    );
+    if (!amountLine) return;
+
+    const amounts = amountsOf(amountLine);
+    const { word, amount } = amounts[amounts.length - 1];
+    let confidence = 0.85;
+    if (isRightAligned(word)) confidence += 0.07;
+    if (isLow(line)) confidence += 0.05;
+    candidates.push({
+      amount,
+      currency: currencyOf(amountLine),
+      confidence,
+      top: line.top,
+    });
+  });
+
+  if (candidates.length > 0) {
+    // Best placed first, then the lowest label (the final total)
+    candidates.sort((a, b) =>
+      Math.abs(a.confidence - b.confidence) > 0.01
+        ? b.confidence - a.confidence
+        : b.top - a.top
+    );
+    const { amount, currency, confidence } = candidates[0];
+    return { amount, currency, confidence };
+  }
+
+  const rightColumn = layout.lines
+    .filter((line) => (line.top - layout.top) / height >= 0.33)
+    .flatMap((line) =>
+      amountsOf(line)
+        .filter(({ word }) => isRightAligned(word))
+        .map(({ amount }) => ({ amount, currency: currencyOf(line) }))
+    )
+    .sort((a, b) => b.amount - a.amount);
+
+  return rightColumn.length > 0 ? { ...rightColumn[0], confidence: 0.6 } : null;
+}
+
+// The merchant name: the largest print among the first lines at the top,
+// skipping lines that are mostly numbers (addresses, tax IDs, phones)
+export function findLayoutProvider(
+  layout: ReceiptLayout
+): { provider: string; confidence: number } | null {
+  const height = Math.max(layout.bottom - layout.top, 1);
+
+  const candidates = layout.lines
+    .slice(0, 5)
+    .filter((line) => (line.top - layout.top) / height <= HEADER_AREA)
+    .map((line) => ({
+      provider: line.text.replace(/^[^A-Za-zÀ-ÿ\d]+|[^A-Za-zÀ-ÿ\d.)]+$/g, ''),
+      size: median(line.words.map((word) => word.bbox.y1 - word.bbox.y0)),
+    }))
+    .filter(({ provider }) => {
+      const letters = (provider.match(/[A-Za-zÀ-ÿ]/g) || []).length;
+      const digits = (provider.match(/\d/g) || []).length;
+      return (
+        provider.length >= 3 &&
+        provider.length <= 50 &&
+        letters >= 3 &&
+        digits <= letters / 3 &&
+        !HEADER_SKIP.test(provider)
+      );
+    });
+
+  if (candidates.length === 0) return null;
+
+  // Sort is stable, so equal sizes keep the topmost line first
+  const [best] = [...candidates].sort((a, b) => b.size - a.size);
+  return {
+    provider: best.provider,
+    confidence: best.size >= layout.wordHeight * 1.2 ? 0.8 : 0.7,
+  };
+}
+
+// Heuristic extraction with the word positions from OCR: the total and the
+// merchant name are picked by where they're printed, and the flat-text
+// heuristics fill in the rest
+export function layoutAwareExtraction(
+  text: string,
+  words: OcrWord[],
+  context: ExtractionContext = {}
+): ExtractionResult {
+  const base = heuristicExtraction(text, context);
+  const layout = buildLayout(words);
+  if (!layout) return base;
+
+  const data = { ...base.data, confidence: { ...base.data.confidence } };
+
+  const total = findLayoutTotal(layout, context);
+  // A labelled total beats any amount found in the flat text; a guess from
+  // the right column only helps when the text gave nothing usable
+  if (total && (total.confidence >= 0.85 || data.confidence.amount < 0.6)) {
+    data.confidence.amount =
+      total.amount === data.amount
+        ? Math.max(total.confidence, data.confidence.amount)
+        : total.confidence;
+    data.amount = total.amount;
+    data.currency = total.currency || data.currency;
+  }
+
+  const provider = findLayoutProvider(layout);
+  if (provider && provider.confidence > data.confidence.provider) {
+    // Keep the generated description in step with the new name
+    if (
+      data.description === 'Gasto registrado' ||
+      (data.provider && data.description === `Compra en ${data.provider}`)
+    ) {
+      data.description = `Compra en ${provider.provider}`;
+      data.confidence.description = Math.max(data.confidence.description, 0.5);
+    }
+    data.provider = provider.provider;
+    data.confidence.provider = provider.confidence;
+  }
+
+  return summarizeExtraction(data);
+}
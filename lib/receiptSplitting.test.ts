@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RECEIPTS_PER_FILE, splitIntoReceipts } from './receiptSplitting';
+
+describe('splitIntoReceipts', () => {
+  it('splits a page after each grand total', () => {
+    const receipts = splitIntoReceipts([
+      'TIENDA UNO\nPan 5,00\nTOTAL 5,00\nEfectivo 10,00\nCambio 5,00\nTIENDA DOS\nLeche 3,50\nTOTAL 3,50',
+    ]);
+    expect(receipts).toHaveLength(2);
+    expect(receipts[0].text).toContain('Cambio 5,00');
+    expect(receipts[1]).toMatchObject({ pageNumber: 1 });
+    expect(receipts[1].text.startsWith('TIENDA DOS')).toBe(true);
+  });
+
+  it('keeps a receipt running over several pages together', () => {
+    const receipts = splitIntoReceipts([
+      'TIENDA\nPan 5,00',
+      'Leche 3,50\nTOTAL 8,50',
+    ]);
+    expect(receipts).toHaveLength(1);
+    expect(receipts[0].pageNumber).toBe(1);
+  });
+
+  it('does not split on subtotals, tax totals or repeated totals', () => {
+    expect(
+      splitIntoReceipts(['Pan 5,00\nSubtotal 5,00\nTotal IVA 0,65\nTOTAL 5,65\nTOTAL USD 5,65'])
+    ).toHaveLength(1);
+  });
+
+  it('appends closing lines after the last total, unless they have prices', () => {
+    expect(splitIntoReceipts(['A\nTOTAL 10,00\nVuelva pronto\nFecha 12.03.2025'])).toHaveLength(1);
+    expect(splitIntoReceipts(['A\nTOTAL 10,00\nB\nPan 25.900'])).toHaveLength(2);
+    expect(splitIntoReceipts(['A\nTOTAL 10,00\nB\nCafé ¥1,200'])).toHaveLength(2);
+  });
+
+  it(`reads past ${MAX_RECEIPTS_PER_FILE} receipts for the caller to reject`, () => {
+    const page = Array.from({ length: 25 }, (_, index) => `Tienda ${index}\nTOTAL 1,00`).join('\n');
+    expect(splitIntoReceipts([page])).toHaveLength(25);
+  });
+});
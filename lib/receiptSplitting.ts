@@ -0,0 +1,101 @@
+import type { OCRResult } from './ocr';
+import { containsPrice } from './currency';
+
+// Files with more receipts than this are rejected rather than cut short
+export const MAX_RECEIPTS_PER_FILE = 20;
+
+// Text of one receipt found in an uploaded file
+export interface ReceiptSegment {
+  text: string;
+  pageNumber: number; // 1-based page the receipt starts on
+  words?: OCRResult['words']; // Word positions, when read from a photo
+}
+
+// A grand total closes a receipt ("Total", "Total a pagar", "Amount due"),
+// but not a subtotal or a tax total
+const TOTAL_LINE =
+  /^\s*(total|importe total|monto total|total a pagar|grand total|amount due)\b(?!.*\b(iva|vat|tax|impuesto)s?\b).*\d/i;
+
+// Lines printed after the total that still belong to the same receipt
+const FOOTER_LINE =
+  /^\s*$|efectivo|cash|tarjeta|card|visa|mastercard|cambio|change|vuelto|gracias|thank|propina|tip|iva|vat|tax|impuesto|pagado|paid|autoriz|auth/i;
+
+// Totals printed twice in a row (e.g. "TOTAL" and "TOTAL USD") count once
+const MAX_TOTAL_GAP = 3;
+
+interface PageSegment {
+  lines: string[];
+  hasTotal: boolean;
+}
+
+// Split one page into runs of lines that each end with a grand total (plus
+// the payment lines printed after it), and a trailing run without a total
+function splitPage(text: string): PageSegment[] {
+  const segments: PageSegment[] = [];
+  let current: PageSegment = { lines: [], hasTotal: false };
+  let linesSinceTotal = 0;
+
+  text.split('\n').forEach((line) => {
+    if (TOTAL_LINE.test(line)) {
+      if (current.hasTotal && linesSinceTotal > MAX_TOTAL_GAP) {
+        // Another receipt on the same page, already started
+        segments.push(current);
+        current = { lines: [], hasTotal: false };
+      }
+      current.lines.push(line);
+      current.hasTotal = true;
+      linesSinceTotal = 0;
+      return;
+    }
+
+    if (current.hasTotal && !FOOTER_LINE.test(line)) {
+      // The receipt has ended; this line starts the next one
+      segments.push(current);
+      current = { lines: [], hasTotal: false };
+    }
+    current.lines.push(line);
+    linesSinceTotal++;
+  });
+
+  segments.push(current);
+  return segments.filter((segment) => segment.lines.some((line) => line.trim()));
+}
+
+// Receipts in the pages of a PDF: a page may hold several receipts, and a
+// long receipt may run over several pages until its total is printed
+export function splitIntoReceipts(pages: string[]): ReceiptSegment[] {
+  const receipts: ReceiptSegment[] = [];
+  let pending: { lines: string[]; pageNumber: number } | null = null;
+
+  for (let index = 0; index < pages.length; index++) {
+    for (const segment of splitPage(pages[index])) {
+      if (!pending) {
+        pending = { lines: [], pageNumber: index + 1 };
+      }
+      pending.lines.push(...segment.lines);
+      if (segment.hasTotal) {
+        receipts.push({
+          text: pending.lines.join('\n').trim(),
+          pageNumber: pending.pageNumber,
+        });
+        pending = null;
+      }
+    }
+  }
+
+  // Text after the last total: closing lines of the last receipt unless it
+  // has prices, in which case it's a receipt without a total line
+  if (pending) {
+    const text = pending.lines.join('\n').trim();
+    const last = receipts[receipts.length - 1];
+    // The currency isn't known yet, so whole prices only count when
+    // grouped in thousands ("25.900")
+    if (last && !containsPrice(text)) {
+      last.text = `${last.text}\n${text}`;
+    } else {
+      receipts.push({ text, pageNumber: pending.pageNumber });
+    }
+  }
+
+  return receipts;
+}
@@ -0,0 +1,194 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Where original receipt files are kept. Keys are relative paths such as
+// "<userId>/<uuid>.jpg"
+export interface ReceiptStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // Null when the file is missing
+  delete(key: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO URL
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Files under a directory on the server's disk
+export function createLocalStorage(rootDir: string): ReceiptStorage {
+  const root = path.resolve(rootDir);
+
+  // Refuse keys that would escape the storage directory
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+const sha256Hex = (data: string | Buffer) =>
+  createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data).digest();
+
+// Objects in an S3-compatible bucket (AWS, MinIO, R2...), addressed
+// path-style and signed with AWS Signature Version 4
+export function createS3Storage(config: S3StorageConfig): ReceiptStorage {
+  const send = async (
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ) => {
+    const url = new URL(
+      `${config.endpoint.replace(/\/+$/, '')}/${config.bucket}/${key
+        .split('/')
+        .map(encodeURIComponent)
+        .join('/')}`
+    );
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    // fetch sets Host itself, but it still has to be signed
+    const headers: { [name: string]: string } = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const signed: { [name: string]: string } = { host: url.host, ...headers };
+    const signedHeaders = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '', // No query string
+      signedHeaders.map((name) => `${name}:${signed[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  return {
+    async put(key, body, contentType) {
+      const response = await send('PUT', key, body, contentType);
+      if (!response.ok) {
+        throw new Error(`S3 upload failed with status ${response.status}`);
+      }
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`S3 download failed with status ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed with status ${response.status}`);
+      }
+    },
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when RECEIPT_STORAGE is "s3"`);
+  }
+  return value;
+}
+
+let receiptStorage: ReceiptStorage | null = null;
+
+// The configured backend: RECEIPT_STORAGE="s3" for a bucket, otherwise the
+// local directory in RECEIPT_STORAGE_DIR (./storage/receipts by default)
+export function getReceiptStorage(): ReceiptStorage {
+  if (!receiptStorage) {
+    receiptStorage =
+      process.env.RECEIPT_STORAGE === 's3'
+        ? createS3Storage({
+            endpoint: requireEnv('S3_ENDPOINT'),
+            bucket: requireEnv('S3_BUCKET'),
+            region: process.env.S3_REGION || 'us-east-1',
+            accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+            secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+          })
+        : createLocalStorage(
+            process.env.RECEIPT_STORAGE_DIR ||
+              path.join(process.cwd(), 'storage', 'receipts')
+          );
+  }
+  return receiptStorage;
+}
+
+// A new key for a user's receipt, keeping the file's extension
+export function createReceiptKey(userId: string, fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase();
+  return `${userId}/${randomUUID()}${/^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ''}`;
+}
+
+export function getThumbnailKey(key: string): string {
+  return `${key}.thumb.webp`;
+}
+
+// The preprocessed image OCR read, which the word boxes refer to
+export function getOcrImageKey(key: string): string {
+  return `${key}.ocr.webp`;
+}
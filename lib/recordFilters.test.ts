@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRecordQuery,
+  parseFilterParams,
+  toFilterParams,
+} from './recordFilters';
+import { Category } from '@/types/Category';
+
+const category = (
+  id: string,
+  name: string,
+  parentId: string | null = null
+): Category => ({ id, name, icon: '', color: '#000000', parentId, archived: false });
+
+const categories = [
+  category('food', 'Food'),
+  category('groceries', 'Groceries', 'food'),
+  category('fruit', 'Fruit', 'groceries'),
+  category('travel', 'Travel'),
+];
+
+describe('buildRecordQuery', () => {
+  it('only filters by user and sorts by newest by default', () => {
+    expect(buildRecordQuery('user-1')).toEqual({
+      where: { userId: 'user-1' },
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+    });
+  });
+
+  it('includes subcategories and split lines in a category filter', () => {
+    const names = ['Food', 'Groceries', 'Fruit'];
+    expect(
+      buildRecordQuery('user-1', { category: 'Food' }, categories).where.OR
+    ).toEqual([
+      { category: { in: names } },
+      { splits: { some: { category: { in: names } } } },
+    ]);
+  });
+
+  it('ignores the "all" category', () => {
+    expect(
+      buildRecordQuery('user-1', { category: 'all' }, categories).where.OR
+    ).toBeUndefined();
+  });
+
+  it('matches any tag unless every one is required', () => {
+    expect(
+      buildRecordQuery('user-1', { tags: ['work', 'trip'] }).where.tags
+    ).toEqual({ some: { name: { in: ['work', 'trip'] } } });
+    expect(
+      buildRecordQuery('user-1', { tags: ['work', 'trip'], tagMatch: 'all' })
+        .where.AND
+    ).toEqual([
+      { tags: { some: { name: 'work' } } },
+      { tags: { some: { name: 'trip' } } },
+    ]);
+  });
+
+  it('keeps a zero amount bound and open-ended ranges', () => {
+    const { where } = buildRecordQuery('user-1', {
+      minAmount: 0,
+      endDate: '2025-03-31',
+    });
+    expect(where.amount).toEqual({ gte: 0 });
+    expect(where.date).toEqual({ lte: new Date('2025-03-31') });
+  });
+
+  it('breaks sort ties by id in the same direction', () => {
+    expect(
+      buildRecordQuery('user-1', { sortField: 'amount', sortDirection: 'asc' })
+        .orderBy
+    ).toEqual([{ amount: 'asc' }, { id: 'asc' }]);
+  });
+});
+
+describe('parseFilterParams', () => {
+  it('ignores invalid values', () => {
+    expect(
+      parseFilterParams(
+        new URLSearchParams(
+          'minAmount=abc&sortField=userId&sortDirection=up&tagMatch=some'
+        )
+      )
+    ).toEqual({
+      category: undefined,
+      tags: undefined,
+      tagMatch: undefined,
+      minAmount: undefined,
+      maxAmount: undefined,
+      startDate: undefined,
+      endDate: undefined,
+      sortField: undefined,
+      sortDirection: undefined,
+    });
+  });
+
+  it('reads back what toFilterParams writes', () => {
+    const filters = {
+      category: 'Food',
+      tags: ['work', 'trip'],
+      tagMatch: 'all' as const,
+      minAmount: 0,
+      maxAmount: 99.5,
+      startDate: '2025-01-01',
+      endDate: '2025-03-31',
+      sortField: 'amount' as const,
+      sortDirection: 'asc' as const,
+    };
+    expect(parseFilterParams(toFilterParams(filters))).toEqual(filters);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Prisma } from '@prisma/client';
+import { getDescendantNames } from './categories';
+import { parseTagList } from './tags';
+import { Category } from '@/types/Category';
+
+export const RECORD_SORT_FIELDS = ['date', 'text', 'category', 'amount'] as const;
+
+export type RecordSortField = (typeof RECORD_SORT_FIELDS)[number];
+
+export interface FilterOptions {
+  category?: string;
+  tags?: string[];
+  tagMatch?: 'any' | 'all'; // Defaults to any
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  sortField?: RecordSortField;
+  sortDirection?: 'asc' | 'desc';
+}
+
+// Build the Prisma where/orderBy for a user's filtered records. Shared by
+// the history table and the CSV export so both return the same rows.
+// Filtering by a parent category includes its subcategories, and split
+// records match if any of their lines does.
+export function buildRecordQuery(
+  userId: string,
+  filters: FilterOptions = {},
+  categories: Category[] = []
+): {
+  where: Prisma.RecordWhereInput;
+  orderBy: Prisma.RecordOrderByWithRelationInput[];
+} {
+  const where: Prisma.RecordWhereInput = { userId };
+
+  // Add category filter
+  if (filters.category && filters.category !== 'all') {
+    const names = getDescendantNames(filters.category, categories);
+    where.OR = [
+      { category: { in: names } },
+      { splits: { some: { category: { in: names } } } },
+    ];
+  }
+
+  // Add tag filter: records with any of the tags, or with every one of them
+  if (filters.tags && filters.tags.length > 0) {
+    if (filters.tagMatch === 'all') {
+      where.AND = filters.tags.map((name) => ({ tags: { some: { name } } }));
+    } else {
+      where.tags = { some: { name: { in: filters.tags } } };
+    }
+  }
+
+  // Add amount range filter
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    where.amount = {
+      ...(filters.minAmount !== undefined ? { gte: filters.minAmount } : {}),
+      ...(filters.maxAmount !== undefined ? { lte: filters.maxAmount } : {}),
+    };
+  }
+
+  // Add date range filter
+  if (filters.startDate || filters.endDate) {
+    where.date = {
+      ...(filters.startDate ? { gte: new Date(filters.startDate) } : {}),
+      ...(filters.endDate ? { lte: new Date(filters.endDate) } : {}),
+    };
+  }
+
+  // Sort by the requested field, then by id so ties keep a stable order
+  // across pages
+  const sortField = filters.sortField || 'date';
+  const sortDirection = filters.sortDirection || 'desc';
+
+  return {
+    where,
+    orderBy: [{ [sortField]: sortDirection }, { id: sortDirection }],
+  };
+}
+
+// Read filter options from URL search params, ignoring invalid values
+export function parseFilterParams(params: URLSearchParams): FilterOptions {
+  const number = (key: string) => {
+    const value = parseFloat(params.get(key) || '');
+    return isNaN(value) ? undefined : value;
+  };
+  const sortField = params.get('sortField');
+  const sortDirection = params.get('sortDirection');
+  const tags = parseTagList(params.get('tags') || '');
+
+  return {
+    category: params.get('category') || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    tagMatch: params.get('tagMatch') === 'all' ? 'all' : undefined,
+    minAmount: number('minAmount'),
+    maxAmount: number('maxAmount'),
+    startDate: params.get('startDate') || undefined,
+    endDate: params.get('endDate') || undefined,
+    sortField: RECORD_SORT_FIELDS.includes(sortField as RecordSortField)
+      ? (sortField as RecordSortField)
+      : undefined,
+    sortDirection:
+      sortDirection === 'asc' || sortDirection === 'desc'
+        ? sortDirection
+        : undefined,
+  };
+}
+
+// Inverse of parseFilterParams, used to build the export link. Tag lists
+// are joined with commas, which tag names can't contain.
+export function toFilterParams(filters: FilterOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+}
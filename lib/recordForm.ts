@@ -0,0 +1,136 @@
+import { isSupportedCurrency } from './currency';
+import { MAX_TAGS_PER_RECORD, parseTagList } from './tags';
+import { getPrimaryCategory, validateSplits } from './splits';
+import { RecordSplit } from '@/types/Record';
+import { AmountBreakdown } from '@/types/Receipt';
+
+// Optional receipt breakdown fields and how they're named in errors
+const BREAKDOWN_FIELDS: Array<[keyof AmountBreakdown, string]> = [
+  ['subtotal', 'Subtotal'],
+  ['taxAmount', 'Tax amount'],
+  ['taxRate', 'Tax rate'],
+  ['tip', 'Tip'],
+  ['discount', 'Discount'],
+];
+
+// Validated fields of the expense form shared by the add and edit actions
+export interface RecordInput {
+  text: string;
+  amount: number;
+  category: string;
+  date: string; // ISO-8601 at noon UTC
+  currency: string | null; // Null when the form didn't send one
+  tags: string[] | null; // Null when the form didn't send any
+  splits: RecordSplit[] | null; // Null when the form didn't send any, empty to unsplit
+  breakdown: Partial<AmountBreakdown>; // Only the fields the form sent; blank clears one
+}
+
+// Parse a YYYY-MM-DD date input at noon UTC to avoid timezone issues
+export function parseDateInput(value: string): Date | null {
+  const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+  const date = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null; // Also rejects 2025-02-30 instead of rolling it over
+  }
+  return date;
+}
+
+export function parseRecordFormData(formData: FormData): {
+  input?: RecordInput;
+  error?: string;
+} {
+  const textValue = formData.get('text');
+  const amountValue = formData.get('amount');
+  const categoryValue = formData.get('category');
+  const dateValue = formData.get('date');
+  const currencyValue = formData.get('currency'); // Optional
+  const tagsValue = formData.get('tags'); // Optional, comma-separated
+  const splitsValue = formData.get('splits'); // Optional, JSON list of { category, amount }
+
+  // Check for input values
+  if (
+    !textValue ||
+    textValue === '' ||
+    !amountValue ||
+    !categoryValue ||
+    categoryValue === '' ||
+    !dateValue ||
+    dateValue === ''
+  ) {
+    return { error: 'Text, amount, category, or date is missing' };
+  }
+
+  const amount = parseFloat(amountValue.toString());
+  if (isNaN(amount)) {
+    return { error: 'Amount must be a number' };
+  }
+
+  // Convert date to ISO-8601 format while preserving the user's input date
+  const date = parseDateInput(dateValue.toString());
+  if (!date) {
+    return { error: 'Invalid date format' };
+  }
+
+  const currency = currencyValue ? currencyValue.toString() : null;
+  if (currency && !isSupportedCurrency(currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  const tags = tagsValue !== null ? parseTagList(tagsValue.toString()) : null;
+  if (tags && tags.length > MAX_TAGS_PER_RECORD) {
+    return { error: `Use at most ${MAX_TAGS_PER_RECORD} tags per expense` };
+  }
+
+  let splits: RecordSplit[] | null = null;
+  if (splitsValue !== null) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(splitsValue.toString());
+    } catch {
+      return { error: 'Invalid split lines' };
+    }
+    const result = validateSplits(parsed, amount);
+    if (!result.splits) {
+      return { error: result.error };
+    }
+    splits = result.splits;
+  }
+
+  const breakdown: Partial<AmountBreakdown> = {};
+  for (const [field, label] of BREAKDOWN_FIELDS) {
+    const value = formData.get(field);
+    if (value === null) continue;
+    if (value.toString().trim() === '') {
+      breakdown[field] = null;
+      continue;
+    }
+    const number = parseFloat(value.toString());
+    if (isNaN(number) || number < 0 || (field === 'taxRate' && number > 100)) {
+      return { error: `${label} is not valid` };
+    }
+    breakdown[field] = number;
+  }
+
+  return {
+    input: {
+      text: textValue.toString(),
+      amount,
+      // A split record is listed under its largest line's category
+      category:
+        splits && splits.length > 0
+          ? getPrimaryCategory(splits)
+          : categoryValue.toString(),
+      date: date.toISOString(),
+      currency,
+      tags,
+      splits,
+      breakdown,
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateDueRecords, getOccurrenceDates } from './recurring';
+
+const db = vi.hoisted(() => ({
+  recurringExpense: { findMany: vi.fn() },
+  record: { create: vi.fn() },
+  recurringOccurrence: { create: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('./db', () => ({ db }));
+
+const day = (iso: string) => new Date(`${iso}T12:00:00.000Z`);
+const days = (dates: Date[]) =>
+  dates.map((date) => date.toISOString().slice(0, 10));
+
+describe('getOccurrenceDates', () => {
+  const schedule = (
+    frequency: string,
+    startDate: string,
+    extra: { intervalDays?: number; endDate?: string } = {}
+  ) => ({
+    frequency,
+    intervalDays: extra.intervalDays ?? null,
+    startDate: day(startDate),
+    endDate: extra.endDate ? day(extra.endDate) : null,
+  });
+
+  it('clamps monthly dates to the end of shorter months', () => {
+    expect(
+      days(getOccurrenceDates(schedule('monthly', '2024-01-31'), day('2024-01-01'), day('2024-05-01')))
+    ).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('steps weekly, yearly and by interval', () => {
+    expect(
+      days(getOccurrenceDates(schedule('weekly', '2024-03-01'), day('2024-03-01'), day('2024-03-20')))
+    ).toEqual(['2024-03-01', '2024-03-08', '2024-03-15']);
+    expect(
+      days(getOccurrenceDates(schedule('yearly', '2024-02-29'), day('2024-01-01'), day('2026-12-31')))
+    ).toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+    expect(
+      days(
+        getOccurrenceDates(
+          schedule('interval', '2024-03-01', { intervalDays: 10 }),
+          day('2024-03-01'),
+          day('2024-03-31')
+        )
+      )
+    ).toEqual(['2024-03-01', '2024-03-11', '2024-03-21', '2024-03-31']);
+  });
+
+  it('skips dates before the range and stops at the end date and limit', () => {
+    const daily = schedule('daily', '2024-03-01', { endDate: '2024-03-05' });
+    expect(
+      days(getOccurrenceDates(daily, day('2024-03-03'), day('2024-03-31')))
+    ).toEqual(['2024-03-03', '2024-03-04', '2024-03-05']);
+    expect(
+      getOccurrenceDates(schedule('daily', '2024-03-01'), day('2024-03-01'), day('2024-12-31'), 3)
+    ).toHaveLength(3);
+  });
+});
+
+describe('generateDueRecords', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.record.create.mockResolvedValue({ id: 'record' });
+    db.$transaction.mockImplementation((run: (tx: typeof db) => unknown) =>
+      run(db)
+    );
+  });
+
+  const recurringExpense = (occurrences: Date[]) => ({
+    id: 'coffee',
+    userId: 'user',
+    text: 'Coffee',
+    amount: 3,
+    currency: 'USD',
+    category: 'Food',
+    frequency: 'daily',
+    intervalDays: null,
+    startDate: day('2023-01-01'),
+    endDate: null,
+    occurrences: occurrences.map((date) => ({ date })),
+  });
+
+  it('keeps generating after the first thousand occurrences', async () => {
+    // Every day up to 2025-09-30 was already generated
+    const handled = getOccurrenceDates(
+      recurringExpense([]),
+      day('2023-01-01'),
+      day('2025-09-30'),
+      Infinity
+    );
+    expect(handled.length).toBeGreaterThan(1000);
+    db.recurringExpense.findMany.mockResolvedValue([recurringExpense(handled)]);
+
+    const { generated } = await generateDueRecords(undefined, day('2025-10-03'));
+
+    expect(generated).toBe(3);
+    expect(
+      db.recurringOccurrence.create.mock.calls.map(([{ data }]) =>
+        data.date.toISOString().slice(0, 10)
+      )
+    ).toEqual(['2025-10-01', '2025-10-02', '2025-10-03']);
+  });
+});
@@ -0,0 +1,154 @@
+import { Prisma } from '@prisma/client';
+import { db } from './db';
+
+export const RECURRING_FREQUENCIES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+  'interval',
+] as const;
+
+export type RecurringFrequency = (typeof RECURRING_FREQUENCIES)[number];
+
+export interface RecurringSchedule {
+  frequency: string;
+  intervalDays: number | null;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences are stored at noon UTC, like manually added expenses
+function atNoonUTC(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day, 12, 0, 0));
+}
+
+// Add months while clamping to the end of shorter months (Jan 31 -> Feb 28)
+function addMonthsClamped(start: Date, months: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return atNoonUTC(year, month, Math.min(start.getUTCDate(), lastDay));
+}
+
+// The nth occurrence of a schedule, counting the start date as 0
+function nthOccurrence(schedule: RecurringSchedule, n: number): Date {
+  const start = atNoonUTC(
+    schedule.startDate.getUTCFullYear(),
+    schedule.startDate.getUTCMonth(),
+    schedule.startDate.getUTCDate()
+  );
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return new Date(start.getTime() + n * DAY_MS);
+    case 'weekly':
+      return new Date(start.getTime() + n * 7 * DAY_MS);
+    case 'monthly':
+      return addMonthsClamped(start, n);
+    case 'yearly':
+      return addMonthsClamped(start, n * 12);
+    case 'interval':
+      return new Date(start.getTime() + n * (schedule.intervalDays || 1) * DAY_MS);
+    default:
+      throw new Error(`Unknown recurring frequency: ${schedule.frequency}`);
+  }
+}
+
+// List occurrence dates between `from` and `to` (inclusive), up to `limit`
+export function getOccurrenceDates(
+  schedule: RecurringSchedule,
+  from: Date,
+  to: Date,
+  limit: number = 1000
+): Date[] {
+  const dates: Date[] = [];
+
+  for (let n = 0; dates.length < limit; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (date > to) break;
+    if (schedule.endDate && date > schedule.endDate) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+const OCCURRENCE_PAGE_SIZE = 1000;
+
+// Create the Record rows for every occurrence that is due and not yet
+// generated or skipped. Safe to run repeatedly: the unique index on
+// (recurringExpenseId, date) stops an occurrence from being created twice.
+export async function generateDueRecords(
+  userId?: string,
+  now: Date = new Date()
+): Promise<{ generated: number }> {
+  const recurringExpenses = await db.recurringExpense.findMany({
+    where: {
+      pausedAt: null,
+      startDate: { lte: now },
+      ...(userId ? { userId } : {}),
+    },
+    include: {
+      occurrences: { select: { date: true } },
+    },
+  });
+
+  let generated = 0;
+
+  for (const expense of recurringExpenses) {
+    const handled = new Set(
+      expense.occurrences.map((occurrence) => occurrence.date.getTime())
+    );
+    // Read the schedule a page at a time, so long-running schedules keep
+    // generating after their first thousand occurrences
+    const dueDates: Date[] = [];
+    let from = expense.startDate;
+    for (;;) {
+      const page = getOccurrenceDates(expense, from, now, OCCURRENCE_PAGE_SIZE);
+      dueDates.push(...page.filter((date) => !handled.has(date.getTime())));
+      if (page.length < OCCURRENCE_PAGE_SIZE) break;
+      from = new Date(page[page.length - 1].getTime() + 1);
+    }
+
+    for (const date of dueDates) {
+      try {
+        await db.$transaction(async (tx) => {
+          const record = await tx.record.create({
+            data: {
+              text: expense.text,
+              amount: expense.amount,
+              currency: expense.currency,
+              category: expense.category,
+              date,
+              userId: expense.userId,
+            },
+          });
+
+          await tx.recurringOccurrence.create({
+            data: {
+              recurringExpenseId: expense.id,
+              date,
+              status: 'generated',
+              recordId: record.id,
+            },
+          });
+        });
+        generated++;
+      } catch (error) {
+        // Another run already created this occurrence; its record was rolled back
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  return { generated };
+}
@@ -0,0 +1,77 @@
+import { RecordSplit } from '@/types/Record';
+
+export const MAX_SPLIT_LINES = 20;
+
+// Select a record's split lines, largest first
+export const recordSplitsInclude = {
+  splits: {
+    select: { category: true, amount: true },
+    orderBy: { amount: 'desc' as const },
+  },
+};
+
+// How a record's amount is shared between categories: its split lines if
+// it has any, otherwise the whole amount in its own category. Aggregations
+// by category should use this instead of record.category.
+export function getCategoryShares(record: {
+  amount: number;
+  category: string;
+  splits?: RecordSplit[];
+}): RecordSplit[] {
+  return record.splits && record.splits.length > 0
+    ? record.splits
+    : [{ category: record.category, amount: record.amount }];
+}
+
+// A split record is listed under the category of its largest line
+export function getPrimaryCategory(splits: RecordSplit[]): string {
+  return splits.reduce((largest, split) =>
+    split.amount > largest.amount ? split : largest
+  ).category;
+}
+
+// Check that split lines are usable and add up to the record's total.
+// An empty list means the record isn't split.
+export function validateSplits(
+  splits: unknown,
+  total: number
+): { splits?: RecordSplit[]; error?: string } {
+  if (!Array.isArray(splits)) {
+    return { error: 'Invalid split lines' };
+  }
+  if (splits.length === 0) {
+    return { splits: [] };
+  }
+  if (splits.length < 2) {
+    return { error: 'A split needs at least two lines' };
+  }
+  if (splits.length > MAX_SPLIT_LINES) {
+    return { error: `Split into at most ${MAX_SPLIT_LINES} lines` };
+  }
+
+  const lines: RecordSplit[] = [];
+  for (const split of splits) {
+    const category =
+      typeof split?.category === 'string' ? split.category.trim() : '';
+    const amount = Number(split?.amount);
+    if (!category) {
+      return { error: 'Every split line needs a category' };
+    }
+    if (!isFinite(amount) || amount <= 0) {
+      return { error: 'Split amounts must be greater than zero' };
+    }
+    if (lines.some((line) => line.category === category)) {
+      return { error: `${category} appears in more than one split line` };
+    }
+    lines.push({ category, amount: Math.round(amount * 100) / 100 });
+  }
+
+  const sum = lines.reduce((acc, line) => acc + line.amount, 0);
+  if (Math.abs(sum - total) >= 0.005) {
+    return {
+      error: `Split lines add up to ${sum.toFixed(2)} instead of ${total.toFixed(2)}`,
+    };
+  }
+
+  return { splits: lines };
+}
@@ -0,0 +1,33 @@
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_RECORD = 10;
+
+// Tags are stored lowercase with hyphens instead of spaces, so
+// "Business Trip 2026" and "business-trip-2026" are the same tag
+export function normalizeTagName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s,]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Parse a comma-separated list of tags, dropping blanks and duplicates
+export function parseTagList(value: string): string[] {
+  return Array.from(
+    new Set(value.split(',').map(normalizeTagName).filter(Boolean))
+  );
+}
+
+// Select a record's tag names, in a stable order
+export const recordTagsInclude = {
+  tags: { select: { name: true }, orderBy: { name: 'asc' as const } },
+};
+
+// Nested write linking a record to the user's tags, creating any new ones
+export function connectTags(userId: string, names: string[]) {
+  return names.map((name) => ({
+    where: { userId_name: { userId, name } },
+    create: { userId, name },
+  }));
+}
@@ -0,0 +1,70 @@
+import { TaxPeriod, TaxSummaryRow } from '@/types/TaxSummary';
+
+// A record's breakdown with every amount already in the base currency
+export interface TaxSummaryInput {
+  date: Date;
+  amount: number;
+  subtotal: number | null;
+  taxAmount: number | null;
+  taxRate: number | null;
+  tip: number | null;
+  discount: number | null;
+}
+
+// Label of the period a date falls in, using UTC like stored expense dates
+export function getPeriodKey(date: Date, period: TaxPeriod): string {
+  const year = date.getUTCFullYear();
+  if (period === 'year') return String(year);
+  if (period === 'quarter') return `${year}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+  return `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Total the breakdowns per period, newest period first, with the tax
+// split by rate
+export function summarizeTaxes(
+  records: TaxSummaryInput[],
+  period: TaxPeriod
+): TaxSummaryRow[] {
+  const rows = new Map<string, TaxSummaryRow>();
+
+  records.forEach((record) => {
+    const key = getPeriodKey(record.date, period);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        period: key,
+        count: 0,
+        subtotal: 0,
+        taxAmount: 0,
+        tip: 0,
+        discount: 0,
+        total: 0,
+        byRate: [],
+      };
+      rows.set(key, row);
+    }
+
+    row.count += 1;
+    row.subtotal += record.subtotal || 0;
+    row.taxAmount += record.taxAmount || 0;
+    row.tip += record.tip || 0;
+    row.discount += record.discount || 0;
+    row.total += record.amount;
+
+    if (record.taxAmount) {
+      const rateTotal = row.byRate.find((item) => item.rate === record.taxRate);
+      if (rateTotal) {
+        rateTotal.taxAmount += record.taxAmount;
+      } else {
+        row.byRate.push({ rate: record.taxRate, taxAmount: record.taxAmount });
+      }
+    }
+  });
+
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      byRate: row.byRate.sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1)),
+    }))
+    .sort((a, b) => b.period.localeCompare(a.period));
+}
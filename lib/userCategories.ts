@@ -0,0 +1,50 @@
+import { db } from './db';
+import { DEFAULT_CATEGORIES, getLeafCategories } from './categories';
+import { Category } from '@/types/Category';
+
+// The user's categories, seeding the defaults the first time they're needed
+export async function getUserCategories(
+  userId: string,
+  includeArchived: boolean = true
+): Promise<Category[]> {
+  let categories = await db.category.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (categories.length === 0) {
+    // Stagger createdAt so the defaults keep their order
+    const now = Date.now();
+    await db.category.createMany({
+      data: DEFAULT_CATEGORIES.map((category, index) => ({
+        ...category,
+        userId,
+        createdAt: new Date(now + index),
+      })),
+      skipDuplicates: true,
+    });
+    categories = await db.category.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  return categories
+    .filter((category) => includeArchived || !category.archivedAt)
+    .map((category) => ({
+      id: category.id,
+      name: category.name,
+      icon: category.icon,
+      color: category.color,
+      parentId: category.parentId,
+      archived: !!category.archivedAt,
+    }));
+}
+
+// Names of the categories the user can currently assign records to
+export async function getAssignableCategoryNames(
+  userId: string
+): Promise<string[]> {
+  const categories = await getUserCategories(userId);
+  return getLeafCategories(categories).map((category) => category.name);
+}
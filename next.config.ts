@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['tesseract.js', 'pdf-parse', 'sharp']
+  serverExternalPackages: ['tesseract.js', 'pdfjs-dist', '@napi-rs/canvas', 'sharp']
 };
 
 export default nextConfig;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "public"."RecurringExpense" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "category" TEXT NOT NULL DEFAULT 'Other',
+    "frequency" TEXT NOT NULL,
+    "intervalDays" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "pausedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringExpense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RecurringOccurrence" (
+    "id" TEXT NOT NULL,
+    "recurringExpenseId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "recordId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecurringOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringExpense_userId_idx" ON "public"."RecurringExpense"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_recordId_key" ON "public"."RecurringOccurrence"("recordId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_recurringExpenseId_date_key" ON "public"."RecurringOccurrence"("recurringExpenseId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."RecurringExpense" ADD CONSTRAINT "RecurringExpense_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("clerkUserId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "public"."RecurringExpense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "public"."Record"("id") ON DELETE SET NULL ON UPDATE CASCADE;
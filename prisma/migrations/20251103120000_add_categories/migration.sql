@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "public"."Category" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT NOT NULL DEFAULT '📦',
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Category_userId_idx" ON "public"."Category"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_userId_name_key" ON "public"."Category"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."Category" ADD CONSTRAINT "Category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("clerkUserId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the default categories for existing users, staggering createdAt to keep their order
+INSERT INTO "public"."Category" ("id", "userId", "name", "icon", "color", "createdAt")
+SELECT gen_random_uuid()::text, u."clerkUserId", d."name", d."icon", d."color", CURRENT_TIMESTAMP + d."position" * INTERVAL '1 millisecond'
+FROM "public"."User" u
+CROSS JOIN (VALUES
+    ('Food', '🍔', '#f97316', 0),
+    ('Transportation', '🚗', '#3b82f6', 1),
+    ('Entertainment', '🎬', '#a855f7', 2),
+    ('Shopping', '🛒', '#ec4899', 3),
+    ('Bills', '💡', '#eab308', 4),
+    ('Healthcare', '🏥', '#ef4444', 5),
+    ('Other', '📦', '#6b7280', 6)
+) AS d("name", "icon", "color", "position");
+
+-- Keep any other category names already used by records
+INSERT INTO "public"."Category" ("id", "userId", "name", "createdAt")
+SELECT gen_random_uuid()::text, r."userId", r."category", CURRENT_TIMESTAMP + INTERVAL '1 second'
+FROM (SELECT DISTINCT "userId", "category" FROM "public"."Record") r
+ON CONFLICT ("userId", "name") DO NOTHING;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN "parentId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."RecordSplit" (
+    "id" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "RecordSplit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecordSplit_recordId_idx" ON "public"."RecordSplit"("recordId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RecordSplit" ADD CONSTRAINT "RecordSplit_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "public"."Record"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."UploadLineItem" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION,
+    "total" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "UploadLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadLineItem_uploadId_idx" ON "public"."UploadLineItem"("uploadId");
+
+-- AddForeignKey
+ALTER TABLE "public"."UploadLineItem" ADD CONSTRAINT "UploadLineItem_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "public"."Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
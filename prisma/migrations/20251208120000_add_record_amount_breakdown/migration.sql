@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Record" ADD COLUMN     "discount" DOUBLE PRECISION,
+ADD COLUMN     "subtotal" DOUBLE PRECISION,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION,
+ADD COLUMN     "taxRate" DOUBLE PRECISION,
+ADD COLUMN     "tip" DOUBLE PRECISION;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "receiptExtraction" TEXT NOT NULL DEFAULT 'auto';
+
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "extractionMethod" TEXT;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."Record" ADD COLUMN     "uploadId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "contentType" TEXT,
+ADD COLUMN     "fileSize" INTEGER,
+ADD COLUMN     "storageKey" TEXT,
+ADD COLUMN     "thumbnailKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Record_uploadId_idx" ON "public"."Record"("uploadId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Record" ADD CONSTRAINT "Record_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "public"."Upload"("id") ON DELETE SET NULL ON UPDATE CASCADE;
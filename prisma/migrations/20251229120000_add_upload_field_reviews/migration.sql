@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "confirmedAt" TIMESTAMP(3),
+ADD COLUMN     "suggestedCategory" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."UploadFieldReview" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "parsedValue" TEXT,
+    "confirmedValue" TEXT NOT NULL,
+    "corrected" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadFieldReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadFieldReview_uploadId_idx" ON "public"."UploadFieldReview"("uploadId");
+
+-- AddForeignKey
+ALTER TABLE "public"."UploadFieldReview" ADD CONSTRAINT "UploadFieldReview_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "public"."Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "discardedAt" TIMESTAMP(3),
+ADD COLUMN     "pageNumber" INTEGER;
+
+-- Uploads scanned before the review queue existed shouldn't fill it
+UPDATE "public"."Upload" u SET "confirmedAt" = u."createdAt"
+WHERE u."confirmedAt" IS NULL
+  AND EXISTS (SELECT 1 FROM "public"."Record" r WHERE r."uploadId" = u."id");
+UPDATE "public"."Upload" SET "discardedAt" = CURRENT_TIMESTAMP WHERE "confirmedAt" IS NULL;
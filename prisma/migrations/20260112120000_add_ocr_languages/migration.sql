@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "ocrAutoDetect" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ocrLanguages" TEXT NOT NULL DEFAULT 'spa+eng';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "ocrImageKey" TEXT,
+ADD COLUMN     "ocrWords" JSONB;
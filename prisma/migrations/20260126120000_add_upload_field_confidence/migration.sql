@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Upload" ADD COLUMN     "amountConfidence" DOUBLE PRECISION,
+ADD COLUMN     "dateConfidence" DOUBLE PRECISION,
+ADD COLUMN     "descriptionConfidence" DOUBLE PRECISION,
+ADD COLUMN     "providerConfidence" DOUBLE PRECISION;
@@ -0,0 +1,19 @@
+export interface BudgetLine {
+  id: string;
+  category: string | null; // Null for the overall monthly limit
+  limit: number;
+  spent: number;
+  projected: number; // Month-end spend at the current daily pace
+  isOver: boolean;
+  isProjectedOver: boolean;
+}
+
+export interface BudgetStatus {
+  currency: string;
+  missingRates: string[]; // Currencies left out of spending for lack of a rate
+  month: string; // YYYY-MM
+  daysElapsed: number;
+  daysInMonth: number;
+  overall: BudgetLine | null;
+  categories: BudgetLine[];
+}
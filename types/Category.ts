@@ -0,0 +1,18 @@
+export interface Category {
+  id: string;
+  name: string;
+  icon: string;
+  color: string; // Hex colour, e.g. #3b82f6
+  parentId: string | null; // Null for top-level categories
+  archived: boolean;
+}
+
+// Spending for a category including all of its subcategories
+export interface CategoryTotal {
+  name: string;
+  icon: string;
+  color: string;
+  total: number; // Own spending plus every descendant's
+  own: number; // Spending recorded directly on this category
+  children: CategoryTotal[];
+}
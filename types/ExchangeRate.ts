@@ -0,0 +1,6 @@
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number; // Units of `currency` per one USD
+  effectiveDate: Date;
+}
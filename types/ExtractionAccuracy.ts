@@ -0,0 +1,19 @@
+// Receipt fields whose extracted value is compared with what the user saved
+export type ExtractionField =
+  | 'amount'
+  | 'currency'
+  | 'date'
+  | 'description'
+  | 'category';
+
+export interface FieldAccuracy {
+  field: ExtractionField;
+  reviewed: number; // Confirmed receipts
+  corrected: number; // Of those, how many the user changed
+  accuracy: number; // Share left unchanged, 0-1
+}
+
+export interface ExtractionAccuracyRow {
+  period: string; // "2026-03"
+  fields: FieldAccuracy[];
+}
@@ -0,0 +1,34 @@
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// 'auto' infers it from the whole amount column
+export type ImportDecimalSeparator = 'auto' | '.' | ',';
+
+// One CSV row after column mapping, still as raw text
+export interface RawImportRow {
+  text: string;
+  amount: string;
+  category: string; // Empty when no category column is mapped
+  date: string;
+}
+
+export interface ImportPreviewRow {
+  line: number; // 1-based row number in the uploaded file
+  text: string;
+  amount: number;
+  currency: string;
+  category: string;
+  categorySource: 'file' | 'ai' | 'default';
+  date: string; // ISO date string, noon UTC
+  error?: string;
+  duplicate?: {
+    source: 'existing' | 'file';
+    text: string;
+    date: string;
+  };
+}
+
+// The fields sent back when committing previewed rows
+export type ImportRecordInput = Pick<
+  ImportPreviewRow,
+  'text' | 'amount' | 'currency' | 'category' | 'date'
+>;
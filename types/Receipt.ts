@@ -0,0 +1,31 @@
+// One purchased item on a receipt
+export interface LineItem {
+  name: string;
+  quantity: number;
+  unitPrice: number | null; // Null when the receipt only shows the line total
+  total: number;
+}
+
+// How a receipt's line items compare with its total
+export interface LineItemReconciliation {
+  sum: number;
+  difference: number; // Total minus the sum of the lines
+  isReconciled: boolean;
+}
+
+// Parts of a receipt's total, each in the receipt's currency
+export interface AmountBreakdown {
+  subtotal: number | null;
+  taxAmount: number | null; // IVA/VAT/sales tax
+  taxRate: number | null; // Percentage, e.g. 13 for 13%
+  tip: number | null;
+  discount: number | null; // Amount taken off, as a positive number
+}
+
+// How receipts are read: 'auto' asks the LLM only when the offline
+// heuristics aren't confident enough, 'heuristic' never calls it
+export type ReceiptExtractionMode = 'auto' | 'heuristic';
+
+// Which path produced an upload's extracted data; 'heuristic_fallback'
+// means the LLM was needed but unavailable
+export type ExtractionMethod = 'heuristic' | 'llm' | 'heuristic_fallback';
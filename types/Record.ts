@@ -1,9 +1,35 @@
+// Part of a record's amount assigned to one category, in the record's currency
+export interface RecordSplit {
+  category: string;
+  amount: number;
+}
+
+// Original receipt file a record was created from
+export interface RecordAttachment {
+  uploadId: string;
+  fileName: string;
+  contentType: string | null;
+  hasThumbnail: boolean; // Images only; PDFs show an icon
+}
+
 export interface Record {
   date: string | number | Date;
   id: string;
   text: string;
   amount: number;
+  currency: string;
+  baseAmount?: number | null; // Amount in the user's base currency, null without a rate
   category: string;
+  tags?: string[];
+  splits?: RecordSplit[]; // Empty unless the expense is split across categories
+  subtotal?: number | null; // Receipt breakdown, in the record's currency
+  taxAmount?: number | null;
+  taxRate?: number | null; // Percentage
+  tip?: number | null;
+  discount?: number | null;
+  uploadId?: string | null;
+  attachment?: RecordAttachment | null;
   userId: string;
   createdAt: Date;
+  updatedAt: Date;
 }
@@ -0,0 +1,18 @@
+export interface RecurringOccurrencePreview {
+  date: string; // ISO date string
+  skipped: boolean;
+}
+
+export interface RecurringExpense {
+  id: string;
+  text: string;
+  amount: number;
+  currency: string;
+  category: string;
+  frequency: string;
+  intervalDays: number | null;
+  startDate: Date;
+  endDate: Date | null;
+  paused: boolean;
+  upcoming: RecurringOccurrencePreview[];
+}
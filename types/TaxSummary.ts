@@ -0,0 +1,19 @@
+export type TaxPeriod = 'month' | 'quarter' | 'year';
+
+// Tax paid at one rate within a period
+export interface TaxRateTotal {
+  rate: number | null; // Null when the receipt didn't show a rate
+  taxAmount: number;
+}
+
+// Receipt breakdown totals for one period, in the user's base currency
+export interface TaxSummaryRow {
+  period: string; // 2025-03, 2025-Q1 or 2025
+  count: number;
+  subtotal: number;
+  taxAmount: number;
+  tip: number;
+  discount: number;
+  total: number;
+  byRate: TaxRateTotal[];
+}